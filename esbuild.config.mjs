@@ -51,6 +51,8 @@ const options = {
   sourcemap: prod ? false : 'inline',
   treeShaking: true,
   outfile: 'main.js',
+  // sql.js WASM binary is inlined into the bundle (see src/utils/sqlite.ts)
+  loader: { '.wasm': 'binary' },
   plugins: [renameCSS],
 };
 
@@ -13,6 +13,18 @@ import { AIService } from './src/services/AIService';
 import { DataService } from './src/services/DataService';
 import { FSRSService } from './src/services/FSRSService';
 import { QuestionGeneratorService } from './src/services/QuestionGeneratorService';
+import { RuleExtractionService } from './src/services/RuleExtractionService';
+import { AnkiExportService } from './src/services/AnkiExportService';
+import { AnkiImportService } from './src/services/AnkiImportService';
+import { SRImportOptions, SRImportService } from './src/services/SRImportService';
+import { FSRSOptimizerService } from './src/services/FSRSOptimizerService';
+import { SourceLinkService } from './src/services/SourceLinkService';
+import { getEmbeddedCardIds } from './src/utils/frontmatter';
+import { InlineCardFormat, InlineCardService, parseInlineCardSource } from './src/services/InlineCardService';
+import { CardMaintenanceService } from './src/services/CardMaintenanceService';
+import { BackupService, BackupInfo } from './src/services/BackupService';
+import { DeckService } from './src/services/DeckService';
+import { StatsService } from './src/services/StatsService';
 import { useAppStore, AppMode } from './src/store/appStore';
 import {
   AIProviderDefinition,
@@ -21,11 +33,19 @@ import {
   BUILT_IN_PROVIDERS,
   BUILT_IN_MODELS,
 } from './src/types/ai';
-import { LearningCardType } from './src/types/learning';
+import { Deck, LearningCard, LearningCardType, SourceRecheckResult, AnswerEvaluation } from './src/types/learning';
 import { InfoLearnView, INFOLEARN_VIEW_TYPE } from './src/ui/InfoLearnView';
+import { AnkiImportModal, AnkiImportModalResult } from './src/ui/AnkiImportModal';
 import { AddProviderModal } from './src/ui/modals/AddProviderModal';
 import { AddModelModal } from './src/ui/modals/AddModelModal';
+import { FSRSOptimizeModal } from './src/ui/modals/FSRSOptimizeModal';
+import { RestoreBackupModal } from './src/ui/modals/RestoreBackupModal';
+import { CustomStudyModal } from './src/ui/modals/CustomStudyModal';
+import { SRImportModal } from './src/ui/modals/SRImportModal';
+import { ApiKeyNotSetError, InfoLearnError, ProviderNotConfiguredError } from './src/types/errors';
+import { CustomStudyOptions, DEFAULT_FSRS_PARAMETERS, ReviewLog, StudySession, StudySessionConfig, isScheduledReview } from './src/types/fsrs';
 import { t, setLocale, setDetectedLocale, SupportedLocale } from './src/i18n';
+import { AnswerMatchingOptions, DEFAULT_ANSWER_MATCHING } from './src/utils/answerMatching';
 
 import './src/styles/main.css';
 
@@ -37,10 +57,20 @@ export interface GenerationSettings {
   defaultCardTypes: LearningCardType[];
   /** Default number of cards per type */
   defaultCountPerType: number;
-  /** Skip notes that already have generated cards */
+  /** Only generate from new or changed sections of notes that already have cards */
   skipGeneratedNotes: boolean;
   /** Track generation in frontmatter */
   trackInFrontmatter: boolean;
+  /** Stream AI responses and preview cards as they arrive */
+  streamResponses: boolean;
+  /** Queue generated cards as drafts for review instead of saving them directly */
+  reviewBeforeSaving: boolean;
+  /** Token budget per chunk when splitting long notes */
+  chunkTokenBudget: number;
+  /** Append ^block-id references to source passages of generated cards */
+  insertBlockIds: boolean;
+  /** Write saved cards into their note as sil-card blocks ('off' keeps them in plugin data only) */
+  inlineCards: InlineCardFormat | 'off';
 }
 
 /**
@@ -61,6 +91,8 @@ interface StarInfoLearnSettings {
   slots: Record<string, { providerId: string; modelId: string }>;
   /** 카드 생성 설정 */
   generation: GenerationSettings;
+  /** 빈칸 답안 채점 설정 */
+  answerMatching: AnswerMatchingOptions;
   /** 인터페이스 언어 */
   language: SupportedLocale;
 }
@@ -72,6 +104,9 @@ function getAISlotDefinitions(): { key: string; label: string; desc: string }[]
   ];
 }
 
+/** 노트 수정 후 출처 해시를 비교하기까지 기다리는 시간 */
+const SOURCE_CHECK_DELAY_MS = 2000;
+
 const DEFAULT_SETTINGS: StarInfoLearnSettings = {
   settingsVersion: 2,
   providers: [...BUILT_IN_PROVIDERS],
@@ -84,7 +119,13 @@ const DEFAULT_SETTINGS: StarInfoLearnSettings = {
     defaultCountPerType: 3,
     skipGeneratedNotes: true,
     trackInFrontmatter: true,
+    streamResponses: true,
+    reviewBeforeSaving: true,
+    chunkTokenBudget: 3000,
+    insertBlockIds: false,
+    inlineCards: 'off',
   },
+  answerMatching: { ...DEFAULT_ANSWER_MATCHING },
   language: 'auto',
 };
 
@@ -201,7 +242,8 @@ function migrateV1ToV2(v1: V1Settings): StarInfoLearnSettings {
     defaultProviderId,
     defaultModelId,
     slots: {},
-    generation: v1.generation || DEFAULT_SETTINGS.generation,
+    generation: { ...DEFAULT_SETTINGS.generation, ...v1.generation },
+    answerMatching: { ...DEFAULT_ANSWER_MATCHING },
     language: 'auto' as SupportedLocale,
   };
 }
@@ -214,6 +256,23 @@ export default class StarInfoLearn extends Plugin {
   dataService!: DataService;
   fsrsService!: FSRSService;
   questionGeneratorService!: QuestionGeneratorService;
+  ruleExtractionService!: RuleExtractionService;
+  ankiExportService!: AnkiExportService;
+  ankiImportService!: AnkiImportService;
+  srImportService!: SRImportService;
+  fsrsOptimizerService!: FSRSOptimizerService;
+  sourceLinkService!: SourceLinkService;
+  inlineCardService!: InlineCardService;
+  cardMaintenanceService!: CardMaintenanceService;
+  backupService!: BackupService;
+  deckService!: DeckService;
+  statsService!: StatsService;
+
+  /** 오늘(로컬 자정 이후) 복습 기록: 세션을 나눠도 하루 제한이 유지되도록 보관 */
+  private todayLogs: { dayStart: number; logs: ReviewLog[] } = { dayStart: 0, logs: [] };
+
+  /** 노트 수정 감지 디바운스 타이머 (경로별) */
+  private sourceCheckTimers = new Map<string, number>();
 
   async onload() {
     console.log('Loading Star InfoLearn plugin...');
@@ -247,6 +306,9 @@ export default class StarInfoLearn extends Plugin {
       (leaf) => new InfoLearnView(leaf, this)
     );
 
+    // 노트 안의 sil-card 블록 (읽기 모드)
+    this.registerMarkdownCodeBlockProcessor('sil-card', (source, el) => this.renderInlineCard(source, el));
+
     // Add ribbon icon
     this.addRibbonIcon('book-open', 'Star InfoLearn', () => {
       this.activateView();
@@ -265,33 +327,27 @@ export default class StarInfoLearn extends Plugin {
       callback: () => this.activateView('study'),
     });
 
+    this.addCommand({
+      id: 'open-statistics',
+      name: 'Open Statistics',
+      callback: () => this.activateView('stats'),
+    });
+
     this.addCommand({
       id: 'start-review-session',
       name: 'Start Review Session',
       callback: async () => {
-        const cards = await this.dataService.loadAllLearningCards();
-        const dueCards = cards.filter(card =>
-          card.fsrsState.nextReview <= Date.now()
-        );
-
-        if (dueCards.length === 0) {
-          new Notice('No cards due for review!');
-          return;
-        }
-
-        useAppStore.setState({
-          learningCards: cards,
-          reviewState: {
-            ...useAppStore.getState().reviewState,
-            queue: dueCards.map(c => c.id),
-            currentIndex: 0,
-            isActive: true,
-          },
-        });
-        this.activateView('review');
+        await this.loadCardsIntoStore();
+        await this.startStudySession(useAppStore.getState().learningCards);
       },
     });
 
+    this.addCommand({
+      id: 'start-custom-study',
+      name: 'Start Custom Study',
+      callback: () => this.openCustomStudy(),
+    });
+
     this.addCommand({
       id: 'create-flashcards',
       name: 'Create Flashcards',
@@ -313,15 +369,108 @@ export default class StarInfoLearn extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'extract-cards-from-note',
+      name: 'Extract Cards from Note Syntax (No AI)',
+      editorCallback: async (editor, view) => {
+        if (!view.file) return;
+        const { count, staged } = await this.extractCardsFromNote(view.file, editor.getSelection() || undefined);
+        new Notice(count === 0
+          ? t().notice.noCardsExtracted
+          : staged ? t().notice.cardsStaged(count) : t().notice.cardsGenerated(count));
+      },
+    });
+
+    this.addCommand({
+      id: 'embed-cards-in-note',
+      name: 'Write Cards into Current Note',
+      editorCallback: async (editor, view) => {
+        if (!view.file) return;
+        const count = await this.embedNoteCards(view.file);
+        new Notice(count > 0 ? t().notice.cardsEmbedded(count) : t().notice.noCardsToEmbed);
+      },
+    });
+
     this.addCommand({
       id: 'test-ai-connection',
       name: 'Test AI Connection',
       callback: () => this.testAIConnection(),
     });
 
+    this.addCommand({
+      id: 'export-anki-apkg',
+      name: 'Export Cards to Anki (.apkg)',
+      callback: () => this.exportToAnki(),
+    });
+
+    this.addCommand({
+      id: 'import-anki-package',
+      name: 'Import Cards from Anki (.apkg/.colpkg)',
+      callback: () => this.openAnkiImport(),
+    });
+
+    this.addCommand({
+      id: 'import-spaced-repetition',
+      name: 'Import Cards from Spaced Repetition Plugin Notes',
+      callback: () => this.openSRImport(),
+    });
+
+    this.addCommand({
+      id: 'optimize-fsrs-parameters',
+      name: 'Optimize FSRS Parameters',
+      callback: () => this.optimizeFSRSParameters(),
+    });
+
+    this.addCommand({
+      id: 'build-decks-from-folders',
+      name: 'Build Decks from Folders',
+      callback: () => this.buildDecks('folder'),
+    });
+
+    this.addCommand({
+      id: 'build-decks-from-tags',
+      name: 'Build Decks from Tags',
+      callback: () => this.buildDecks('tag'),
+    });
+
+    this.addCommand({
+      id: 'create-backup',
+      name: 'Back Up Learning Data',
+      callback: () => this.createBackupNow(),
+    });
+
+    this.addCommand({
+      id: 'restore-backup',
+      name: 'Restore Learning Data from Backup',
+      callback: () => this.openRestoreBackup(),
+    });
+
     // Add settings tab
     this.addSettingTab(new StarInfoLearnSettingTab(this.app, this));
 
+    // 노트 이름 변경 시 카드 출처 경로 갱신
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => {
+        this.followSourceRename(oldPath, file.path);
+      })
+    );
+
+    // 노트 삭제 시 카드를 고아로 표시
+    this.registerEvent(
+      this.app.vault.on('delete', (file) => {
+        this.flagOrphanedCards(file.path);
+      })
+    );
+
+    // 노트 내용이 바뀌면 sil-card 블록을 카드에 반영하고, 카드를 "원문 변경"으로 표시
+    this.registerEvent(
+      this.app.vault.on('modify', (file) => {
+        if (file instanceof TFile && file.extension === 'md') {
+          this.scheduleSourceCheck(file);
+        }
+      })
+    );
+
     // Register context menu for editor
     this.registerEvent(
       this.app.workspace.on('editor-menu', (menu, editor) => {
@@ -357,14 +506,17 @@ export default class StarInfoLearn extends Plugin {
                   const result = await this.questionGeneratorService.generateMixedQuestions(
                     selection,
                     activeFile?.path || 'unknown',
-                    5
+                    5,
+                    {
+                      maxChunkTokens: this.settings.generation.chunkTokenBudget,
+                      lineOffset: editor.getCursor('from').line,
+                    }
                   );
                   if (result.cards.length > 0) {
-                    for (const card of result.cards) {
-                      await this.dataService.saveLearningCard(card);
-                      useAppStore.getState().addCard(card);
-                    }
-                    new Notice(`Generated ${result.cards.length} flashcards!`);
+                    const staged = await this.stageGeneratedCards(result.cards);
+                    new Notice(staged
+                      ? t().notice.cardsStaged(result.cards.length)
+                      : `Generated ${result.cards.length} flashcards!`);
                   } else {
                     new Notice('No cards could be generated');
                   }
@@ -379,12 +531,59 @@ export default class StarInfoLearn extends Plugin {
 
     // Initialize data service and load existing cards
     await this.dataService.initialize();
+    this.fsrsService.updateParameters(await this.dataService.loadFSRSParameters());
+    this.fsrsService.updateConfig(await this.dataService.loadStudyConfig());
     await this.loadCardsIntoStore();
+    await this.loadTodayLogs();
+
+    // 플러그인이 꺼져 있던 동안의 노트 수정 확인, 하루 한 번 자동 백업
+    this.app.workspace.onLayoutReady(async () => {
+      try {
+        const changed = await this.cardMaintenanceService.scanSources(useAppStore.getState().learningCards);
+        await this.saveFlaggedCards(changed);
+      } catch (error) {
+        console.error('Source scan failed:', error);
+      }
+
+      try {
+        await this.backupService.createDailyBackup();
+      } catch (error) {
+        console.error('Daily backup failed:', error);
+      }
+
+      try {
+        await this.syncDailyStats();
+      } catch (error) {
+        console.error('Daily stats sync failed:', error);
+      }
+    });
 
     console.log('Star InfoLearn plugin loaded successfully!');
   }
 
+  /**
+   * 서비스 생성 (onload에서 한 번)
+   * DataService는 카드 파일의 메모리 색인과 쓰기 대기열을 갖고 있으므로 다시 만들면 안 됩니다.
+   */
   private initializeServices() {
+    this.initializeAIServices();
+    this.dataService = new DataService(this.app);
+    this.fsrsService = new FSRSService();
+    this.ruleExtractionService = new RuleExtractionService();
+    this.ankiExportService = new AnkiExportService(this.app, this.dataService);
+    this.ankiImportService = new AnkiImportService(this.app, this.dataService, this.fsrsService);
+    this.srImportService = new SRImportService(this.app, this.dataService, this.fsrsService);
+    this.fsrsOptimizerService = new FSRSOptimizerService();
+    this.sourceLinkService = new SourceLinkService(this.app);
+    this.inlineCardService = new InlineCardService(this.app);
+    this.cardMaintenanceService = new CardMaintenanceService(this.app);
+    this.backupService = new BackupService(this.app, this.dataService);
+    this.deckService = new DeckService(this.app, this.dataService);
+    this.statsService = new StatsService(this.fsrsService);
+  }
+
+  /** AI 설정에 의존하는 서비스만 다시 생성 (설정 저장 시) */
+  private initializeAIServices() {
     const aiConfig: AIServiceConfig = {
       providers: this.settings.providers,
       models: this.settings.models,
@@ -393,8 +592,6 @@ export default class StarInfoLearn extends Plugin {
     };
 
     this.aiService = new AIService(aiConfig);
-    this.dataService = new DataService(this.app);
-    this.fsrsService = new FSRSService();
     this.questionGeneratorService = new QuestionGeneratorService(this.aiService);
   }
 
@@ -402,7 +599,11 @@ export default class StarInfoLearn extends Plugin {
     try {
       const cards = await this.dataService.loadAllLearningCards();
       console.log(`Star InfoLearn: Loaded ${cards.length} cards from storage`);
-      useAppStore.setState({ learningCards: cards });
+      useAppStore.setState({
+        learningCards: cards,
+        cardDrafts: await this.dataService.loadCardDrafts(),
+        decks: await this.dataService.loadAllDecks(),
+      });
 
       const leaves = this.app.workspace.getLeavesOfType(INFOLEARN_VIEW_TYPE);
       leaves.forEach(leaf => {
@@ -413,11 +614,14 @@ export default class StarInfoLearn extends Plugin {
       });
     } catch (error) {
       console.error('Failed to load cards:', error);
+      new Notice(t().notice.cardsLoadFailed(error instanceof Error ? error.message : String(error)), 0);
     }
   }
 
   onunload() {
     console.log('Unloading Star InfoLearn plugin...');
+    this.sourceCheckTimers.forEach(timer => window.clearTimeout(timer));
+    this.sourceCheckTimers.clear();
     this.app.workspace.detachLeavesOfType(INFOLEARN_VIEW_TYPE);
   }
 
@@ -432,6 +636,8 @@ export default class StarInfoLearn extends Plugin {
       console.log('Star InfoLearn: Settings migration complete.');
     } else {
       this.settings = Object.assign({}, DEFAULT_SETTINGS, rawData);
+      this.settings.generation = { ...DEFAULT_SETTINGS.generation, ...rawData?.generation };
+      this.settings.answerMatching = { ...DEFAULT_ANSWER_MATCHING, ...rawData?.answerMatching };
       // 프리셋 제공자가 누락되었으면 복원
       for (const builtIn of BUILT_IN_PROVIDERS) {
         if (!this.settings.providers.some(p => p.id === builtIn.id)) {
@@ -443,7 +649,7 @@ export default class StarInfoLearn extends Plugin {
 
   async saveSettings() {
     await this.saveData(this.settings);
-    this.initializeServices();
+    this.initializeAIServices();
     useAppStore.setState({
       providers: this.settings.providers,
       models: this.settings.models,
@@ -547,6 +753,699 @@ export default class StarInfoLearn extends Plugin {
     new Notice(t().notice.defaultSet(provider?.name || providerId, modelId));
   }
 
+  /** 전체 카드를 Anki 패키지로 내보내기 */
+  async exportToAnki() {
+    try {
+      const cards = await this.dataService.loadAllLearningCards();
+      if (cards.length === 0) {
+        new Notice(t().notice.noCardsToExport);
+        return;
+      }
+
+      new Notice(t().notice.ankiExporting(cards.length));
+      const { path, result } = await this.ankiExportService.exportToVault(cards);
+      new Notice(t().notice.ankiExported(result.noteCount, result.revlogCount, path));
+    } catch (error) {
+      console.error('Anki export failed:', error);
+      new Notice(t().notice.errorPrefix(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  /** Anki 패키지 가져오기 모달 열기 */
+  openAnkiImport() {
+    new AnkiImportModal(this.app, (result) => this.importFromAnki(result)).open();
+  }
+
+  private async importFromAnki({ fileName, data, options }: AnkiImportModalResult) {
+    new Notice(t().notice.ankiImporting(fileName));
+    try {
+      const result = await this.ankiImportService.importPackage(data, options);
+      await this.loadCardsIntoStore();
+      new Notice(t().notice.ankiImported(result.cards.length, result.decks.length, result.reviewLogCount, result.skippedCount));
+    } catch (error) {
+      console.error('Anki import failed:', error);
+      new Notice(t().notice.errorPrefix(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  /** Spaced Repetition 플러그인 가져오기 모달 열기 */
+  openSRImport() {
+    new SRImportModal(this.app, (options) => this.importFromSR(options)).open();
+  }
+
+  /** 볼트의 #flashcards 노트에서 카드와 복습 일정 가져오기 */
+  private async importFromSR(options: SRImportOptions) {
+    new Notice(t().notice.srImporting);
+    try {
+      const result = await this.srImportService.importVault(options);
+      await this.loadCardsIntoStore();
+      new Notice(result.noteCount === 0
+        ? t().notice.srNoNotes
+        : t().notice.srImported(result.cards.length, result.noteCount, result.scheduledCount, result.skippedCount));
+    } catch (error) {
+      console.error('Spaced Repetition import failed:', error);
+      new Notice(t().notice.errorPrefix(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  /** 복습 기록으로 FSRS 가중치 최적화 */
+  async optimizeFSRSParameters() {
+    const logs = await this.dataService.loadAllReviewLogs();
+    const parameters = this.fsrsService.getParameters();
+    const notice = new Notice(t().notice.fsrsOptimizing(0), 0);
+
+    try {
+      const result = await this.fsrsOptimizerService.optimize(logs, parameters, this.fsrsService.getConfig(), {
+        onProgress: ({ iteration, iterations }) => {
+          notice.setMessage(t().notice.fsrsOptimizing(Math.round((iteration / iterations) * 100)));
+        },
+      });
+      notice.hide();
+      new FSRSOptimizeModal(this.app, result, parameters.w, (weights) => this.applyFSRSWeights(weights)).open();
+    } catch (error) {
+      notice.hide();
+      if (error instanceof InfoLearnError && error.code === 'INSUFFICIENT_REVIEWS') {
+        new Notice(t().notice.fsrsNotEnoughReviews);
+      } else {
+        console.error('FSRS optimization failed:', error);
+        new Notice(t().notice.errorPrefix(error instanceof Error ? error.message : String(error)));
+      }
+    }
+  }
+
+  /** 변경된 덱을 스토어에 반영 (removedIds: 삭제된 덱) */
+  applyDeckChanges(updated: Deck[], removedIds: string[] = []) {
+    const changed = new Map(updated.map(deck => [deck.id, deck]));
+    const decks = useAppStore.getState().decks
+      .filter(deck => !removedIds.includes(deck.id) && !changed.has(deck.id))
+      .concat(updated);
+    useAppStore.getState().setDecks(decks);
+  }
+
+  /** 카드의 폴더 또는 태그 구조대로 덱 만들기 */
+  async buildDecks(kind: 'folder' | 'tag') {
+    const { learningCards, decks } = useAppStore.getState();
+    try {
+      const updated = kind === 'folder'
+        ? await this.deckService.createDecksFromFolders(learningCards, decks)
+        : await this.deckService.createDecksFromTags(learningCards, decks);
+      if (updated.length === 0) {
+        new Notice(t().notice.noDecksCreated);
+        return;
+      }
+      this.applyDeckChanges(updated);
+      new Notice(t().notice.decksCreated(updated.length));
+    } catch (error) {
+      console.error('Deck generation failed:', error);
+      new Notice(t().notice.errorPrefix(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  /** 오늘 복습 기록 읽기 (자정이 지났으면 다시 읽음) */
+  private async loadTodayLogs(): Promise<ReviewLog[]> {
+    const dayStart = new Date().setHours(0, 0, 0, 0);
+    if (this.todayLogs.dayStart !== dayStart) {
+      // 로그 파일은 UTC 날짜별이므로 로컬 자정이 걸친 날짜까지 읽은 뒤 거름
+      const from = new Date(dayStart).toISOString().split('T')[0];
+      const to = new Date().toISOString().split('T')[0];
+      const logs = await this.dataService.loadReviewLogs(from, to);
+      this.todayLogs = { dayStart, logs: logs.filter(log => log.timestamp >= dayStart) };
+      const scheduled = this.todayLogs.logs.filter(isScheduledReview);
+      useAppStore.getState().updateTodayStats({
+        reviewed: scheduled.length,
+        newLearned: scheduled.filter(log => log.stateBefore === 'new').length,
+      });
+    }
+    return this.todayLogs.logs;
+  }
+
+  /**
+   * 학습 세션 구성: 학습 중 카드 우선, 오늘 기록을 뺀 하루 새 카드/복습 제한 적용
+   * @param deck 덱 학습이면 덱의 제한도 함께 적용
+   */
+  buildStudySession(cards: LearningCard[], deck?: Deck): StudySession {
+    const logs = this.todayLogs.dayStart === new Date().setHours(0, 0, 0, 0) ? this.todayLogs.logs : [];
+    const deckLimits = deck && {
+      newCardsPerDay: deck.settings?.newCardsPerDay,
+      reviewsPerDay: deck.settings?.reviewsPerDay,
+      usage: this.fsrsService.countDailyUsage(logs, new Set(cards.map(card => card.id))),
+    };
+    return this.fsrsService.createStudySession(cards, {
+      usage: this.fsrsService.countDailyUsage(logs),
+      deckLimits,
+    });
+  }
+
+  /** 학습 세션 시작 (대시보드, 복습 범위, 덱, 명령 공통) */
+  async startStudySession(cards: LearningCard[], deck?: Deck) {
+    await this.loadTodayLogs();
+    const session = this.buildStudySession(cards, deck);
+
+    if (session.queue.length === 0) {
+      new Notice(deck ? t().notice.deckNothingToStudy(deck.name) : t().notice.noCardsDue);
+      return;
+    }
+
+    if (deck) {
+      this.applyDeckChanges(await this.deckService.markStudied(deck));
+    }
+    useAppStore.setState({ currentDeckId: deck?.id ?? null });
+    useAppStore.getState().startStudySession(session);
+    await this.activateView('review');
+  }
+
+  /** 사용자 지정 학습 모달 열기 (범위로 고를 폴더, 태그, 노트 목록 전달) */
+  openCustomStudy() {
+    const cards = useAppStore.getState().learningCards;
+    const notes = [...new Set(cards.map(card => card.sourceFile).filter(Boolean))].sort();
+    const folders = [...new Set(notes.map(path => path.split('/').slice(0, -1).join('/')).filter(Boolean))].sort();
+    const tags = [...new Set(cards.flatMap(card => this.deckService.getCardTags(card)))].sort();
+    new CustomStudyModal(this.app, { folders, tags, notes }, (options) => this.startCustomStudy(options)).open();
+  }
+
+  /** 사용자 지정 학습 시작: 평가는 기록만 하고 일정(fsrsState)은 바꾸지 않음 */
+  async startCustomStudy(options: CustomStudyOptions) {
+    const todayLogs = await this.loadTodayLogs();
+    const { kind, value } = options.scope;
+    const cards = useAppStore.getState().learningCards.filter(card => {
+      switch (kind) {
+        case 'folder':
+          return !!value && card.sourceFile.startsWith(`${value}/`);
+        case 'tag':
+          return !!value && this.deckService.getCardTags(card).some(tag => tag === value || tag.startsWith(`${value}/`));
+        case 'note':
+          return card.sourceFile === value;
+        default:
+          return true;
+      }
+    });
+
+    const session = this.fsrsService.createCustomSession(cards, options.mode, options.limit, {
+      failedToday: todayLogs.filter(log => log.rating === 1).map(log => log.cardId),
+    });
+    if (session.queue.length === 0) {
+      new Notice(t().notice.noCardsForCustomStudy);
+      return;
+    }
+
+    useAppStore.setState({ currentDeckId: null });
+    useAppStore.getState().startStudySession(session);
+    await this.activateView('review');
+  }
+
+  /** 평가 기록 저장: 오늘 사용량과 세션/오늘 카운터 갱신 */
+  async recordReview(log: ReviewLog) {
+    await this.dataService.saveReviewLog(log);
+
+    const dayStart = new Date().setHours(0, 0, 0, 0);
+    if (this.todayLogs.dayStart !== dayStart) {
+      this.todayLogs = { dayStart, logs: [] };
+    }
+    this.todayLogs.logs.push(log);
+
+    const { studySession, todayStats, updateStudySession, updateTodayStats } = useAppStore.getState();
+    const isNew = log.stateBefore === 'new';
+    if (studySession) {
+      updateStudySession({
+        reviewedCount: studySession.reviewedCount + 1,
+        newLearnedCount: studySession.newLearnedCount + (isNew ? 1 : 0),
+        failedCount: studySession.failedCount + (log.rating === 1 ? 1 : 0),
+      });
+    }
+    // 사용자 지정 학습은 오늘 통계와 하루 제한에 넣지 않음
+    if (!isScheduledReview(log)) return;
+    updateTodayStats({
+      reviewed: todayStats.reviewed + 1,
+      newLearned: todayStats.newLearned + (isNew ? 1 : 0),
+    });
+    await this.updateDailyStats(log.timestamp);
+  }
+
+  /** 평가 되돌리기: recordReview가 한 일을 반대로 (기록 삭제, 카운터 감소) */
+  async undoReview(log: ReviewLog) {
+    await this.dataService.deleteReviewLog(log);
+    this.todayLogs.logs = this.todayLogs.logs.filter(l => l !== log);
+
+    const { studySession, todayStats, updateStudySession, updateTodayStats } = useAppStore.getState();
+    const isNew = log.stateBefore === 'new';
+    if (studySession) {
+      updateStudySession({
+        reviewedCount: Math.max(0, studySession.reviewedCount - 1),
+        newLearnedCount: Math.max(0, studySession.newLearnedCount - (isNew ? 1 : 0)),
+        failedCount: Math.max(0, studySession.failedCount - (log.rating === 1 ? 1 : 0)),
+      });
+    }
+    if (!isScheduledReview(log)) return;
+    if (new Date(log.timestamp).setHours(0, 0, 0, 0) === new Date().setHours(0, 0, 0, 0)) {
+      updateTodayStats({
+        reviewed: Math.max(0, todayStats.reviewed - 1),
+        newLearned: Math.max(0, todayStats.newLearned - (isNew ? 1 : 0)),
+      });
+    }
+    await this.updateDailyStats(log.timestamp);
+  }
+
+  /** 그날(UTC 날짜)의 하루 통계를 복습 기록으로 다시 계산해 저장 */
+  private async updateDailyStats(timestamp: number) {
+    const date = new Date(timestamp).toISOString().split('T')[0];
+    try {
+      const logs = await this.dataService.loadReviewLogs(date, date);
+      const stats = this.fsrsService.calculateDailyStats(logs, date);
+      if (date === new Date().toISOString().split('T')[0]) {
+        // 오늘은 아직 남은 복습 카드 수를 기록
+        stats.cardsSkipped = useAppStore.getState().learningCards
+          .filter(card => card.fsrsState.state !== 'new' && card.fsrsState.nextReview <= Date.now()).length;
+      }
+      await this.dataService.saveDailyStats(stats);
+    } catch (error) {
+      console.error(`Failed to update daily stats for ${date}:`, error);
+    }
+  }
+
+  /** 하루 통계가 없거나 복습 기록과 맞지 않는 날을 다시 계산 (이전 버전에서 쌓인 기록 포함) */
+  private async syncDailyStats() {
+    const today = new Date().toISOString().split('T')[0];
+    const [logs, saved] = await Promise.all([
+      this.dataService.loadAllReviewLogs(),
+      this.dataService.loadDailyStats('1970-01-01', today),
+    ]);
+    const savedByDate = new Map(saved.map(stats => [stats.date, stats]));
+
+    const countByDate = new Map<string, number>();
+    for (const log of logs.filter(isScheduledReview)) {
+      const date = new Date(log.timestamp).toISOString().split('T')[0];
+      countByDate.set(date, (countByDate.get(date) ?? 0) + 1);
+    }
+    for (const [date, count] of countByDate) {
+      if (savedByDate.get(date)?.reviewed === count) continue;
+      await this.dataService.saveDailyStats(this.fsrsService.calculateDailyStats(logs, date));
+    }
+  }
+
+  /** 하루 학습량 설정 저장 */
+  async updateStudyConfig(config: Partial<StudySessionConfig>) {
+    this.fsrsService.updateConfig(config);
+    await this.dataService.saveStudyConfig(this.fsrsService.getConfig());
+  }
+
+  /** 지금 바로 백업 */
+  async createBackupNow() {
+    try {
+      const backup = await this.backupService.createBackup('manual');
+      new Notice(t().notice.backupCreated(backup.cardCount, backup.reviewLogCount));
+    } catch (error) {
+      console.error('Backup failed:', error);
+      new Notice(t().notice.errorPrefix(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  /** 백업 목록을 보여주고 선택한 시점으로 복원 */
+  async openRestoreBackup() {
+    const backups = await this.backupService.listBackups();
+    new RestoreBackupModal(this.app, backups, (backup) => this.restoreFromBackup(backup)).open();
+  }
+
+  private async restoreFromBackup(backup: BackupInfo) {
+    try {
+      const data = await this.backupService.restoreBackup(backup.fileName);
+      this.fsrsService.updateParameters(data.fsrsParams);
+      this.fsrsService.updateConfig(data.studyConfig);
+      await this.loadCardsIntoStore();
+      new Notice(t().notice.backupRestored(data.cards.length, data.reviewLogs.length));
+    } catch (error) {
+      console.error('Restore failed:', error);
+      new Notice(t().notice.errorPrefix(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  /** FSRS 가중치 적용 및 저장 */
+  async applyFSRSWeights(weights: number[]) {
+    this.fsrsService.updateParameters({ w: weights });
+    await this.dataService.saveFSRSParameters(this.fsrsService.getParameters());
+    new Notice(t().notice.fsrsApplied);
+  }
+
+  /**
+   * 생성된 카드 처리: 검토 대기열을 사용하면 초안으로, 아니면 바로 저장
+   * @returns 초안으로 보냈으면 true
+   */
+  async stageGeneratedCards(cards: LearningCard[]): Promise<boolean> {
+    if (this.settings.generation.insertBlockIds) {
+      cards = await this.insertSourceBlockIds(cards);
+    }
+
+    if (this.settings.generation.reviewBeforeSaving) {
+      useAppStore.getState().addCardDrafts(this.questionGeneratorService.createDrafts(cards));
+      await this.dataService.saveCardDrafts(useAppStore.getState().cardDrafts);
+      return true;
+    }
+
+    cards = await this.embedInlineCards(cards);
+    await this.dataService.saveLearningCards(cards);
+    cards.forEach(card => useAppStore.getState().addCard(card));
+    return false;
+  }
+
+  /** 설정에 따라 저장할 카드를 출처 노트에 sil-card 블록으로 기록 (노트별로 한 번씩 수정) */
+  private async embedInlineCards(cards: LearningCard[], format = this.settings.generation.inlineCards): Promise<LearningCard[]> {
+    if (format === 'off') return cards;
+
+    let result = cards;
+    for (const path of new Set(cards.map(c => c.sourceFile))) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      try {
+        result = await this.inlineCardService.embedCards(file, result, format);
+      } catch (error) {
+        console.error(`Failed to write cards into ${path}:`, error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 현재 노트의 저장된 카드 중 아직 노트에 없는 카드를 sil-card 블록으로 기록
+   * @returns 새로 기록한 카드 수
+   */
+  async embedNoteCards(file: TFile): Promise<number> {
+    const embedded = new Set(getEmbeddedCardIds(file, this.app));
+    const cards = useAppStore.getState().learningCards
+      .filter(card => card.sourceFile === file.path && !embedded.has(card.id));
+    if (cards.length === 0) return 0;
+
+    const format = this.settings.generation.inlineCards === 'off' ? 'fence' : this.settings.generation.inlineCards;
+    const moved = await this.embedInlineCards(cards, format);
+    await this.dataService.saveLearningCards(moved);
+    moved.forEach(card => useAppStore.getState().updateLearningCard(card.id, { sourceLines: card.sourceLines }));
+    return cards.length;
+  }
+
+  /** 노트의 sil-card 블록에서 바뀐 내용을 카드에 반영하고, id가 없는 블록은 새 카드로 저장 */
+  private async readInlineCards(file: TFile) {
+    const { updated, created } = await this.inlineCardService.readNote(file, useAppStore.getState().learningCards);
+    if (updated.length === 0 && created.length === 0) return;
+
+    await this.dataService.saveLearningCards([...updated, ...created]);
+    updated.forEach(card => useAppStore.getState().updateLearningCard(card.id, card));
+    created.forEach(card => useAppStore.getState().addCard(card));
+    if (created.length > 0) {
+      new Notice(t().notice.inlineCardsCreated(created.length));
+    }
+  }
+
+  /** 플러그인에서 수정한 카드를 노트의 sil-card 블록에도 반영 */
+  async updateInlineCards(cards: LearningCard[]) {
+    for (const path of new Set(cards.map(c => c.sourceFile))) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      const embedded = new Set(getEmbeddedCardIds(file, this.app));
+      const targets = cards.filter(card => card.sourceFile === path && embedded.has(card.id));
+      if (targets.length === 0) continue;
+      try {
+        await this.inlineCardService.updateBlocks(file, targets);
+      } catch (error) {
+        console.error(`Failed to update cards in ${path}:`, error);
+      }
+    }
+  }
+
+  /** 읽기 모드의 sil-card 블록: 질문, 접힌 정답, 다음 복습일 */
+  private renderInlineCard(source: string, el: HTMLElement) {
+    const block = parseInlineCardSource(source);
+    const container = el.createDiv({ cls: 'sil-inline-card' });
+    if (!block) {
+      container.createDiv({ text: t().inlineCard.invalid, cls: 'sil-inline-card-invalid' });
+      return;
+    }
+
+    const { fields } = block;
+    container.createDiv({ text: t().cardType[fields.type], cls: 'sil-inline-card-type' });
+    container.createDiv({ text: fields.front, cls: 'sil-inline-card-front' });
+    if (fields.options) {
+      const list = container.createEl('ul', { cls: 'sil-inline-card-options' });
+      fields.options.forEach(option => list.createEl('li', { text: option.text }));
+    }
+
+    const answer = container.createEl('details', { cls: 'sil-inline-card-answer' });
+    answer.createEl('summary', { text: t().inlineCard.showAnswer });
+    const correct = fields.options?.filter(option => option.isCorrect).map(option => option.text);
+    answer.createDiv({ text: correct?.length ? correct.join(', ') : fields.back });
+    if (fields.explanation) {
+      answer.createDiv({ text: fields.explanation, cls: 'sil-inline-card-explanation' });
+    }
+
+    const card = block.id ? useAppStore.getState().learningCards.find(c => c.id === block.id) : undefined;
+    container.createDiv({
+      text: card
+        ? card.fsrsState.state === 'new'
+          ? t().inlineCard.notStudied
+          : t().inlineCard.nextReview(new Date(card.fsrsState.nextReview).toLocaleDateString())
+        : t().inlineCard.notSaved,
+      cls: 'sil-inline-card-status',
+    });
+  }
+
+  /** 출처 구간에 블록 ID 삽입 (노트별로 한 번씩 수정) */
+  private async insertSourceBlockIds(cards: LearningCard[]): Promise<LearningCard[]> {
+    let result = cards;
+    for (const path of new Set(cards.map(c => c.sourceFile))) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      try {
+        result = await this.sourceLinkService.assignBlockIds(file, result);
+      } catch (error) {
+        console.error(`Failed to insert block ids into ${path}:`, error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * AI 없이 노트 문법(정의, 질문, 빈칸, 표, 개요)에서 카드 추출
+   * 이미 같은 질문의 카드가 있으면 건너뛰므로 여러 번 실행해도 됩니다.
+   */
+  async extractCardsFromNote(file: TFile, selection?: string): Promise<{ count: number; staged: boolean }> {
+    const content = await this.app.vault.cachedRead(file);
+    const text = selection || content;
+    const selectionStart = selection ? content.indexOf(selection) : 0;
+    const lineOffset = selectionStart > 0 ? content.slice(0, selectionStart).split('\n').length - 1 : 0;
+
+    const { learningCards, cardDrafts } = useAppStore.getState();
+    const existingFronts = [...learningCards, ...cardDrafts.map(draft => draft.card)]
+      .filter(card => card.sourceFile === file.path)
+      .map(card => card.front);
+
+    const { cards } = this.ruleExtractionService.extractFromText(text, file.path, { lineOffset, existingFronts });
+    if (cards.length === 0) return { count: 0, staged: false };
+    const staged = await this.stageGeneratedCards(cards);
+    return { count: cards.length, staged };
+  }
+
+  /** 카드의 출처 노트를 열고 해당 구간으로 이동 */
+  async openCardSource(card: LearningCard) {
+    const opened = await this.sourceLinkService.openSource(card);
+    if (!opened) {
+      new Notice(t().notice.sourceNotFound(card.sourceFile));
+    }
+  }
+
+  /** 이름이 바뀐 노트/폴더를 출처로 가진 카드와 초안 갱신 */
+  private async followSourceRename(oldPath: string, newPath: string) {
+    const store = useAppStore.getState();
+
+    try {
+      const cards = this.sourceLinkService.renameSources(store.learningCards, oldPath, newPath);
+      await this.dataService.saveLearningCards(cards);
+      cards.forEach(card => useAppStore.getState().updateLearningCard(card.id, { sourceFile: card.sourceFile }));
+
+      const renamedDrafts = this.sourceLinkService.renameSources(store.cardDrafts.map(d => d.card), oldPath, newPath);
+      if (renamedDrafts.length > 0) {
+        useAppStore.getState().setCardDrafts(useAppStore.getState().cardDrafts.map(draft => {
+          const card = renamedDrafts.find(c => c.id === draft.card.id);
+          return card ? { ...draft, card } : draft;
+        }));
+        await this.dataService.saveCardDrafts(useAppStore.getState().cardDrafts);
+      }
+    } catch (error) {
+      console.error(`Failed to update card sources after renaming ${oldPath}:`, error);
+      new Notice(t().notice.sourceRenameFailed(newPath, error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  /** 삭제된 노트/폴더를 출처로 가진 카드를 고아로 표시 */
+  private async flagOrphanedCards(deletedPath: string) {
+    try {
+      const orphaned = this.cardMaintenanceService.orphanSources(useAppStore.getState().learningCards, deletedPath);
+      await this.saveFlaggedCards(orphaned);
+    } catch (error) {
+      console.error(`Failed to flag cards of deleted ${deletedPath}:`, error);
+    }
+  }
+
+  /** 수정이 잠잠해진 뒤 출처 해시 비교 (저장할 때마다 검사하지 않도록) */
+  private scheduleSourceCheck(file: TFile) {
+    const pending = this.sourceCheckTimers.get(file.path);
+    if (pending) window.clearTimeout(pending);
+
+    this.sourceCheckTimers.set(file.path, window.setTimeout(async () => {
+      this.sourceCheckTimers.delete(file.path);
+      try {
+        await this.readInlineCards(file);
+        const changed = await this.cardMaintenanceService.detectSourceChange(
+          file,
+          useAppStore.getState().learningCards
+        );
+        await this.saveFlaggedCards(changed);
+      } catch (error) {
+        console.error(`Failed to check source of ${file.path}:`, error);
+      }
+    }, SOURCE_CHECK_DELAY_MS));
+  }
+
+  private async saveFlaggedCards(cards: LearningCard[]) {
+    await this.dataService.saveLearningCards(cards);
+    cards.forEach(card => useAppStore.getState().updateLearningCard(card.id, { sourceStatus: card.sourceStatus }));
+    if (cards.length > 0) {
+      new Notice(cards[0].sourceStatus === 'orphaned'
+        ? t().notice.cardsOrphaned(cards.length)
+        : t().notice.sourceChanged(cards.length));
+    }
+  }
+
+  /** 원문이 바뀐 카드가 여전히 맞는지 AI로 확인 */
+  async recheckCardSource(card: LearningCard): Promise<SourceRecheckResult | null> {
+    const source = await this.cardMaintenanceService.readSource(card);
+    if (!source) {
+      new Notice(t().notice.sourceNotFound(card.sourceFile));
+      return null;
+    }
+
+    try {
+      const result = await this.aiService.recheckCard(card, source.passage);
+      if (result.isValid) {
+        await this.keepCardSource([card.id]);
+      }
+      return result;
+    } catch (error) {
+      console.error('Card re-check failed:', error);
+      new Notice(t().notice.errorPrefix(error instanceof Error ? error.message : String(error)));
+      return null;
+    }
+  }
+
+  /** 주관식 답변 AI 채점 (AI 제공자가 설정되지 않았거나 실패하면 null) */
+  async evaluateShortAnswer(card: LearningCard, answer: string): Promise<AnswerEvaluation | null> {
+    try {
+      return await this.aiService.evaluateAnswer(card.back, answer, card.front);
+    } catch (error) {
+      // AI 미설정(제공자 또는 모델/제공자 API 키 없음): 채점 없이 정답 비교
+      if (error instanceof ApiKeyNotSetError || error instanceof ProviderNotConfiguredError) return null;
+      console.error('Answer evaluation failed:', error);
+      new Notice(t().notice.evaluationFailed);
+      return null;
+    }
+  }
+
+  /** 바뀐 원문으로 카드 다시 생성 (ID는 유지, 학습 기록은 초기화) */
+  async regenerateCardFromSource(card: LearningCard) {
+    const source = await this.cardMaintenanceService.readSource(card);
+    if (!source) {
+      new Notice(t().notice.sourceNotFound(card.sourceFile));
+      return;
+    }
+
+    try {
+      const replacement = await this.questionGeneratorService.regenerateCard(
+        { ...card, sourceLines: undefined },
+        source.passage,
+        `The source passage was edited. Rewrite this question so it matches the current text: "${card.front}"`
+      );
+      if (!replacement) {
+        new Notice(t().notice.noCardsGenerated);
+        return;
+      }
+
+      const updated: LearningCard = {
+        ...replacement,
+        id: card.id,
+        tags: card.tags,
+        createdAt: card.createdAt,
+        sourceLines: card.sourceLines,
+        sourceBlockId: card.sourceBlockId,
+        sourceStatus: undefined,
+      };
+      await this.dataService.saveLearningCard(updated);
+      useAppStore.getState().updateLearningCard(card.id, updated);
+      await this.updateInlineCards([updated]);
+    } catch (error) {
+      console.error('Card regeneration failed:', error);
+      new Notice(t().notice.errorPrefix(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  /** 원문 변경/고아 표시 해제 (카드를 그대로 유지) */
+  async keepCardSource(cardIds: string[]) {
+    const kept = useAppStore.getState().learningCards
+      .filter(card => cardIds.includes(card.id))
+      .map(card => ({ ...card, sourceStatus: undefined, updatedAt: Date.now() }));
+    await this.dataService.saveLearningCards(kept);
+    kept.forEach(card => useAppStore.getState().updateLearningCard(card.id, { sourceStatus: undefined }));
+  }
+
+  /** 초안 승인: 카드로 저장하고 대기열에서 제거 */
+  async acceptCardDrafts(cardIds: string[]) {
+    const drafts = useAppStore.getState().cardDrafts.filter(d => cardIds.includes(d.card.id));
+    const saved = await this.embedInlineCards(drafts.map(({ card }) => ({ ...card, updatedAt: Date.now() })));
+    await this.dataService.saveLearningCards(saved);
+    saved.forEach(card => useAppStore.getState().addCard(card));
+    useAppStore.getState().removeCardDrafts(cardIds);
+    await this.dataService.saveCardDrafts(useAppStore.getState().cardDrafts);
+    new Notice(t().notice.draftsAccepted(drafts.length));
+  }
+
+  /** 초안 거절: 저장하지 않고 대기열에서 제거 */
+  async rejectCardDrafts(cardIds: string[]) {
+    useAppStore.getState().removeCardDrafts(cardIds);
+    await this.dataService.saveCardDrafts(useAppStore.getState().cardDrafts);
+  }
+
+  /** 초안 수정 후 다시 검증 */
+  async editCardDraft(cardId: string, updates: Partial<LearningCard>) {
+    const draft = useAppStore.getState().cardDrafts.find(d => d.card.id === cardId);
+    if (!draft) return;
+
+    const card = { ...draft.card, ...updates, updatedAt: Date.now() };
+    const [updated] = this.questionGeneratorService.createDrafts([card]);
+    useAppStore.getState().updateCardDraft(cardId, { ...updated, createdAt: draft.createdAt });
+    await this.dataService.saveCardDrafts(useAppStore.getState().cardDrafts);
+  }
+
+  /** 초안 한 장만 다시 생성 (원본 노트를 다시 읽음) */
+  async regenerateCardDraft(cardId: string) {
+    const draft = useAppStore.getState().cardDrafts.find(d => d.card.id === cardId);
+    if (!draft) return;
+
+    try {
+      const file = this.app.vault.getAbstractFileByPath(draft.card.sourceFile);
+      const text = file instanceof TFile
+        ? await this.app.vault.cachedRead(file)
+        : draft.card.sourceText || draft.card.front;
+
+      const card = await this.questionGeneratorService.regenerateCard(draft.card, text);
+      if (!card) {
+        new Notice(t().notice.noCardsGenerated);
+        return;
+      }
+
+      const [replacement] = this.questionGeneratorService.createDrafts([card]);
+      useAppStore.getState().updateCardDraft(cardId, replacement);
+      await this.dataService.saveCardDrafts(useAppStore.getState().cardDrafts);
+    } catch (error) {
+      console.error('Card regeneration failed:', error);
+      new Notice(t().notice.errorPrefix(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
   private async testAIConnection() {
     const providerId = this.settings.defaultProviderId;
     const provider = this.settings.providers.find(p => p.id === providerId);
@@ -622,6 +1521,15 @@ class StarInfoLearnSettingTab extends PluginSettingTab {
     // ── 카드 생성 설정 ──
     this.renderGenerationSection(containerEl);
 
+    // ── FSRS ──
+    this.renderFSRSSection(containerEl);
+
+    // ── 빈칸 답안 채점 ──
+    this.renderAnswerMatchingSection(containerEl);
+
+    // ── 데이터 가져오기/내보내기 ──
+    this.renderDataSection(containerEl);
+
     containerEl.createEl('p', {
       text: t().settings.apiKeyLocalOnly,
       cls: 'setting-item-description',
@@ -941,6 +1849,22 @@ class StarInfoLearnSettingTab extends PluginSettingTab {
           });
       });
 
+    // Chunk size for long notes
+    new Setting(containerEl)
+      .setName(t().settings.chunkTokenBudget)
+      .setDesc(t().settings.chunkTokenBudgetDesc)
+      .addDropdown((dropdown) => {
+        [1500, 3000, 6000, 12000].forEach(num => {
+          dropdown.addOption(num.toString(), num.toLocaleString());
+        });
+        dropdown
+          .setValue(this.plugin.settings.generation.chunkTokenBudget.toString())
+          .onChange(async (value) => {
+            this.plugin.settings.generation.chunkTokenBudget = parseInt(value);
+            await this.plugin.saveSettings();
+          });
+      });
+
     // Skip generated notes
     new Setting(containerEl)
       .setName(t().settings.skipGenerated)
@@ -966,5 +1890,221 @@ class StarInfoLearnSettingTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           });
       });
+
+    // Streaming
+    new Setting(containerEl)
+      .setName(t().settings.streamResponses)
+      .setDesc(t().settings.streamResponsesDesc)
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.generation.streamResponses)
+          .onChange(async (value) => {
+            this.plugin.settings.generation.streamResponses = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // Review queue
+    new Setting(containerEl)
+      .setName(t().settings.reviewBeforeSaving)
+      .setDesc(t().settings.reviewBeforeSavingDesc)
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.generation.reviewBeforeSaving)
+          .onChange(async (value) => {
+            this.plugin.settings.generation.reviewBeforeSaving = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // Block references
+    new Setting(containerEl)
+      .setName(t().settings.insertBlockIds)
+      .setDesc(t().settings.insertBlockIdsDesc)
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.generation.insertBlockIds)
+          .onChange(async (value) => {
+            this.plugin.settings.generation.insertBlockIds = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // Cards in the note body
+    new Setting(containerEl)
+      .setName(t().settings.inlineCards)
+      .setDesc(t().settings.inlineCardsDesc)
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('off', t().settings.inlineCardsOff)
+          .addOption('fence', t().settings.inlineCardsFence)
+          .addOption('callout', t().settings.inlineCardsCallout)
+          .setValue(this.plugin.settings.generation.inlineCards)
+          .onChange(async (value) => {
+            this.plugin.settings.generation.inlineCards = value as GenerationSettings['inlineCards'];
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  /** FSRS 매개변수 최적화 */
+  private renderFSRSSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: t().settings.fsrsSection });
+
+    // 하루 학습량 제한
+    const config = this.plugin.fsrsService.getConfig();
+    new Setting(containerEl)
+      .setName(t().settings.newCardsPerDay)
+      .setDesc(t().settings.newCardsPerDayDesc)
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text.setValue(String(config.newCardsPerDay)).onChange(async (value) => {
+          const parsed = parseInt(value, 10);
+          if (isNaN(parsed) || parsed < 0) return;
+          await this.plugin.updateStudyConfig({ newCardsPerDay: parsed });
+        });
+      });
+
+    new Setting(containerEl)
+      .setName(t().settings.maxReviewsPerDay)
+      .setDesc(t().settings.maxReviewsPerDayDesc)
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text.setValue(String(config.maxReviewsPerDay)).onChange(async (value) => {
+          const parsed = parseInt(value, 10);
+          if (isNaN(parsed) || parsed < 0) return;
+          await this.plugin.updateStudyConfig({ maxReviewsPerDay: parsed });
+        });
+      });
+
+    // 복습일 분산
+    new Setting(containerEl)
+      .setName(t().settings.loadBalancing)
+      .setDesc(t().settings.loadBalancingDesc)
+      .addToggle(toggle => {
+        toggle.setValue(config.loadBalancing).onChange(async (value) => {
+          await this.plugin.updateStudyConfig({ loadBalancing: value });
+        });
+      });
+
+    const easyDaysSetting = new Setting(containerEl)
+      .setName(t().settings.easyDays)
+      .setDesc(t().settings.easyDaysDesc);
+    const weekdayRow = easyDaysSetting.controlEl.createDiv({ cls: 'sil-weekday-picker' });
+    t().settings.weekdays.forEach((label, day) => {
+      const btn = weekdayRow.createEl('button', {
+        text: label,
+        cls: `sil-weekday-btn ${config.easyDays.includes(day) ? 'active' : ''}`,
+      });
+      btn.onclick = async () => {
+        const current = this.plugin.fsrsService.getConfig().easyDays;
+        const easyDays = current.includes(day)
+          ? current.filter(d => d !== day)
+          : [...current, day].sort((a, b) => a - b);
+        btn.toggleClass('active', easyDays.includes(day));
+        await this.plugin.updateStudyConfig({ easyDays });
+      };
+    });
+
+    const isCustom = this.plugin.fsrsService.getParameters().w
+      .some((w, i) => w !== DEFAULT_FSRS_PARAMETERS.w[i]);
+
+    new Setting(containerEl)
+      .setName(t().settings.fsrsOptimize)
+      .setDesc(isCustom ? t().settings.fsrsOptimizeDescCustom : t().settings.fsrsOptimizeDesc)
+      .addButton(button => {
+        button.setButtonText(t().settings.optimizeButton).onClick(async () => {
+          button.setDisabled(true);
+          await this.plugin.optimizeFSRSParameters();
+          button.setDisabled(false);
+        });
+      })
+      .addButton(button => {
+        button.setButtonText(t().settings.resetButton).setDisabled(!isCustom).onClick(async () => {
+          await this.plugin.applyFSRSWeights([...DEFAULT_FSRS_PARAMETERS.w]);
+          this.display();
+        });
+      });
+  }
+
+  /** 빈칸 채우기 답안을 얼마나 너그럽게 채점할지 */
+  private renderAnswerMatchingSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: t().settings.answerMatchingSection });
+
+    const matching = this.plugin.settings.answerMatching;
+    const toggles: { key: Exclude<keyof AnswerMatchingOptions, 'typoTolerance'>; name: string; desc: string }[] = [
+      { key: 'ignoreCase', name: t().settings.ignoreCase, desc: t().settings.ignoreCaseDesc },
+      { key: 'ignorePunctuation', name: t().settings.ignorePunctuation, desc: t().settings.ignorePunctuationDesc },
+      { key: 'ignoreSpaces', name: t().settings.ignoreSpaces, desc: t().settings.ignoreSpacesDesc },
+      { key: 'ignoreDiacritics', name: t().settings.ignoreDiacritics, desc: t().settings.ignoreDiacriticsDesc },
+      { key: 'ignoreParticles', name: t().settings.ignoreParticles, desc: t().settings.ignoreParticlesDesc },
+      { key: 'jamoAware', name: t().settings.jamoAware, desc: t().settings.jamoAwareDesc },
+    ];
+    for (const { key, name, desc } of toggles) {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addToggle(toggle => {
+          toggle.setValue(matching[key]).onChange(async (value) => {
+            matching[key] = value;
+            await this.plugin.saveSettings();
+          });
+        });
+    }
+
+    new Setting(containerEl)
+      .setName(t().settings.typoTolerance)
+      .setDesc(t().settings.typoToleranceDesc)
+      .addDropdown(dropdown => {
+        [0, 0.1, 0.15, 0.2, 0.3].forEach(value => dropdown.addOption(String(value), `${Math.round(value * 100)}%`));
+        dropdown.setValue(String(matching.typoTolerance)).onChange(async (value) => {
+          matching.typoTolerance = parseFloat(value);
+          await this.plugin.saveSettings();
+        });
+      });
+  }
+
+  /** 데이터 가져오기/내보내기 */
+  private renderDataSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: t().settings.dataSection });
+
+    new Setting(containerEl)
+      .setName(t().settings.ankiExport)
+      .setDesc(t().settings.ankiExportDesc)
+      .addButton(button => {
+        button.setButtonText(t().settings.exportButton).onClick(async () => {
+          button.setDisabled(true);
+          await this.plugin.exportToAnki();
+          button.setDisabled(false);
+        });
+      });
+
+    new Setting(containerEl)
+      .setName(t().settings.ankiImport)
+      .setDesc(t().settings.ankiImportDesc)
+      .addButton(button => {
+        button.setButtonText(t().settings.importButton).onClick(() => this.plugin.openAnkiImport());
+      });
+
+    new Setting(containerEl)
+      .setName(t().settings.srImport)
+      .setDesc(t().settings.srImportDesc)
+      .addButton(button => {
+        button.setButtonText(t().settings.importButton).onClick(() => this.plugin.openSRImport());
+      });
+
+    new Setting(containerEl)
+      .setName(t().settings.backup)
+      .setDesc(t().settings.backupDesc)
+      .addButton(button => {
+        button.setButtonText(t().settings.backupButton).onClick(async () => {
+          button.setDisabled(true);
+          await this.plugin.createBackupNow();
+          button.setDisabled(false);
+        });
+      })
+      .addButton(button => {
+        button.setButtonText(t().settings.restoreButton).onClick(() => this.plugin.openRestoreBackup());
+      });
   }
 }
@@ -45,14 +45,21 @@ export const en: TranslationKeys = {
     generatingCards: 'Generating cards...',
     cardsGenerated: (n: number) => `Generated ${n} learning cards!`,
     noCardsGenerated: 'Could not generate cards from text',
+    noCardsExtracted: 'No new cards to extract (no definition, question, cloze, table or outline syntax found)',
     cardsDeleted: (n: number) => `${n} cards deleted.`,
     noMatchingNotes: 'No matching notes found',
     batchComplete: (n: number) => `Batch generation complete! ${n} notes processed.`,
+    batchCancelled: (n: number) => `Batch generation cancelled. ${n} notes processed`,
     defaultSet: (provider: string, model: string) => `Default set: ${provider} / ${model}`,
     providerConnected: (name: string) => `${name} connected!`,
     providerFailed: (name: string) => `${name} failed. Check your API key.`,
     providerTesting: (name: string) => `Testing ${name} connection...`,
     reviewComplete: 'Review session complete!',
+    ratingUndone: 'Last rating undone',
+    noCardsForCustomStudy: 'No cards match the selected options',
+    answerAccepted: (answer: string) => `"${answer}" is now accepted as correct`,
+    evaluationFailed: 'AI grading failed. Compare with the answer and rate yourself',
+    sessionSummary: (reviewed: number, newLearned: number, failed: number) => `${reviewed} reviewed (${newLearned} new, ${failed} again)`,
     errorPrefix: (msg: string) => `Error: ${msg}`,
     enterQuestion: 'Please enter both question and answer',
     mcqMinOptions: 'Multiple choice requires at least 2 options',
@@ -65,6 +72,37 @@ export const en: TranslationKeys = {
     enterModelName: 'Please enter model name.',
     enterModelIdRequired: 'Please enter model ID.',
     duplicateModelId: 'Model ID already exists.',
+    noCardsToExport: 'No cards to export.',
+    ankiExporting: (n: number) => `Exporting ${n} cards to an Anki package...`,
+    ankiExported: (notes: number, logs: number, path: string) => `Anki export complete: ${notes} cards, ${logs} review logs → ${path}`,
+    selectFileFirst: 'Please select a file.',
+    ankiImporting: (name: string) => `Importing ${name}...`,
+    ankiImported: (cards: number, decks: number, logs: number, skipped: number) =>
+      `Anki import complete: ${cards} cards, ${decks} decks, ${logs} review logs${skipped > 0 ? ` (${skipped} duplicates skipped)` : ''}`,
+    srImporting: 'Looking for Spaced Repetition cards...',
+    srImported: (cards: number, notes: number, scheduled: number, skipped: number) =>
+      `Imported ${cards} cards from ${notes} notes (${scheduled} schedules converted)${skipped > 0 ? ` (${skipped} duplicates skipped)` : ''}`,
+    srNoNotes: 'No notes with a flashcard tag found.',
+    fsrsOptimizing: (pct: number) => `Optimizing FSRS parameters... ${pct}%`,
+    fsrsNotEnoughReviews: 'Not enough review history to optimize. Keep reviewing and try again later.',
+    fsrsApplied: 'FSRS parameters applied.',
+    backupCreated: (cards: number, logs: number) => `Backup created: ${cards} cards, ${logs} review logs`,
+    backupRestored: (cards: number, logs: number) => `Restored ${cards} cards and ${logs} review logs`,
+    cardsLoadFailed: (msg: string) => `Could not load your cards (${msg}). The card files were left untouched; run "Restore Learning Data from Backup" to recover.`,
+    generationCancelled: (n: number) => `Generation cancelled. Saved ${n} completed cards.`,
+    cardsStaged: (n: number) => `${n} cards added to the review queue.`,
+    draftsAccepted: (n: number) => `Saved ${n} cards.`,
+    sourceNotFound: (path: string) => `Source note not found: ${path}`,
+    sourceRenameFailed: (path: string, msg: string) => `Could not update cards for the renamed note ${path}: ${msg}`,
+    sourceChanged: (n: number) => `Source edited: ${n} cards need checking`,
+    cardsOrphaned: (n: number) => `Source deleted: ${n} cards are now orphaned`,
+    enterDeckName: 'Please enter a deck name.',
+    decksCreated: (n: number) => `${n} decks created or updated.`,
+    noDecksCreated: 'No cards to build decks from.',
+    deckNothingToStudy: (name: string) => `Nothing left to study in "${name}" today.`,
+    cardsEmbedded: (n: number) => `Wrote ${n} cards into the note.`,
+    noCardsToEmbed: 'No cards to write into the note (all are already there).',
+    inlineCardsCreated: (n: number) => `Created ${n} cards from sil-card blocks in the note.`,
   },
 
   settings: {
@@ -88,15 +126,71 @@ export const en: TranslationKeys = {
     defaultCardTypes: 'Default Card Types',
     defaultCardTypesDesc: 'Card types selected by default when generating',
     cardsPerType: 'Cards Per Type',
-    cardsPerTypeDesc: 'Number of cards to generate per selected type',
-    skipGenerated: 'Skip Generated Notes',
-    skipGeneratedDesc: 'Skip notes that already have cards in batch generation',
+    cardsPerTypeDesc: 'Number of cards to generate per selected type (long notes share it across chunks by size)',
+    chunkTokenBudget: 'Chunk Size (tokens)',
+    chunkTokenBudgetDesc: 'Split long notes by headings into chunks of at most this size and generate cards for each chunk',
+    skipGenerated: 'Only New Sections',
+    skipGeneratedDesc: 'In batch generation, notes that already have cards only get cards for new or changed sections (fully processed notes are skipped)',
     trackFrontmatter: 'Track in Frontmatter',
-    trackFrontmatterDesc: 'Add sil-cards-generated property to notes after generating cards',
+    trackFrontmatterDesc: 'Add sil-cards-generated and a source hash (sil-source-hash) to notes after generating cards, so edits can be detected',
+    streamResponses: 'Stream Responses',
+    streamResponsesDesc: 'Stream AI responses and preview each card as soon as it is complete (turn off for providers without streaming)',
+    reviewBeforeSaving: 'Review Before Saving',
+    reviewBeforeSavingDesc: 'Keep generated cards as drafts in a review queue and save only the ones you accept',
+    insertBlockIds: 'Insert Block References',
+    insertBlockIdsDesc: 'Append a ^block-id to the source paragraph of generated cards so the passage can be found after the note is edited',
+    inlineCards: 'Write Cards into Notes',
+    inlineCardsDesc: 'Write saved cards below their source passage as sil-card blocks. Editing a block updates the card, and editing the card in the plugin updates the block.',
+    inlineCardsOff: 'Off',
+    inlineCardsFence: 'Code block (```sil-card)',
+    inlineCardsCallout: 'Callout (> [!sil-card])',
     apiKeyLocalOnly: 'API keys are stored locally and never sent externally.',
     language: 'Language',
     languageDesc: 'Plugin interface language',
     languageAuto: 'Auto-detect',
+    fsrsSection: 'FSRS Scheduling',
+    newCardsPerDay: 'New Cards per Day',
+    newCardsPerDayDesc: 'Maximum number of new cards introduced per day (summed across sessions)',
+    maxReviewsPerDay: 'Maximum Reviews per Day',
+    maxReviewsPerDayDesc: 'Maximum number of reviews per day (0 = no limit; cards in learning are not counted)',
+    loadBalancing: 'Load Balancing',
+    loadBalancingDesc: 'Schedule each review on the least busy day within the allowed range so reviews do not pile up on one day',
+    easyDays: 'Easy Days',
+    easyDaysDesc: 'No reviews are scheduled on the selected weekdays (unless the allowed range has no other day)',
+    weekdays: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+    fsrsOptimize: 'Optimize Parameters',
+    fsrsOptimizeDesc: 'Fit the 19 FSRS weights to your own review history (current: defaults)',
+    fsrsOptimizeDescCustom: 'Fit the 19 FSRS weights to your own review history (current: optimized)',
+    optimizeButton: 'Optimize',
+    resetButton: 'Reset',
+    answerMatchingSection: 'Fill-in-the-Blank Grading',
+    ignoreCase: 'Ignore Case',
+    ignoreCaseDesc: 'Treat FSRS and fsrs as the same answer',
+    ignorePunctuation: 'Ignore Punctuation',
+    ignorePunctuationDesc: 'Accept answers that only differ in punctuation and symbols, like "FSRS-4.5" and "FSRS 4.5"',
+    ignoreSpaces: 'Ignore Spacing',
+    ignoreSpacesDesc: 'Treat "forgetting curve" and "forgettingcurve" as the same answer',
+    ignoreDiacritics: 'Ignore Accents',
+    ignoreDiacriticsDesc: 'Treat letters that only differ in accents, like é and e, as the same',
+    ignoreParticles: 'Ignore Korean Particles',
+    ignoreParticlesDesc: 'Accept answers that only add or drop a trailing particle (은/는/이/가/을/를 …)',
+    jamoAware: 'Compare Hangul by Jamo',
+    jamoAwareDesc: 'Count Hangul typos per jamo (갑 → 값 is one jamo off, not a whole syllable)',
+    typoTolerance: 'Typo Tolerance',
+    typoToleranceDesc: 'Typos allowed relative to the answer length (0% = must match exactly apart from the rules above)',
+    dataSection: 'Data Import/Export',
+    ankiExport: 'Export to Anki',
+    ankiExportDesc: 'Save all cards as an .apkg file in the vault root, including FSRS state and review history',
+    exportButton: 'Export',
+    ankiImport: 'Import from Anki',
+    ankiImportDesc: 'Import cards, deck tree and review history from an .apkg / .colpkg file',
+    srImport: 'Import from Spaced Repetition Plugin',
+    srImportDesc: 'Import ::, ::: and ? cards and their <!--SR:--> schedules from #flashcards notes',
+    importButton: 'Import',
+    backup: 'Backup & Restore',
+    backupDesc: 'Snapshot cards, review history and stats. A backup is taken automatically once a day and the latest 10 are kept',
+    backupButton: 'Back Up Now',
+    restoreButton: 'Restore...',
   },
 
   providerModal: {
@@ -162,6 +256,7 @@ export const en: TranslationKeys = {
     study: 'Study',
     review: 'Review',
     'card-editor': 'Card Editor',
+    stats: 'Stats',
     settings: 'Settings',
   },
 
@@ -180,6 +275,27 @@ export const en: TranslationKeys = {
     cardTypes: 'Card Types',
   },
 
+  deck: {
+    title: 'Decks',
+    newDeck: '+ New Deck',
+    fromFolders: 'From Folders',
+    fromTags: 'From Tags',
+    empty: 'No decks yet. Create one, or build decks from your folders or tags.',
+    counts: (due: number, newCount: number, total: number) => `${due} due · ${newCount} new · ${total} total`,
+    study: 'Study',
+    dropHint: 'Drag cards onto a deck to move them.',
+    noCards: 'No cards directly in this deck.',
+    deleteConfirm: (name: string) => `Delete the deck "${name}"? Its cards are kept and its sub-decks move up one level.`,
+    createTitle: 'New Deck',
+    editTitle: 'Edit Deck',
+    name: 'Name',
+    parent: 'Parent deck',
+    noParent: '(None)',
+    newCardsPerDay: 'New cards per day',
+    reviewsPerDay: 'Reviews per day',
+    noLimit: 'No limit',
+  },
+
   review: {
     title: 'Review Session',
     selectScope: 'Select Review Scope',
@@ -199,6 +315,7 @@ export const en: TranslationKeys = {
     backToDashboard: '← Back to Dashboard',
     startReview: (n: number) => `Start Review (${n})`,
     cardNotFound: 'Card not found',
+    openSource: '📄 Open source',
     progress: (current: number, total: number) => `${current} / ${total}`,
     hint: 'Hint: ',
     showAnswer: 'Show Answer',
@@ -215,6 +332,13 @@ export const en: TranslationKeys = {
     myAnswer: 'My answer: ',
     notEntered: '(not entered)',
     correctAnswer: 'Correct answer: ',
+    nearlyCorrect: 'typo accepted',
+    acceptAnswer: 'Accept as correct',
+    evaluating: 'AI is grading your answer...',
+    evaluationScore: (score: number) => `AI score: ${score}/100`,
+    correctPoints: 'What you got right',
+    missedPoints: 'What you missed',
+    suggestedRating: 'Suggested',
     rateMemory: 'How well did you remember?',
     ratingAgain: 'Again',
     ratingAgainDesc: 'Completely forgot',
@@ -224,6 +348,16 @@ export const en: TranslationKeys = {
     ratingGoodDesc: 'Remembered correctly',
     ratingEasy: 'Easy',
     ratingEasyDesc: 'Remembered perfectly',
+    waitingTitle: 'Waiting for learning cards',
+    waitingCountdown: (time: string) => `Next card in ${time}`,
+    waitingCards: (n: number) => `${n} card(s) will come back in this session`,
+    studyNow: 'Study now',
+    endSession: 'End session',
+    undo: '↶ Undo',
+    undoHint: (n: number) => `${n} rating(s) in this session can be undone`,
+    details: 'ℹ️ Details',
+    customStudy: 'Custom Study',
+    customSession: (mode: string) => `${mode} · not rescheduled`,
   },
 
   cardEditor: {
@@ -237,11 +371,14 @@ export const en: TranslationKeys = {
     cardTypes: 'Card types to generate:',
     cardsPerType: 'Cards per type:',
     generateButton: 'Generate Cards',
+    extractButton: '⚡ Extract from syntax (no AI)',
+    extractBatchButton: '⚡ Batch extract from syntax (no AI)',
+    extractDesc: 'Makes cards directly from term:: definition, Question ? Answer, {{c1::cloze}}, ==highlights==, tables and outlines.',
     selectFolder: 'Select folder:',
     rootFolder: '/ (root)',
     includeSubfolders: 'Include subfolders',
     dateRangeOptional: 'Date range (optional):',
-    skipGenerated: 'Skip already generated notes',
+    skipGenerated: 'Only new sections in generated notes',
     startBatch: 'Start Batch Generation',
     progress: 'Progress',
     notesProcessed: (done: number, total: number) => `${done}/${total} notes processed`,
@@ -251,6 +388,26 @@ export const en: TranslationKeys = {
     allCards: (n: number) => `All Cards (${n})`,
     moreCards: (n: number) => `...and ${n} more cards`,
     existingCards: (n: number) => `${n} cards`,
+    cancelGeneration: 'Cancel',
+    streamingPreview: (n: number) => `Live preview — ${n} completed`,
+    waitingFirstCard: 'Waiting for the first card...',
+    reviewQueue: (n: number) => `Review Queue (${n})`,
+    acceptAll: 'Accept All',
+    rejectAll: 'Reject All',
+    accept: 'Accept',
+    regenerate: 'Regenerate',
+    reject: 'Reject',
+    regenerating: 'Regenerating...',
+    front: 'Front',
+    back: 'Back',
+    sourceChanges: (n: number) => `Source Changes (${n})`,
+    sourceEdited: 'Source edited',
+    sourceDeleted: 'Source deleted',
+    recheck: 'AI Re-check',
+    rechecking: 'Checking...',
+    keep: 'Keep',
+    deleteConfirm: 'Delete this card?',
+    keepAll: 'Keep All',
   },
 
   settingsView: {
@@ -272,7 +429,7 @@ export const en: TranslationKeys = {
     answer: 'Answer',
     answerPlaceholder: 'Answer or back content...',
     blankQuestionPlaceholder: 'Use ___ to mark blanks...',
-    blankAnswerPlaceholder: 'Answer for the blank...',
+    blankAnswerPlaceholder: 'Answer for the blank... (separate other accepted answers with |)',
     options: 'Options (check correct)',
     optionPlaceholder: (n: number) => `Option ${n}`,
     createCard: 'Create Card',
@@ -296,6 +453,149 @@ export const en: TranslationKeys = {
     confirmDelete: (n: number) => `Are you sure you want to delete ${n} cards?`,
   },
 
+  ankiImport: {
+    title: 'Import from Anki',
+    selectFile: 'Anki package (.apkg / .colpkg):',
+    includeScheduling: 'Import review history',
+    includeSchedulingDesc: 'Replay the review history to rebuild FSRS state. When off, every card starts as new',
+    importMedia: 'Import media',
+    importMediaDesc: 'Copy images and audio used by the cards into this folder',
+    importButton: 'Import',
+  },
+
+  srImport: {
+    title: 'Import from Spaced Repetition Plugin',
+    description: 'Finds notes with a flashcard tag and imports their Question::Answer, Question:::Answer and multi-line (? / ??) cards. Notes are not changed.',
+    flashcardTags: 'Flashcard tags',
+    flashcardTagsDesc: 'Comma separated, nested tags included (e.g. #flashcards/biology → card tag flashcards/biology)',
+    includeScheduling: 'Import schedules',
+    includeSchedulingDesc: 'Convert <!--SR:!date,interval,ease--> comments into an approximate FSRS state. When off, every card starts as new',
+    importButton: 'Import',
+  },
+
+  backup: {
+    title: 'Restore from Backup',
+    description: 'Roll cards, review history and stats back to the selected point in time. The current data is backed up first.',
+    empty: 'No backups yet.',
+    counts: (cards: number, logs: number) => `${cards} cards · ${logs} review logs`,
+    reasons: {
+      auto: 'Automatic',
+      manual: 'Manual',
+      'pre-restore': 'Before restore',
+    },
+    confirm: 'Changes made after this point will only remain in the backup of the current data.',
+    restore: 'Restore',
+  },
+
+  customStudy: {
+    title: 'Custom Study',
+    description: 'Ratings in this session are logged but do not change when cards are due. They are also left out of statistics and FSRS optimization.',
+    mode: 'Mode',
+    modes: {
+      cram: 'Cram',
+      'lowest-retrievability': 'Most likely forgotten first',
+      preview: 'Preview',
+      'failed-today': "Today's failed cards",
+    },
+    modeDesc: {
+      cram: 'Every card in the scope, in random order',
+      'lowest-retrievability': 'Cards with the lowest recall probability right now first',
+      preview: 'Cards that are not due yet, the soonest first',
+      'failed-today': 'Cards rated Again today',
+    },
+    scope: 'Scope',
+    scopes: {
+      all: 'All',
+      folder: 'Folder',
+      tag: 'Tag',
+      note: 'Note',
+    },
+    limit: 'Maximum cards',
+    start: 'Start',
+  },
+
+  stats: {
+    title: 'Statistics',
+    loading: 'Loading statistics...',
+    totalReviews: 'Total reviews',
+    retention30d: '30-day pass rate',
+    predictedRetention: 'Predicted retention',
+    streak: 'Current streak',
+    bestStreak: 'Best streak',
+    averageDaily: 'Daily average',
+    days: (n: number) => `${n} day(s)`,
+    heatmap: 'Reviews in the last year',
+    heatmapDay: (date: string, n: number) => `${date}: ${n} review(s)`,
+    heatmapTotal: (n: number, days: number) => `${n} reviews on ${days} day(s)`,
+    retentionByAge: 'True retention by card age',
+    retentionByType: 'True retention by card type',
+    retentionNote: 'Share of reviews of graduated cards rated Hard or better.',
+    retentionRow: (pct: number, passed: number, reviews: number) => `${pct}% (${passed}/${reviews})`,
+    ageBuckets: {
+      week: 'Under 1 week',
+      month: '1 week – 1 month',
+      quarter: '1 – 3 months',
+      halfYear: '3 – 6 months',
+      older: '6+ months',
+    },
+    stability: 'Stability distribution',
+    stabilityBuckets: {
+      day: 'Under 1 day',
+      week: '1 – 7 days',
+      month: '1 week – 1 month',
+      quarter: '1 – 3 months',
+      year: '3 months – 1 year',
+      longer: '1+ year',
+    },
+    timePerDay: 'Time per day (last 30 days)',
+    minutes: (n: number) => `${n.toFixed(1)} min`,
+    forecast: 'Due in the next 30 days',
+    cards: (n: number) => `${n} card(s)`,
+    noData: 'No data yet',
+  },
+
+  cardDetail: {
+    title: 'Card Details',
+    state: 'State',
+    stability: 'Stability',
+    difficulty: 'Difficulty',
+    retrievability: 'Recall probability',
+    reps: 'Reviews',
+    lapses: 'Lapses',
+    nextReview: 'Next review',
+    days: (n: number) => `${n.toFixed(1)} days`,
+    curves: 'Stability / difficulty over time',
+    curvesNote: 'Recomputed from the review history with the current FSRS parameters.',
+    timeline: 'Review history',
+    noReviews: 'No reviews yet.',
+    date: 'Date',
+    rating: 'Rating',
+    transition: 'State',
+    interval: 'Interval',
+    duration: 'Time',
+  },
+
+  fsrsOptimize: {
+    title: 'FSRS Optimization Result',
+    summary: (cards: number, reviews: number) => `Trained on ${cards} cards and ${reviews} reviews.`,
+    lossBefore: 'Current loss',
+    lossAfter: 'Optimized loss',
+    improvement: (pct: number) => `Prediction error reduced by ${pct.toFixed(1)}%`,
+    noImprovement: 'No improvement over the current parameters.',
+    weight: 'Weight',
+    current: 'Current',
+    optimized: 'Optimized',
+    apply: 'Apply',
+  },
+
+  inlineCard: {
+    invalid: 'This sil-card block has no front: line.',
+    showAnswer: 'Show answer',
+    notStudied: 'Not studied yet',
+    nextReview: (date: string) => `Next review: ${date}`,
+    notSaved: 'Not saved yet (saved once the note is edited in editing mode)',
+  },
+
   command: {
     openPlugin: 'Open Star InfoLearn',
     openDashboard: 'Open Study Dashboard',
@@ -46,14 +46,21 @@ export const ko = {
     generatingCards: '카드 생성 중...',
     cardsGenerated: (n: number) => `${n}개의 학습 카드가 생성되었습니다!`,
     noCardsGenerated: '텍스트에서 카드를 생성할 수 없습니다',
+    noCardsExtracted: '추출할 새 카드가 없습니다 (정의, 질문, 빈칸, 표, 개요 문법을 찾지 못함)',
     cardsDeleted: (n: number) => `${n}개의 카드가 삭제되었습니다.`,
     noMatchingNotes: '일치하는 노트를 찾을 수 없습니다',
     batchComplete: (n: number) => `일괄 생성 완료! ${n}개 노트가 처리되었습니다.`,
+    batchCancelled: (n: number) => `일괄 생성이 취소되었습니다. ${n}개 노트 처리 완료`,
     defaultSet: (provider: string, model: string) => `기본 설정: ${provider} / ${model}`,
     providerConnected: (name: string) => `${name} 연결 성공!`,
     providerFailed: (name: string) => `${name} 연결 실패. API 키를 확인하세요.`,
     providerTesting: (name: string) => `${name} 연결 테스트 중...`,
     reviewComplete: '복습 세션 완료!',
+    sessionSummary: (reviewed: number, newLearned: number, failed: number) => `복습 ${reviewed}개 (새 카드 ${newLearned}개, 다시 ${failed}개)`,
+    ratingUndone: '마지막 평가를 되돌렸습니다',
+    noCardsForCustomStudy: '선택한 조건에 맞는 카드가 없습니다',
+    answerAccepted: (answer: string) => `"${answer}"을(를) 정답으로 인정합니다`,
+    evaluationFailed: 'AI 채점에 실패했습니다. 정답을 보고 직접 평가하세요',
     errorPrefix: (msg: string) => `오류: ${msg}`,
     enterQuestion: '질문과 정답을 모두 입력하세요',
     mcqMinOptions: '객관식은 최소 2개의 선택지가 필요합니다',
@@ -66,6 +73,37 @@ export const ko = {
     enterModelName: '모델 이름을 입력해주세요.',
     enterModelIdRequired: '모델 ID를 입력해주세요.',
     duplicateModelId: '이미 등록된 모델 ID입니다.',
+    noCardsToExport: '내보낼 카드가 없습니다.',
+    ankiExporting: (n: number) => `${n}개의 카드를 Anki 패키지로 내보내는 중...`,
+    ankiExported: (notes: number, logs: number, path: string) => `Anki 내보내기 완료: 카드 ${notes}개, 복습 기록 ${logs}개 → ${path}`,
+    selectFileFirst: '파일을 선택하세요.',
+    ankiImporting: (name: string) => `${name} 가져오는 중...`,
+    ankiImported: (cards: number, decks: number, logs: number, skipped: number) =>
+      `Anki 가져오기 완료: 카드 ${cards}개, 덱 ${decks}개, 복습 기록 ${logs}개${skipped > 0 ? ` (중복 ${skipped}개 건너뜀)` : ''}`,
+    srImporting: 'Spaced Repetition 카드를 찾는 중...',
+    srImported: (cards: number, notes: number, scheduled: number, skipped: number) =>
+      `노트 ${notes}개에서 카드 ${cards}개를 가져왔습니다 (복습 일정 ${scheduled}개 변환)${skipped > 0 ? ` (중복 ${skipped}개 건너뜀)` : ''}`,
+    srNoNotes: '플래시카드 태그가 있는 노트가 없습니다.',
+    fsrsOptimizing: (pct: number) => `FSRS 매개변수 최적화 중... ${pct}%`,
+    fsrsNotEnoughReviews: '최적화하기에 복습 기록이 부족합니다. 복습을 더 진행한 후 다시 시도하세요.',
+    fsrsApplied: 'FSRS 매개변수가 적용되었습니다.',
+    backupCreated: (cards: number, logs: number) => `백업 완료: 카드 ${cards}개, 복습 기록 ${logs}개`,
+    backupRestored: (cards: number, logs: number) => `복원 완료: 카드 ${cards}개, 복습 기록 ${logs}개`,
+    cardsLoadFailed: (msg: string) => `카드를 불러오지 못했습니다 (${msg}). 카드 파일은 그대로 두었습니다. "Restore Learning Data from Backup" 명령으로 복구하세요.`,
+    generationCancelled: (n: number) => `생성이 취소되었습니다. 완성된 카드 ${n}개를 저장했습니다.`,
+    cardsStaged: (n: number) => `카드 ${n}개가 검토 대기열에 추가되었습니다.`,
+    draftsAccepted: (n: number) => `카드 ${n}개를 저장했습니다.`,
+    sourceNotFound: (path: string) => `원본 노트를 찾을 수 없습니다: ${path}`,
+    sourceRenameFailed: (path: string, msg: string) => `이름이 바뀐 노트(${path})의 카드를 갱신하지 못했습니다: ${msg}`,
+    sourceChanged: (n: number) => `원문이 수정되어 카드 ${n}장을 확인해야 합니다`,
+    cardsOrphaned: (n: number) => `원문 노트가 삭제되어 카드 ${n}장이 고아가 되었습니다`,
+    enterDeckName: '덱 이름을 입력하세요.',
+    decksCreated: (n: number) => `덱 ${n}개를 만들거나 갱신했습니다.`,
+    noDecksCreated: '덱을 만들 카드가 없습니다.',
+    deckNothingToStudy: (name: string) => `오늘 "${name}"에서 학습할 카드가 없습니다.`,
+    cardsEmbedded: (n: number) => `카드 ${n}개를 노트에 기록했습니다.`,
+    noCardsToEmbed: '노트에 기록할 카드가 없습니다 (모두 이미 기록됨).',
+    inlineCardsCreated: (n: number) => `노트의 sil-card 블록에서 카드 ${n}개를 만들었습니다.`,
   },
 
   // ── 설정 탭 ──
@@ -98,17 +136,79 @@ export const ko = {
     defaultCardTypes: '기본 카드 유형',
     defaultCardTypesDesc: '생성 시 기본 선택되는 카드 유형',
     cardsPerType: '유형당 기본 카드 수',
-    cardsPerTypeDesc: '선택한 유형별 생성할 카드 수',
-    skipGenerated: '생성된 노트 건너뛰기',
-    skipGeneratedDesc: '배치 생성 시 이미 카드가 있는 노트 건너뛰기',
+    cardsPerTypeDesc: '선택한 유형별 생성할 카드 수 (긴 노트는 구간 크기에 따라 나누어 생성)',
+    chunkTokenBudget: '분할 단위 (토큰)',
+    chunkTokenBudgetDesc: '긴 노트를 제목 기준으로 이 크기 이하로 나누어 구간마다 카드를 생성',
+    skipGenerated: '새 섹션만 생성',
+    skipGeneratedDesc: '배치 생성 시 이미 카드가 있는 노트는 새로 추가되거나 바뀐 섹션만 생성 (모두 처리된 노트는 건너뛰기)',
     trackFrontmatter: '프런트매터에 추적',
-    trackFrontmatterDesc: '카드 생성 후 노트에 sil-cards-generated 속성 추가',
+    trackFrontmatterDesc: '카드 생성 후 노트에 sil-cards-generated 속성과 원문 해시(sil-source-hash) 추가 (노트 수정 감지에 사용)',
+    streamResponses: '스트리밍 응답',
+    streamResponsesDesc: '응답을 스트리밍으로 받아 완성된 카드를 바로 미리 보기 (지원하지 않는 제공자는 끄세요)',
+    reviewBeforeSaving: '저장 전 검토',
+    reviewBeforeSavingDesc: '생성된 카드를 검토 대기열에 초안으로 보관하고, 승인한 카드만 저장',
+    insertBlockIds: '블록 참조 삽입',
+    insertBlockIdsDesc: '생성된 카드의 출처 문단 끝에 ^블록 ID를 추가해 노트를 수정해도 원문 위치를 찾을 수 있게 합니다',
+    inlineCards: '노트에 카드 기록',
+    inlineCardsDesc: '저장한 카드를 출처 구간 아래에 sil-card 블록으로 기록합니다. 노트에서 블록을 고치면 카드에, 플러그인에서 카드를 고치면 블록에 반영됩니다.',
+    inlineCardsOff: '기록하지 않음',
+    inlineCardsFence: '코드 블록 (```sil-card)',
+    inlineCardsCallout: '콜아웃 (> [!sil-card])',
 
     // 기타
     apiKeyLocalOnly: 'API 키는 로컬에만 저장되며 외부로 전송되지 않습니다.',
     language: '언어',
     languageDesc: '플러그인 인터페이스 언어',
     languageAuto: '자동 감지',
+
+    // FSRS
+    fsrsSection: 'FSRS 스케줄링',
+    newCardsPerDay: '하루 새 카드 수',
+    newCardsPerDayDesc: '하루에 새로 학습할 카드의 최대 수 (여러 세션에 걸쳐 합산)',
+    maxReviewsPerDay: '하루 최대 복습 수',
+    maxReviewsPerDayDesc: '하루에 복습할 카드의 최대 수 (0 = 제한 없음, 학습 중인 카드는 제외)',
+    loadBalancing: '복습 분산',
+    loadBalancingDesc: '다음 복습일을 허용 범위 안에서 복습이 가장 적은 날로 정해 특정 날에 몰리지 않게 합니다',
+    easyDays: '가벼운 요일',
+    easyDaysDesc: '선택한 요일에는 복습을 잡지 않습니다 (허용 범위 안에 다른 날이 없을 때만 예외)',
+    weekdays: ['일', '월', '화', '수', '목', '금', '토'],
+    fsrsOptimize: '매개변수 최적화',
+    fsrsOptimizeDesc: '내 복습 기록으로 FSRS 가중치 19개를 학습합니다 (현재: 기본값)',
+    fsrsOptimizeDescCustom: '내 복습 기록으로 FSRS 가중치 19개를 학습합니다 (현재: 최적화된 값)',
+    optimizeButton: '최적화',
+    resetButton: '기본값으로',
+
+    // 빈칸 답안 채점
+    answerMatchingSection: '빈칸 답안 채점',
+    ignoreCase: '대소문자 무시',
+    ignoreCaseDesc: 'FSRS와 fsrs를 같은 답으로 봅니다',
+    ignorePunctuation: '문장 부호 무시',
+    ignorePunctuationDesc: '"FSRS-4.5"와 "FSRS 4.5"처럼 문장 부호와 기호만 다른 답을 인정합니다',
+    ignoreSpaces: '띄어쓰기 무시',
+    ignoreSpacesDesc: '"망각 곡선"과 "망각곡선"을 같은 답으로 봅니다',
+    ignoreDiacritics: '악센트 무시',
+    ignoreDiacriticsDesc: 'é와 e처럼 악센트만 다른 글자를 같게 봅니다',
+    ignoreParticles: '조사 무시',
+    ignoreParticlesDesc: '"망각 곡선은"처럼 끝에 조사(은/는/이/가/을/를 등)만 붙거나 빠진 답을 인정합니다',
+    jamoAware: '자모 단위 비교',
+    jamoAwareDesc: '한글 오타를 자모 단위로 셉니다 (갑 → 값은 글자 하나가 아니라 자모 하나의 차이)',
+    typoTolerance: '오타 허용',
+    typoToleranceDesc: '정답 길이 대비 허용할 오타 비율 (0% = 위 규칙 외에는 정확히 일치해야 함)',
+
+    // 데이터
+    dataSection: '데이터 가져오기/내보내기',
+    ankiExport: 'Anki로 내보내기',
+    ankiExportDesc: '모든 카드를 FSRS 상태와 복습 기록을 포함한 .apkg 파일로 볼트 루트에 저장합니다',
+    exportButton: '내보내기',
+    ankiImport: 'Anki에서 가져오기',
+    ankiImportDesc: '.apkg / .colpkg 파일의 카드, 덱 구조, 복습 기록을 가져옵니다',
+    srImport: 'Spaced Repetition 플러그인에서 가져오기',
+    srImportDesc: '#flashcards 노트의 ::, :::, ? 카드와 <!--SR:--> 복습 일정을 가져옵니다',
+    importButton: '가져오기',
+    backup: '백업 및 복원',
+    backupDesc: '카드, 복습 기록, 통계를 스냅샷으로 저장합니다. 하루 한 번 자동으로 백업하며 최근 10개를 보관합니다',
+    backupButton: '지금 백업',
+    restoreButton: '복원...',
   },
 
   // ── 제공자 모달 ──
@@ -179,6 +279,7 @@ export const ko = {
     study: '학습',
     review: '복습',
     'card-editor': '카드 생성',
+    stats: '통계',
     settings: '설정',
   },
 
@@ -198,6 +299,28 @@ export const ko = {
     cardTypes: '카드 유형',
   },
 
+  // ── 덱 ──
+  deck: {
+    title: '덱',
+    newDeck: '+ 새 덱',
+    fromFolders: '폴더로 만들기',
+    fromTags: '태그로 만들기',
+    empty: '아직 덱이 없습니다. 직접 만들거나 폴더/태그로 자동 생성하세요.',
+    counts: (due: number, newCount: number, total: number) => `복습 ${due} · 새 카드 ${newCount} · 전체 ${total}`,
+    study: '학습',
+    dropHint: '카드를 덱으로 끌어다 놓아 옮길 수 있습니다.',
+    noCards: '이 덱에 직접 속한 카드가 없습니다.',
+    deleteConfirm: (name: string) => `"${name}" 덱을 삭제할까요? 카드는 유지되고 하위 덱은 한 단계 위로 옮겨집니다.`,
+    createTitle: '새 덱',
+    editTitle: '덱 편집',
+    name: '이름',
+    parent: '상위 덱',
+    noParent: '(없음)',
+    newCardsPerDay: '하루 새 카드 수',
+    reviewsPerDay: '하루 복습 수',
+    noLimit: '제한 없음',
+  },
+
   // ── 복습 세션 ──
   review: {
     title: '복습 세션',
@@ -218,6 +341,7 @@ export const ko = {
     backToDashboard: '← 대시보드로 돌아가기',
     startReview: (n: number) => `복습 시작 (${n}개)`,
     cardNotFound: '카드를 찾을 수 없습니다',
+    openSource: '📄 원문 열기',
     progress: (current: number, total: number) => `${current} / ${total}`,
     hint: '힌트: ',
     showAnswer: '정답 보기',
@@ -234,6 +358,13 @@ export const ko = {
     myAnswer: '내 답변: ',
     notEntered: '(미입력)',
     correctAnswer: '정답: ',
+    nearlyCorrect: '오타 허용',
+    acceptAnswer: '정답으로 인정',
+    evaluating: 'AI가 답변을 채점하는 중...',
+    evaluationScore: (score: number) => `AI 채점: ${score}점`,
+    correctPoints: '맞힌 내용',
+    missedPoints: '빠진 내용',
+    suggestedRating: '추천',
     rateMemory: '얼마나 잘 기억하셨나요?',
     ratingAgain: '다시',
     ratingAgainDesc: '완전히 잊음',
@@ -243,6 +374,16 @@ export const ko = {
     ratingGoodDesc: '정확히 기억',
     ratingEasy: '쉬움',
     ratingEasyDesc: '완벽히 기억',
+    waitingTitle: '학습 중인 카드를 기다리는 중',
+    waitingCountdown: (time: string) => `다음 카드까지 ${time}`,
+    waitingCards: (n: number) => `${n}개의 카드가 이번 세션에서 다시 나옵니다`,
+    studyNow: '지금 학습',
+    endSession: '세션 끝내기',
+    undo: '↶ 되돌리기',
+    undoHint: (n: number) => `이번 세션의 평가 ${n}개를 되돌릴 수 있습니다`,
+    details: 'ℹ️ 상세',
+    customStudy: '사용자 지정 학습',
+    customSession: (mode: string) => `${mode} · 일정에 반영되지 않음`,
   },
 
   // ── 카드 에디터 ──
@@ -257,11 +398,14 @@ export const ko = {
     cardTypes: '생성할 카드 유형:',
     cardsPerType: '유형당 카드 수:',
     generateButton: '카드 생성하기',
+    extractButton: '⚡ AI 없이 문법으로 추출',
+    extractBatchButton: '⚡ AI 없이 문법으로 일괄 추출',
+    extractDesc: 'term:: 정의, 질문 ? 답, {{c1::빈칸}}, ==하이라이트==, 표, 개요에서 바로 카드를 만듭니다.',
     selectFolder: '폴더 선택:',
     rootFolder: '/ (루트)',
     includeSubfolders: '하위 폴더 포함',
     dateRangeOptional: '날짜 범위 (선택):',
-    skipGenerated: '이미 생성된 노트 건너뛰기',
+    skipGenerated: '이미 생성된 노트는 새 섹션만',
     startBatch: '일괄 생성 시작',
     progress: '진행 상황',
     notesProcessed: (done: number, total: number) => `${done}/${total}개 노트 처리됨`,
@@ -271,6 +415,26 @@ export const ko = {
     allCards: (n: number) => `전체 카드 (${n})`,
     moreCards: (n: number) => `...외 ${n}개의 카드`,
     existingCards: (n: number) => `${n}개의 카드`,
+    cancelGeneration: '생성 취소',
+    streamingPreview: (n: number) => `실시간 미리 보기 — ${n}개 완성`,
+    waitingFirstCard: '첫 번째 카드를 기다리는 중...',
+    reviewQueue: (n: number) => `검토 대기열 (${n})`,
+    acceptAll: '모두 승인',
+    rejectAll: '모두 거절',
+    accept: '승인',
+    regenerate: '다시 생성',
+    reject: '거절',
+    regenerating: '생성 중...',
+    front: '앞면',
+    back: '뒷면',
+    sourceChanges: (n: number) => `원문 변경 (${n})`,
+    sourceEdited: '원문 수정됨',
+    sourceDeleted: '원문 삭제됨',
+    recheck: 'AI 재확인',
+    rechecking: '확인 중...',
+    keep: '유지',
+    deleteConfirm: '이 카드를 삭제하시겠습니까?',
+    keepAll: '모두 유지',
   },
 
   // ── 설정 모드 (메인 뷰) ──
@@ -294,7 +458,7 @@ export const ko = {
     answer: '정답',
     answerPlaceholder: '정답 또는 뒷면 내용...',
     blankQuestionPlaceholder: '빈칸은 ___ 로 표시...',
-    blankAnswerPlaceholder: '빈칸에 들어갈 정답...',
+    blankAnswerPlaceholder: '빈칸에 들어갈 정답... (다른 정답은 | 로 구분)',
     options: '선택지 (정답 체크)',
     optionPlaceholder: (n: number) => `선택지 ${n}`,
     createCard: '카드 생성',
@@ -319,6 +483,157 @@ export const ko = {
     confirmDelete: (n: number) => `정말로 ${n}개의 카드를 삭제하시겠습니까?`,
   },
 
+  // ── Anki 가져오기 모달 ──
+  ankiImport: {
+    title: 'Anki에서 가져오기',
+    selectFile: 'Anki 패키지 (.apkg / .colpkg):',
+    includeScheduling: '복습 기록 가져오기',
+    includeSchedulingDesc: '복습 기록을 재생하여 FSRS 상태를 다시 계산합니다. 끄면 모든 카드가 새 카드로 시작합니다',
+    importMedia: '미디어 가져오기',
+    importMediaDesc: '카드에서 사용하는 이미지와 오디오를 지정한 폴더에 복사합니다',
+    importButton: '가져오기',
+  },
+
+  // ── Spaced Repetition 가져오기 모달 ──
+  srImport: {
+    title: 'Spaced Repetition 플러그인에서 가져오기',
+    description: '볼트에서 플래시카드 태그가 있는 노트를 찾아 Question::Answer, Question:::Answer, 여러 줄(? / ??) 카드를 가져옵니다. 노트 내용은 바뀌지 않습니다.',
+    flashcardTags: '플래시카드 태그',
+    flashcardTagsDesc: '쉼표로 구분 (하위 태그 포함, 예: #flashcards/생물 → 카드 태그 flashcards/생물)',
+    includeScheduling: '복습 일정 가져오기',
+    includeSchedulingDesc: '<!--SR:!날짜,간격,ease--> 주석을 비슷한 FSRS 상태로 변환합니다. 끄면 모든 카드가 새 카드로 시작합니다',
+    importButton: '가져오기',
+  },
+
+  // ── 백업 복원 모달 ──
+  backup: {
+    title: '백업에서 복원',
+    description: '선택한 시점의 카드, 복습 기록, 통계로 되돌립니다. 복원 전에 현재 데이터를 자동으로 백업합니다.',
+    empty: '아직 백업이 없습니다.',
+    counts: (cards: number, logs: number) => `카드 ${cards}개 · 복습 기록 ${logs}개`,
+    reasons: {
+      auto: '자동',
+      manual: '수동',
+      'pre-restore': '복원 전',
+    },
+    confirm: '이 시점 이후의 변경 사항은 현재 데이터 백업에만 남습니다.',
+    restore: '복원',
+  },
+
+  // ── 사용자 지정 학습 모달 ──
+  customStudy: {
+    title: '사용자 지정 학습',
+    description: '이 세션의 평가는 기록만 되고 카드의 복습 일정은 바뀌지 않습니다. 통계와 FSRS 최적화에서도 제외됩니다.',
+    mode: '방식',
+    modes: {
+      cram: '몰아보기',
+      'lowest-retrievability': '잊기 쉬운 카드부터',
+      preview: '미리 보기',
+      'failed-today': '오늘 틀린 카드',
+    },
+    modeDesc: {
+      cram: '범위 안의 모든 카드를 무작위 순서로',
+      'lowest-retrievability': '지금 기억할 확률이 가장 낮은 카드부터',
+      preview: '아직 복습 날짜가 되지 않은 카드를 가까운 순서로',
+      'failed-today': '오늘 \'다시\'로 평가한 카드',
+    },
+    scope: '범위',
+    scopes: {
+      all: '전체',
+      folder: '폴더',
+      tag: '태그',
+      note: '노트',
+    },
+    limit: '최대 카드 수',
+    start: '시작',
+  },
+
+  // ── 통계 ──
+  stats: {
+    title: '학습 통계',
+    loading: '통계를 불러오는 중...',
+    totalReviews: '총 복습',
+    retention30d: '30일 정답률',
+    predictedRetention: '예상 기억률',
+    streak: '연속 학습',
+    bestStreak: '최장 연속',
+    averageDaily: '하루 평균',
+    days: (n: number) => `${n}일`,
+    heatmap: '지난 1년 복습',
+    heatmapDay: (date: string, n: number) => `${date}: ${n}회`,
+    heatmapTotal: (n: number, days: number) => `${days}일 동안 ${n}회 복습`,
+    retentionByAge: '카드 나이별 실제 기억률',
+    retentionByType: '카드 유형별 실제 기억률',
+    retentionNote: '복습 단계 카드의 복습 중 어려움 이상으로 평가한 비율입니다.',
+    retentionRow: (pct: number, passed: number, reviews: number) => `${pct}% (${passed}/${reviews})`,
+    ageBuckets: {
+      week: '1주 미만',
+      month: '1주 ~ 1개월',
+      quarter: '1 ~ 3개월',
+      halfYear: '3 ~ 6개월',
+      older: '6개월 이상',
+    },
+    stability: '안정성 분포',
+    stabilityBuckets: {
+      day: '1일 미만',
+      week: '1 ~ 7일',
+      month: '1주 ~ 1개월',
+      quarter: '1 ~ 3개월',
+      year: '3개월 ~ 1년',
+      longer: '1년 이상',
+    },
+    timePerDay: '하루 학습 시간 (최근 30일)',
+    minutes: (n: number) => `${n.toFixed(1)}분`,
+    forecast: '앞으로 30일 복습 예정',
+    cards: (n: number) => `${n}장`,
+    noData: '아직 데이터가 없습니다',
+  },
+
+  // ── 카드 상세 모달 ──
+  cardDetail: {
+    title: '카드 상세',
+    state: '상태',
+    stability: '안정성',
+    difficulty: '난이도',
+    retrievability: '기억 확률',
+    reps: '복습 횟수',
+    lapses: '잊은 횟수',
+    nextReview: '다음 복습',
+    days: (n: number) => `${n.toFixed(1)}일`,
+    curves: '안정성 / 난이도 변화',
+    curvesNote: '복습 기록을 현재 FSRS 매개변수로 다시 계산한 값입니다.',
+    timeline: '복습 기록',
+    noReviews: '아직 복습 기록이 없습니다.',
+    date: '날짜',
+    rating: '평가',
+    transition: '상태',
+    interval: '간격',
+    duration: '소요',
+  },
+
+  // ── FSRS 최적화 모달 ──
+  fsrsOptimize: {
+    title: 'FSRS 최적화 결과',
+    summary: (cards: number, reviews: number) => `카드 ${cards}개, 복습 ${reviews}회를 학습에 사용했습니다.`,
+    lossBefore: '현재 손실',
+    lossAfter: '최적화 후 손실',
+    improvement: (pct: number) => `예측 오차 ${pct.toFixed(1)}% 감소`,
+    noImprovement: '현재 매개변수보다 나아지지 않았습니다.',
+    weight: '가중치',
+    current: '현재',
+    optimized: '최적화',
+    apply: '적용',
+  },
+
+  // ── 노트 안 카드 ──
+  inlineCard: {
+    invalid: 'sil-card 블록에 front: 줄이 없습니다.',
+    showAnswer: '정답 보기',
+    notStudied: '아직 학습하지 않음',
+    nextReview: (date: string) => `다음 복습: ${date}`,
+    notSaved: '아직 저장되지 않은 카드 (편집 모드에서 노트를 수정하면 저장됩니다)',
+  },
+
   // ── 커맨드 ──
   command: {
     openPlugin: 'Open Star InfoLearn',
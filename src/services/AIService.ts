@@ -4,12 +4,40 @@
 
 import axios, { AxiosInstance } from 'axios';
 import { AIProviderDefinition, AIModelDefinition, AIServiceConfig } from '../types/ai';
-import { AIServiceError, ProviderNotConfiguredError, ApiKeyNotSetError, RateLimitError, isAxiosError } from '../types/errors';
-import { LearningCard, LearningCardType, createLearningCard, QuestionGenerationRequest, QuestionGenerationResult, AnswerEvaluation } from '../types/learning';
+import { AIServiceError, ProviderNotConfiguredError, ApiKeyNotSetError, RateLimitError, GenerationCancelledError, isAxiosError } from '../types/errors';
+import { LearningCard, LearningCardType, createLearningCard, QuestionGenerationRequest, QuestionGenerationResult, AnswerEvaluation, SourceRecheckResult } from '../types/learning';
+import { readServerSentEvents, ServerSentEvent, StreamingCardParser } from '../utils/streaming';
+import {
+  CARD_GENERATION_TOOL,
+  GeneratedCardData,
+  buildCardGenerationSchema,
+  extractJsonText,
+  normalizeCardData,
+  parseCardGenerationResponse,
+  validateCardData,
+} from '../utils/cardSchema';
+
+/** 스키마 검증 실패 시 수정 요청 최대 횟수 */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/** 구조화 출력 스키마 (JSON Schema) */
+type OutputSchema = Record<string, unknown>;
+
+/**
+ * 스트리밍 생성 옵션
+ */
+export interface GenerationStreamOptions {
+  /** 생성 중단용 시그널 */
+  signal?: AbortSignal;
+  /** 카드 JSON이 완성될 때마다 호출 */
+  onCard?: (card: LearningCard) => void;
+}
 
 export class AIService {
   private config: AIServiceConfig;
   private axiosInstances: Map<string, AxiosInstance> = new Map();
+  /** 구조화 출력(json_schema / tool-use)을 거부한 제공자 */
+  private structuredOutputUnsupported: Set<string> = new Set();
 
   constructor(config: AIServiceConfig) {
     this.config = config;
@@ -77,8 +105,8 @@ export class AIService {
     return newInstance;
   }
 
-  /** 현재 기본 제공자+모델로 AI 호출 */
-  private async callAI(prompt: string): Promise<string> {
+  /** 기본 제공자+모델 확인 */
+  private resolveDefaultTarget(): { provider: AIProviderDefinition; model?: AIModelDefinition } {
     const provider = this.findProvider(this.config.defaultProviderId);
     if (!provider) {
       throw new ProviderNotConfiguredError(this.config.defaultProviderId);
@@ -90,8 +118,136 @@ export class AIService {
       throw new ApiKeyNotSetError(this.config.defaultProviderId);
     }
 
+    return { provider, model };
+  }
+
+  /** 현재 기본 제공자+모델로 AI 호출 (schema가 있으면 구조화 출력) */
+  private async callAI(prompt: string, schema?: OutputSchema): Promise<string> {
+    const { provider, model } = this.resolveDefaultTarget();
     const instance = this.getInstanceForModel(provider, model);
-    return this.callWithInstance(instance, provider, this.config.defaultModelId, prompt);
+    return this.callWithInstance(instance, provider, this.config.defaultModelId, prompt, schema);
+  }
+
+  /**
+   * 구조화 출력으로 호출하고, 제공자가 지원하지 않으면 일반 프롬프트로 재시도
+   * 한 번 거부한 제공자는 이후 바로 일반 프롬프트를 사용
+   */
+  private async callWithSchema(
+    prompt: string,
+    schema: OutputSchema,
+    stream?: { onText: (chunk: string) => void; signal?: AbortSignal }
+  ): Promise<string> {
+    const providerId = this.config.defaultProviderId;
+    const call = (outputSchema?: OutputSchema) => stream
+      ? this.callAIStream(prompt, stream.onText, stream.signal, outputSchema)
+      : this.callAI(prompt, outputSchema);
+
+    if (this.structuredOutputUnsupported.has(providerId)) {
+      return call();
+    }
+
+    try {
+      return await call(schema);
+    } catch (error) {
+      if (!isStructuredOutputRejection(error)) {
+        throw error;
+      }
+      console.warn(`${providerId}: structured output rejected, falling back to prompt-only JSON`, error);
+      const response = await call();
+      this.structuredOutputUnsupported.add(providerId);
+      return response;
+    }
+  }
+
+  /**
+   * 현재 기본 제공자+모델로 스트리밍 호출 (SSE)
+   * 텍스트 조각이 도착할 때마다 onText를 호출하고, 완료되면 전체 응답을 반환
+   */
+  private async callAIStream(
+    prompt: string,
+    onText: (chunk: string) => void,
+    signal?: AbortSignal,
+    schema?: OutputSchema
+  ): Promise<string> {
+    const { provider, model } = this.resolveDefaultTarget();
+    const headers = this.getHeaders({ ...provider, apiKey: model?.apiKey || provider.apiKey });
+    const isAnthropic = provider.apiFormat === 'anthropic';
+    const modelId = this.config.defaultModelId;
+
+    const url = `${provider.baseUrl.replace(/\/+$/, '')}${isAnthropic ? '/messages' : '/chat/completions'}`;
+    const body = isAnthropic
+      ? { model: modelId, max_tokens: 16000, messages: [{ role: 'user', content: prompt }], stream: true, ...anthropicToolParams(schema) }
+      : { model: modelId, messages: [{ role: 'user', content: prompt }], temperature: 0.7, max_tokens: 16000, stream: true, ...openAIResponseFormat(schema) };
+
+    let fullText = '';
+    try {
+      const response = await fetch(url, { method: 'POST', headers, body: JSON.stringify(body), signal });
+
+      if (!response.ok || !response.body) {
+        if (response.status === 429) {
+          throw new RateLimitError(provider.id, parseInt(response.headers.get('retry-after') || '60', 10));
+        }
+        const detail = await response.text().catch(() => '');
+        throw new AIServiceError(
+          `${provider.id} API error: ${extractErrorMessage(detail) || response.statusText}`,
+          provider.id,
+          response.status
+        );
+      }
+
+      for await (const event of readServerSentEvents(response.body)) {
+        const text = isAnthropic
+          ? this.parseAnthropicStreamEvent(event, provider.id)
+          : this.parseOpenAIStreamEvent(event, provider.id);
+        if (text === null) break;
+        if (text) {
+          fullText += text;
+          onText(text);
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new GenerationCancelledError(provider.id);
+      }
+      if (error instanceof AIServiceError) {
+        throw error;
+      }
+      throw new AIServiceError(`${provider.id} API error: ${String(error)}`, provider.id, undefined, error);
+    }
+
+    return fullText;
+  }
+
+  /** OpenAI 호환 스트림 이벤트 → 텍스트 (종료 시 null) */
+  private parseOpenAIStreamEvent(event: ServerSentEvent, providerId: string): string | null {
+    if (event.data.trim() === '[DONE]') return null;
+
+    const data = JSON.parse(event.data);
+    if (data.error) {
+      throw new AIServiceError(`${providerId} API error: ${data.error.message || JSON.stringify(data.error)}`, providerId);
+    }
+    return data.choices?.[0]?.delta?.content || '';
+  }
+
+  /** Anthropic 스트림 이벤트 → 텍스트 (종료 시 null) */
+  private parseAnthropicStreamEvent(event: ServerSentEvent, providerId: string): string | null {
+    switch (event.event) {
+      case 'content_block_delta': {
+        const data = JSON.parse(event.data);
+        if (data.delta?.type === 'text_delta') return data.delta.text;
+        // 도구 호출 입력 (구조화 출력)
+        if (data.delta?.type === 'input_json_delta') return data.delta.partial_json;
+        return '';
+      }
+      case 'message_stop':
+        return null;
+      case 'error': {
+        const data = JSON.parse(event.data);
+        throw new AIServiceError(`${providerId} API error: ${data.error?.message || event.data}`, providerId);
+      }
+      default:
+        return '';
+    }
   }
 
   /** 인스턴스를 사용한 실제 호출 */
@@ -99,13 +255,14 @@ export class AIService {
     instance: AxiosInstance,
     provider: AIProviderDefinition,
     modelId: string,
-    prompt: string
+    prompt: string,
+    schema?: OutputSchema
   ): Promise<string> {
     try {
       if (provider.apiFormat === 'anthropic') {
-        return await this.callAnthropic(instance, modelId, prompt);
+        return await this.callAnthropic(instance, modelId, prompt, schema);
       }
-      return await this.callOpenAICompatible(instance, modelId, prompt);
+      return await this.callOpenAICompatible(instance, modelId, prompt, schema);
     } catch (error) {
       if (error instanceof AIServiceError) {
         throw error;
@@ -122,13 +279,15 @@ export class AIService {
   private async callOpenAICompatible(
     instance: AxiosInstance,
     model: string,
-    prompt: string
+    prompt: string,
+    schema?: OutputSchema
   ): Promise<string> {
     const response = await instance.post('/chat/completions', {
       model,
       messages: [{ role: 'user', content: prompt }],
       temperature: 0.7,
       max_tokens: 16000,
+      ...openAIResponseFormat(schema),
     });
     return response.data.choices[0].message.content;
   }
@@ -137,14 +296,23 @@ export class AIService {
   private async callAnthropic(
     instance: AxiosInstance,
     model: string,
-    prompt: string
+    prompt: string,
+    schema?: OutputSchema
   ): Promise<string> {
     const response = await instance.post('/messages', {
       model,
       max_tokens: 16000,
       messages: [{ role: 'user', content: prompt }],
+      ...anthropicToolParams(schema),
     });
-    return response.data.content[0].text;
+
+    // 구조화 출력: 도구 입력을 JSON 문자열로 반환
+    const blocks: { type: string; text?: string; input?: unknown }[] = response.data.content;
+    const toolUse = blocks.find(b => b.type === 'tool_use');
+    if (toolUse) {
+      return JSON.stringify(toolUse.input);
+    }
+    return blocks.find(b => b.type === 'text')?.text ?? '';
   }
 
   /** 연결 테스트 (특정 제공자+모델, 임시 API 키 지원) */
@@ -196,6 +364,7 @@ export class AIService {
   updateConfig(config: AIServiceConfig): void {
     this.config = config;
     this.axiosInstances.clear();
+    this.structuredOutputUnsupported.clear();
     this.initializeAxiosInstances();
   }
 
@@ -207,7 +376,8 @@ export class AIService {
    * 학습 질문 생성
    */
   async generateQuestions(
-    request: QuestionGenerationRequest
+    request: QuestionGenerationRequest,
+    stream?: GenerationStreamOptions
   ): Promise<QuestionGenerationResult> {
     const provider = this.findProvider(this.config.defaultProviderId);
     if (!provider) {
@@ -239,7 +409,8 @@ ${questionTypePrompts}
       "hint": "선택적 힌트 (null 가능, 한국어)",
       "explanation": "정답인 이유 설명 (null 가능, 한국어)",
       "difficulty": 1-5,
-      "options": [{"id": "a", "text": "선택지 텍스트 (한국어)", "isCorrect": true/false}]
+      "options": [{"id": "a", "text": "선택지 텍스트 (한국어)", "isCorrect": true/false}],
+      "alternatives": ["정답으로 인정할 다른 표기나 동의어"]
     }
   ],
   "concepts": ["개념1", "개념2"],
@@ -251,71 +422,110 @@ ${questionTypePrompts}
 - "front"와 "back"은 반드시 문자열이어야 합니다 (객체 아님)
 - "options" 배열은 multiple_choice 유형에만 필요합니다
 - fill_blank의 경우, front 텍스트에서 빈칸은 "___"로 표시합니다
+- "alternatives"에는 fill_blank 정답의 다른 표기나 동의어를 넣고, 그 외 유형은 빈 배열로 둡니다
 - 마크다운 포맷팅이나 코드 블록 없이 유효한 JSON만 반환하세요`;
 
-    try {
-      const response = await this.callAI(prompt);
+    const schema = buildCardGenerationSchema(request.questionTypes);
 
-      let jsonStr = response.trim();
+    try {
+      // 스트리밍 시 완성된 카드를 즉시 전달
+      const streamedCards: LearningCard[] = [];
+      let response: string;
+      if (stream) {
+        const parser = new StreamingCardParser();
+        response = await this.callWithSchema(prompt, schema, {
+          signal: stream.signal,
+          onText: (chunk) => {
+            for (const cardData of parser.push(chunk)) {
+              if (validateCardData(cardData, request.questionTypes).length > 0) continue;
+              const card = this.toLearningCard(normalizeCardData(cardData));
+              streamedCards.push(card);
+              stream.onCard?.(card);
+            }
+          },
+        });
+      } else {
+        response = await this.callWithSchema(prompt, schema);
+      }
       console.log('AI raw response length:', response.length);
 
-      if (!jsonStr) {
+      if (!response.trim()) {
         throw new AIServiceError('Empty response from AI', this.config.defaultProviderId);
       }
 
-      if (jsonStr.startsWith('```')) {
-        jsonStr = jsonStr.replace(/```json?\n?/g, '').replace(/```/g, '');
-      }
-
-      const jsonMatch = jsonStr.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[0];
+      // 스키마 검증, 실패하면 오류를 알려주고 수정 요청
+      let parsed = parseCardGenerationResponse(response, request.questionTypes);
+      for (let attempt = 1; parsed.errors.length > 0 && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        console.warn(`Card generation response failed validation (repair ${attempt}/${MAX_REPAIR_ATTEMPTS}):`, parsed.errors);
+        response = await this.callWithSchema(this.buildRepairPrompt(prompt, response, parsed.errors), schema);
+        const repaired = parseCardGenerationResponse(response, request.questionTypes);
+        if ((repaired.data?.cards.length ?? 0) >= (parsed.data?.cards.length ?? 0)) {
+          parsed = repaired;
+        }
       }
 
-      let result;
-      try {
-        result = JSON.parse(jsonStr);
-      } catch (parseError) {
-        console.error('JSON parse error. Response:', jsonStr.slice(0, 500));
+      if (!parsed.data || parsed.data.cards.length === 0) {
+        // 출력이 잘렸어도 완성된 카드는 사용
+        if (streamedCards.length > 0) {
+          return { cards: streamedCards, confidence: 0.8, concepts: [] };
+        }
+        console.error('Invalid card generation response:', parsed.errors, response.slice(0, 500));
         throw new AIServiceError(
-          `Invalid JSON response from AI. Response preview: ${jsonStr.slice(0, 200)}...`,
+          `Invalid JSON response from AI: ${parsed.errors.slice(0, 3).join('; ')}`,
           this.config.defaultProviderId
         );
       }
 
-      const cards: LearningCard[] = result.cards.map((cardData: Record<string, unknown>) => {
-        const front = typeof cardData.front === 'object'
-          ? (cardData.front as { content: string }).content
-          : cardData.front as string;
-
-        const back = typeof cardData.back === 'object'
-          ? (cardData.back as { content: string }).content
-          : cardData.back as string;
-
-        return createLearningCard({
-          type: cardData.type as LearningCardType,
-          sourceFile: '',
-          front,
-          back,
-          hint: cardData.hint as string | undefined,
-          explanation: cardData.explanation as string | undefined,
-          difficulty: (cardData.difficulty as 1 | 2 | 3 | 4 | 5) || 3,
-          options: cardData.options as LearningCard['options'],
-          tags: ['ai-generated'],
-        });
-      });
-
       return {
-        cards,
-        confidence: result.confidence || 0.8,
-        concepts: result.concepts || [],
+        cards: parsed.data.cards.map(cardData => this.toLearningCard(cardData)),
+        confidence: parsed.data.confidence,
+        concepts: parsed.data.concepts,
+        notes: parsed.errors.length > 0 ? parsed.errors : undefined,
       };
     } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        throw error;
+      }
       console.error('Error generating questions:', error);
-      throw AIServiceError.fromAxiosError(this.config.defaultProviderId, error);
+      throw error instanceof AIServiceError
+        ? error
+        : AIServiceError.fromAxiosError(this.config.defaultProviderId, error);
     }
   }
 
+  /** 검증 오류를 포함한 수정 요청 프롬프트 */
+  private buildRepairPrompt(prompt: string, previousResponse: string, errors: string[]): string {
+    return `${prompt}
+
+이전 응답이 요구된 JSON 형식과 맞지 않습니다. 아래 오류를 모두 고친 전체 JSON 객체만 다시 반환하세요.
+
+오류:
+${errors.slice(0, 20).map(e => `- ${e}`).join('\n')}
+
+이전 응답:
+"""
+${previousResponse}
+"""`;
+  }
+
+  /** 검증된 카드 데이터 → LearningCard */
+  private toLearningCard(cardData: GeneratedCardData): LearningCard {
+    return createLearningCard({
+      type: cardData.type,
+      sourceFile: '',
+      front: cardData.front,
+      back: cardData.back,
+      hint: cardData.hint,
+      explanation: cardData.explanation,
+      difficulty: cardData.difficulty,
+      options: cardData.options,
+      blanks: cardData.alternatives
+        ? [{ position: Math.max(0, cardData.front.indexOf('___')), answer: cardData.back, alternatives: cardData.alternatives }]
+        : undefined,
+      tags: ['ai-generated'],
+    });
+  }
+
   private getQuestionTypePrompts(types: LearningCardType[]): string {
     const typeDescriptions: Record<LearningCardType, string> = {
       flashcard: '플래시카드: 간단한 Q&A 카드를 만드세요. front는 질문, back은 답변입니다.',
@@ -330,7 +540,7 @@ ${questionTypePrompts}
   }
 
   /**
-   * 사용자 답변 평가
+   * 사용자 답변 평가 (실패하면 예외)
    */
   async evaluateAnswer(
     expectedAnswer: string,
@@ -351,6 +561,7 @@ ${userAnswer}
 ${context ? `\nContext: ${context}` : ''}
 
 Evaluate for meaning/understanding, not just exact word matching.
+Write the feedback, points and suggestion in the language of the expected answer.
 
 Return a JSON object:
 {
@@ -364,20 +575,98 @@ Return a JSON object:
 
 Return ONLY valid JSON.`;
 
-    try {
-      const response = await this.callAI(prompt);
-      let jsonStr = response.trim();
-      if (jsonStr.startsWith('```')) {
-        jsonStr = jsonStr.replace(/```json?\n?/g, '').replace(/```/g, '');
-      }
-      return JSON.parse(jsonStr);
-    } catch (error) {
-      console.error('Error evaluating answer:', error);
-      return {
-        isCorrect: false,
-        score: 0,
-        feedback: 'Unable to evaluate answer automatically. Please review manually.',
-      };
-    }
+    const response = await this.callAI(prompt);
+    const parsed = JSON.parse(extractJsonText(response));
+    const score = typeof parsed.score === 'number' ? Math.min(1, Math.max(0, parsed.score)) : 0;
+    const toStrings = (value: unknown) =>
+      Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+    return {
+      isCorrect: typeof parsed.isCorrect === 'boolean' ? parsed.isCorrect : score >= 0.7,
+      score,
+      feedback: typeof parsed.feedback === 'string' ? parsed.feedback : '',
+      correctPoints: toStrings(parsed.correctPoints),
+      missedPoints: toStrings(parsed.missedPoints),
+      suggestion: typeof parsed.suggestion === 'string' ? parsed.suggestion : undefined,
+    };
+  }
+
+  /**
+   * 원문이 수정된 카드가 여전히 맞는지 확인
+   */
+  async recheckCard(card: LearningCard, passage: string): Promise<SourceRecheckResult> {
+    const prompt = `You are reviewing a flashcard whose source note was edited. Decide whether the card is still correct and supported by the current source passage.
+
+Source Passage:
+"""
+${passage}
+"""
+
+Card Question:
+"""
+${card.front}
+"""
+
+Card Answer:
+"""
+${card.back}
+"""
+
+Return a JSON object:
+{
+  "isValid": true/false,
+  "reason": "One sentence explaining what changed or why the card still holds, in the language of the passage"
+}
+
+Return ONLY valid JSON.`;
+
+    const response = await this.callAI(prompt);
+    const parsed = JSON.parse(extractJsonText(response));
+    return {
+      isValid: parsed.isValid === true,
+      reason: typeof parsed.reason === 'string' ? parsed.reason : '',
+    };
+  }
+}
+
+/** OpenAI 호환 구조화 출력 파라미터 */
+function openAIResponseFormat(schema?: OutputSchema): Record<string, unknown> {
+  if (!schema) return {};
+  return {
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: 'card_generation', strict: true, schema },
+    },
+  };
+}
+
+/** Anthropic 도구 강제 호출 파라미터 (도구 입력 = 구조화 출력) */
+function anthropicToolParams(schema?: OutputSchema): Record<string, unknown> {
+  if (!schema) return {};
+  return {
+    tools: [{
+      name: CARD_GENERATION_TOOL,
+      description: 'Save the generated flashcards',
+      input_schema: schema,
+    }],
+    tool_choice: { type: 'tool', name: CARD_GENERATION_TOOL },
+  };
+}
+
+/** 구조화 출력 파라미터를 제공자가 거부했는지 (요청 형식 오류) */
+function isStructuredOutputRejection(error: unknown): boolean {
+  if (error instanceof GenerationCancelledError || error instanceof RateLimitError) {
+    return false;
+  }
+  const status = error instanceof AIServiceError ? error.statusCode : undefined;
+  return status === 400 || status === 404 || status === 415 || status === 422;
+}
+
+/** 오류 응답 본문에서 메시지 추출 */
+function extractErrorMessage(body: string): string {
+  try {
+    const data = JSON.parse(body);
+    return data.error?.message || data.message || body;
+  } catch {
+    return body.slice(0, 200);
   }
 }
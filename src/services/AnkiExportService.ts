@@ -0,0 +1,573 @@
+/**
+ * Anki Export Service
+ * Packages LearningCards into an Anki .apkg (legacy schema 11 collection + media)
+ *
+ * - Each LearningCardType maps to its own note type (see utils/anki.ts)
+ * - FSRS memory state is written to cards.data ({ s, d }) as Anki 23.10+ expects
+ * - ReviewLogs become revlog rows so Anki can rebuild the scheduling history
+ */
+
+import { App, TFile } from 'obsidian';
+import { zipSync, strToU8 } from 'fflate';
+import type { Database } from 'sql.js';
+import { DataService } from './DataService';
+import { LearningCard, LearningCardType, Deck } from '../types/learning';
+import { ReviewLog, FSRSCardState, DEFAULT_STUDY_CONFIG, isScheduledReview } from '../types/fsrs';
+import {
+  AnkiModel,
+  AnkiDeck,
+  AnkiCardData,
+  ANKI_CARD_TYPE,
+  ANKI_CARD_QUEUE,
+  ANKI_REVLOG_TYPE,
+  ANKI_FIELD_SEPARATOR,
+} from '../types/anki';
+import {
+  ANKI_SCHEMA_SQL,
+  ANKI_DEFAULT_DECK_ID,
+  DAY_MS,
+  SIL_MODEL_IDS,
+  buildSilModel,
+  buildAnkiDeck,
+  buildDefaultDeckConfig,
+  ankiChecksum,
+  textToAnkiHtml,
+  stripHtml,
+  formatAnkiTags,
+  startOfDay,
+  difficultyToFactor,
+} from '../utils/anki';
+import { loadSqlJs } from '../utils/sqlite';
+import { DataServiceError } from '../types/errors';
+
+/**
+ * Export options
+ */
+export interface AnkiExportOptions {
+  /** Name of the top-level Anki deck */
+  deckName: string;
+  /** Carry FSRS state over (otherwise every card is exported as new) */
+  includeScheduling: boolean;
+  /** Include review history as revlog entries */
+  includeReviewLogs: boolean;
+}
+
+export const DEFAULT_ANKI_EXPORT_OPTIONS: AnkiExportOptions = {
+  deckName: 'Star InfoLearn',
+  includeScheduling: true,
+  includeReviewLogs: true,
+};
+
+/**
+ * Export result
+ */
+export interface AnkiExportResult {
+  /** Zipped .apkg contents */
+  data: Uint8Array;
+  noteCount: number;
+  revlogCount: number;
+  mediaCount: number;
+}
+
+/** Embedded image syntax: ![[file.png|300]] or ![alt](file.png) */
+const WIKI_EMBED_REGEX = /!\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]/g;
+const MARKDOWN_EMBED_REGEX = /!\[[^\]]*\]\(([^)\s]+)\)/g;
+const MEDIA_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'bmp', 'mp3', 'wav', 'ogg', 'm4a'];
+
+export class AnkiExportService {
+  private app: App;
+  private dataService: DataService;
+
+  constructor(app: App, dataService: DataService) {
+    this.app = app;
+    this.dataService = dataService;
+  }
+
+  /**
+   * Build an .apkg package from the given cards
+   */
+  async buildPackage(
+    cards: LearningCard[],
+    options: AnkiExportOptions = DEFAULT_ANKI_EXPORT_OPTIONS
+  ): Promise<AnkiExportResult> {
+    const SQL = await loadSqlJs();
+    const db = new SQL.Database();
+    const now = Date.now();
+
+    try {
+      db.run(ANKI_SCHEMA_SQL);
+
+      // Collection creation time anchors the day numbers of review due dates
+      const earliest = cards.reduce((min, c) => Math.min(min, c.createdAt), now);
+      const crt = startOfDay(earliest);
+
+      // Decks
+      const decks = await this.dataService.loadAllDecks();
+      const { ankiDecks, deckIdByCard } = this.buildDecks(cards, decks, options.deckName, now);
+      const rootDeckId = ankiDecks[0].id;
+
+      // Note types
+      const models: Record<string, AnkiModel> = {};
+      for (const type of Object.keys(SIL_MODEL_IDS) as LearningCardType[]) {
+        const model = buildSilModel(type, rootDeckId, now);
+        models[model.id.toString()] = model;
+      }
+
+      // Media
+      const media = new MediaCollector();
+
+      // Notes & cards
+      const ankiIds = new UniqueIdAllocator();
+      const cardIdMap = new Map<string, number>();
+      const factorByCard = new Map<string, number>();
+      let newPosition = 0;
+
+      for (const card of cards) {
+        const id = ankiIds.allocate(card.createdAt);
+        cardIdMap.set(card.id, id);
+
+        const fields = await this.buildFields(card, media);
+        const flds = fields.join(ANKI_FIELD_SEPARATOR);
+        const sortField = stripHtml(fields[0]);
+        const csum = await ankiChecksum(fields[0]);
+        const mod = Math.floor(card.updatedAt / 1000);
+
+        db.run(
+          'INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')',
+          [id, card.id, SIL_MODEL_IDS[card.type], mod, formatAnkiTags(card.tags), flds, sortField, csum]
+        );
+
+        const state = options.includeScheduling ? card.fsrsState : null;
+        const scheduling = this.buildScheduling(state, crt, newPosition);
+        if (!state || state.state === 'new') {
+          newPosition++;
+        }
+        factorByCard.set(card.id, scheduling.factor);
+
+        db.run(
+          'INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, ?)',
+          [
+            id,
+            id,
+            deckIdByCard.get(card.id) ?? rootDeckId,
+            mod,
+            scheduling.type,
+            scheduling.queue,
+            scheduling.due,
+            scheduling.ivl,
+            scheduling.factor,
+            state?.reps ?? 0,
+            state?.lapses ?? 0,
+            scheduling.left,
+            scheduling.data,
+          ]
+        );
+      }
+
+      // Review history
+      let revlogCount = 0;
+      if (options.includeScheduling && options.includeReviewLogs) {
+        const logs = await this.dataService.loadAllReviewLogs();
+        revlogCount = this.writeRevlog(db, logs, cardIdMap, factorByCard);
+      }
+
+      // Collection row
+      const decksJson: Record<string, AnkiDeck> = {};
+      ankiDecks.forEach(deck => { decksJson[deck.id.toString()] = deck; });
+      const conf = {
+        nextPos: newPosition + 1,
+        estTimes: true,
+        activeDecks: [rootDeckId],
+        sortType: 'noteFld',
+        timeLim: 0,
+        sortBackwards: false,
+        addToCur: true,
+        curDeck: rootDeckId,
+        newSpread: 0,
+        dueCounts: true,
+        curModel: SIL_MODEL_IDS.flashcard,
+        collapseTime: 1200,
+      };
+      const dconf = {
+        '1': buildDefaultDeckConfig(now, DEFAULT_STUDY_CONFIG.learningSteps, DEFAULT_STUDY_CONFIG.relearningSteps),
+      };
+
+      db.run(
+        'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, \'{}\')',
+        [
+          Math.floor(crt / 1000),
+          now,
+          now,
+          JSON.stringify(conf),
+          JSON.stringify(models),
+          JSON.stringify(decksJson),
+          JSON.stringify(dconf),
+        ]
+      );
+
+      const files: Record<string, Uint8Array> = {
+        'collection.anki2': db.export(),
+        media: strToU8(JSON.stringify(media.manifest())),
+      };
+      media.entries().forEach(([key, data]) => { files[key] = data; });
+
+      return {
+        data: zipSync(files),
+        noteCount: cards.length,
+        revlogCount,
+        mediaCount: media.size(),
+      };
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Export cards to an .apkg file in the vault
+   * @returns Vault path of the written file
+   */
+  async exportToVault(
+    cards: LearningCard[],
+    options: AnkiExportOptions = DEFAULT_ANKI_EXPORT_OPTIONS
+  ): Promise<{ path: string; result: AnkiExportResult }> {
+    const result = await this.buildPackage(cards, options);
+    const date = new Date().toISOString().split('T')[0];
+    const baseName = `${options.deckName.replace(/[\\/:*?"<>|]/g, '_')} ${date}`;
+
+    let path = `${baseName}.apkg`;
+    let suffix = 1;
+    while (await this.app.vault.adapter.exists(path)) {
+      path = `${baseName} (${suffix++}).apkg`;
+    }
+
+    try {
+      await this.app.vault.adapter.writeBinary(path, toArrayBuffer(result.data));
+    } catch (error) {
+      throw new DataServiceError(`Failed to write Anki package: ${path}`, 'save', error);
+    }
+
+    return { path, result };
+  }
+
+  /**
+   * Map InfoLearn decks onto Anki decks below the export root
+   */
+  private buildDecks(
+    cards: LearningCard[],
+    decks: Deck[],
+    rootName: string,
+    now: number
+  ): { ankiDecks: AnkiDeck[]; deckIdByCard: Map<string, number> } {
+    const ids = new UniqueIdAllocator();
+    const root = buildAnkiDeck(ids.allocate(now), rootName, now, 'Exported from Star InfoLearn');
+    // Root first so callers can pick it up as the main deck; Anki requires the Default deck too
+    const ankiDecks: AnkiDeck[] = [root, buildAnkiDeck(ANKI_DEFAULT_DECK_ID, 'Default', now)];
+
+    const byId = new Map(decks.map(d => [d.id, d]));
+    const fullName = (deck: Deck): string => {
+      const names: string[] = [];
+      let current: Deck | undefined = deck;
+      const visited = new Set<string>();
+      while (current && !visited.has(current.id)) {
+        visited.add(current.id);
+        names.unshift(current.name.replace(/::/g, ':'));
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+      }
+      return [rootName, ...names].join('::');
+    };
+
+    const ankiIdByDeck = new Map<string, number>();
+    for (const deck of decks) {
+      const ankiDeck = buildAnkiDeck(ids.allocate(deck.createdAt), fullName(deck), now, deck.description);
+      ankiIdByDeck.set(deck.id, ankiDeck.id);
+      ankiDecks.push(ankiDeck);
+    }
+
+    const exported = new Set(cards.map(c => c.id));
+    const deckIdByCard = new Map<string, number>();
+    for (const deck of decks) {
+      for (const cardId of deck.cardIds) {
+        if (exported.has(cardId) && !deckIdByCard.has(cardId)) {
+          deckIdByCard.set(cardId, ankiIdByDeck.get(deck.id)!);
+        }
+      }
+    }
+
+    return { ankiDecks, deckIdByCard };
+  }
+
+  /**
+   * Build the note fields for a card, in the order of SIL_MODEL_FIELDS
+   */
+  private async buildFields(card: LearningCard, media: MediaCollector): Promise<string[]> {
+    const html = async (text: string | undefined) =>
+      this.embedMedia(textToAnkiHtml(text), card.sourceFile, media);
+    const source = textToAnkiHtml(card.sourceFile);
+
+    switch (card.type) {
+      case 'fill_blank':
+        return [
+          await this.embedMedia(this.buildClozeText(card), card.sourceFile, media),
+          await html(card.explanation),
+          source,
+        ];
+
+      case 'multiple_choice': {
+        const options = (card.options || [])
+          .map(o => `<li>${textToAnkiHtml(o.text)}</li>`)
+          .join('');
+        const correct = (card.options || []).filter(o => o.isCorrect).map(o => o.text);
+        return [
+          await html(card.front),
+          options ? `<ol type="A">${options}</ol>` : '',
+          await html(correct.length > 0 ? correct.join('\n') : card.back),
+          await html(card.explanation),
+          source,
+        ];
+      }
+
+      case 'short_answer':
+        return [
+          await html(card.front),
+          await html(card.back),
+          await html(card.hint),
+          await html(card.explanation),
+          source,
+        ];
+
+      case 'flashcard':
+      default:
+        return [
+          await html(card.front),
+          await html(card.back),
+          await html(card.hint),
+          await html(card.explanation),
+          source,
+        ];
+    }
+  }
+
+  /**
+   * Turn a fill_blank card into cloze text. Every blank belongs to c1 because
+   * a LearningCard asks all of its blanks at once.
+   */
+  private buildClozeText(card: LearningCard): string {
+    const answers = card.blanks && card.blanks.length > 0
+      ? card.blanks.map(b => b.answer)
+      : [card.back];
+    const cloze = (answer: string) => `{{c1::${textToAnkiHtml(answer)}}}`;
+
+    const parts = card.front.split(/_{3,}/);
+    if (parts.length > 1) {
+      return parts
+        .map((part, idx) => {
+          if (idx === parts.length - 1) return textToAnkiHtml(part);
+          const answer = answers[Math.min(idx, answers.length - 1)] ?? '';
+          return textToAnkiHtml(part) + cloze(answer);
+        })
+        .join('');
+    }
+
+    // No placeholder in the text: insert blanks at their recorded positions
+    if (card.blanks && card.blanks.length > 0 && card.blanks.every(b => b.position <= card.front.length)) {
+      const sorted = [...card.blanks].sort((a, b) => a.position - b.position);
+      let text = '';
+      let cursor = 0;
+      for (const blank of sorted) {
+        text += textToAnkiHtml(card.front.slice(cursor, blank.position)) + cloze(blank.answer);
+        cursor = blank.position;
+      }
+      return text + textToAnkiHtml(card.front.slice(cursor));
+    }
+
+    return `${textToAnkiHtml(card.front)}<br>${cloze(card.back)}`;
+  }
+
+  /**
+   * Map an FSRS state onto Anki's card columns
+   */
+  private buildScheduling(
+    state: FSRSCardState | null,
+    crt: number,
+    newPosition: number
+  ): { type: number; queue: number; due: number; ivl: number; factor: number; left: number; data: string } {
+    if (!state || state.state === 'new') {
+      return {
+        type: ANKI_CARD_TYPE.NEW,
+        queue: ANKI_CARD_QUEUE.NEW,
+        due: newPosition + 1,
+        ivl: 0,
+        factor: 0,
+        left: 0,
+        data: '',
+      };
+    }
+
+    const factor = difficultyToFactor(state.difficulty);
+    const memory: AnkiCardData = {
+      s: Number(state.stability.toFixed(4)),
+      d: Number(state.difficulty.toFixed(4)),
+    };
+    const data = JSON.stringify(memory);
+
+    if (state.state === 'review') {
+      return {
+        type: ANKI_CARD_TYPE.REVIEW,
+        queue: ANKI_CARD_QUEUE.REVIEW,
+        due: Math.max(0, Math.round((startOfDay(state.nextReview) - crt) / DAY_MS)),
+        ivl: Math.max(1, Math.round(state.scheduledDays)),
+        factor,
+        left: 0,
+        data,
+      };
+    }
+
+    // learning / relearning: due is an epoch timestamp in seconds
+    return {
+      type: state.state === 'learning' ? ANKI_CARD_TYPE.LEARNING : ANKI_CARD_TYPE.RELEARNING,
+      queue: ANKI_CARD_QUEUE.LEARNING,
+      due: Math.floor(state.nextReview / 1000),
+      ivl: state.state === 'relearning' ? Math.max(1, Math.round(state.stability)) : 0,
+      factor,
+      left: 1001,
+      data,
+    };
+  }
+
+  /**
+   * Write review logs as revlog rows
+   */
+  private writeRevlog(
+    db: Database,
+    logs: ReviewLog[],
+    cardIdMap: Map<string, number>,
+    factorByCard: Map<string, number>
+  ): number {
+    const ids = new UniqueIdAllocator();
+    const lastIvl = new Map<string, number>();
+    let count = 0;
+
+    const sorted = [...logs].sort((a, b) => a.timestamp - b.timestamp);
+    for (const log of sorted) {
+      const cid = cardIdMap.get(log.cardId);
+      if (cid === undefined) continue;
+
+      // Positive = days, negative = seconds (learning steps)
+      const ivl = log.stateAfter === 'review'
+        ? Math.max(1, Math.round(log.scheduledDays))
+        : -Math.max(1, Math.round(log.scheduledDays * 86400));
+
+      db.run('INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, ?, ?, ?)', [
+        ids.allocate(log.timestamp),
+        cid,
+        log.rating,
+        ivl,
+        lastIvl.get(log.cardId) ?? 0,
+        factorByCard.get(log.cardId) || 0,
+        Math.round(log.reviewDuration),
+        this.revlogType(log),
+      ]);
+
+      lastIvl.set(log.cardId, ivl);
+      count++;
+    }
+
+    return count;
+  }
+
+  private revlogType(log: ReviewLog): number {
+    if (!isScheduledReview(log)) return ANKI_REVLOG_TYPE.FILTERED;
+    switch (log.stateBefore) {
+      case 'review':
+        return ANKI_REVLOG_TYPE.REVIEW;
+      case 'relearning':
+        return ANKI_REVLOG_TYPE.RELEARNING;
+      default:
+        return ANKI_REVLOG_TYPE.LEARNING;
+    }
+  }
+
+  /**
+   * Replace vault image/audio embeds with Anki media references
+   */
+  private async embedMedia(html: string, sourceFile: string, media: MediaCollector): Promise<string> {
+    const replacements: { match: string; replacement: string }[] = [];
+
+    for (const regex of [WIKI_EMBED_REGEX, MARKDOWN_EMBED_REGEX]) {
+      for (const match of html.matchAll(regex)) {
+        const link = decodeURIComponent(match[1].trim());
+        if (/^https?:/i.test(link)) continue;
+
+        const file = this.app.metadataCache.getFirstLinkpathDest(link, sourceFile);
+        if (!(file instanceof TFile) || !MEDIA_EXTENSIONS.includes(file.extension.toLowerCase())) {
+          continue;
+        }
+
+        const name = await media.add(file, () => this.app.vault.readBinary(file));
+        const isAudio = ['mp3', 'wav', 'ogg', 'm4a'].includes(file.extension.toLowerCase());
+        replacements.push({
+          match: match[0],
+          replacement: isAudio ? `[sound:${name}]` : `<img src="${name}">`,
+        });
+      }
+    }
+
+    return replacements.reduce((text, r) => text.split(r.match).join(r.replacement), html);
+  }
+}
+
+/**
+ * Collects media files for the package (numbered entries + "media" manifest)
+ */
+class MediaCollector {
+  private files = new Map<string, { key: string; name: string; data: Uint8Array }>();
+
+  async add(file: TFile, read: () => Promise<ArrayBuffer>): Promise<string> {
+    const existing = this.files.get(file.path);
+    if (existing) return existing.name;
+
+    // Flatten the vault path into a unique media file name
+    let name = file.name;
+    const taken = new Set(Array.from(this.files.values()).map(f => f.name));
+    let suffix = 1;
+    while (taken.has(name)) {
+      name = `${file.basename}-${suffix++}.${file.extension}`;
+    }
+
+    const data = new Uint8Array(await read());
+    this.files.set(file.path, { key: this.files.size.toString(), name, data });
+    return name;
+  }
+
+  manifest(): Record<string, string> {
+    const manifest: Record<string, string> = {};
+    this.files.forEach(f => { manifest[f.key] = f.name; });
+    return manifest;
+  }
+
+  entries(): [string, Uint8Array][] {
+    return Array.from(this.files.values()).map(f => [f.key, f.data]);
+  }
+
+  size(): number {
+    return this.files.size;
+  }
+}
+
+/**
+ * Anki IDs are millisecond timestamps and must be unique per table
+ */
+class UniqueIdAllocator {
+  private used = new Set<number>();
+
+  allocate(preferred: number): number {
+    let id = Math.floor(preferred);
+    while (this.used.has(id)) id++;
+    this.used.add(id);
+    return id;
+  }
+}
+
+function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
@@ -0,0 +1,623 @@
+/**
+ * Anki Import Service
+ * Reads Anki .apkg / .colpkg packages and converts them into LearningCards
+ *
+ * - Basic / reversed notes → flashcard (front/back follow the card template)
+ * - Cloze notes → fill_blank, one card per cloze number
+ * - Deck tree → Deck records linked through parentId / childIds
+ * - revlog history is replayed through FSRSService.processReview to rebuild FSRSCardState
+ */
+
+import { App, normalizePath } from 'obsidian';
+import { unzipSync, Unzipped } from 'fflate';
+import { decompress } from 'fzstd';
+import type { Database } from 'sql.js';
+import { DataService } from './DataService';
+import { FSRSService } from './FSRSService';
+import { LearningCard, LearningCardType, MCQOption, Deck, createLearningCard } from '../types/learning';
+import { ReviewLog, FSRSCardState, DEFAULT_CARD_STATE, Rating } from '../types/fsrs';
+import {
+  AnkiCardRow,
+  AnkiNoteRow,
+  AnkiRevlogRow,
+  AnkiCardData,
+  AnkiModel,
+  AnkiDeck,
+  AnkiNotetypeRow,
+  AnkiFieldRow,
+  AnkiTemplateRow,
+  AnkiDeckRow,
+  ANKI_CARD_TYPE,
+  ANKI_CARD_QUEUE,
+  ANKI_MODEL_KIND,
+  ANKI_FIELD_SEPARATOR,
+} from '../types/anki';
+import {
+  DAY_MS,
+  ankiHtmlToText,
+  parseAnkiTags,
+  parseClozeText,
+  getSilModelType,
+  getTemplateFieldNames,
+  factorToDifficulty,
+  readProtoFields,
+} from '../utils/anki';
+import { loadSqlJs, queryAll, hasTable } from '../utils/sqlite';
+import { DataServiceError } from '../types/errors';
+
+/**
+ * Import options
+ */
+export interface AnkiImportOptions {
+  /** Rebuild FSRS state from the review history (otherwise cards start as new) */
+  includeScheduling: boolean;
+  /** Copy media files into the vault */
+  importMedia: boolean;
+  /** Vault folder for imported media */
+  mediaFolder: string;
+}
+
+export const DEFAULT_ANKI_IMPORT_OPTIONS: AnkiImportOptions = {
+  includeScheduling: true,
+  importMedia: true,
+  mediaFolder: 'Anki Media',
+};
+
+/**
+ * Import result
+ */
+export interface AnkiImportResult {
+  cards: LearningCard[];
+  decks: Deck[];
+  reviewLogCount: number;
+  /** Cards that already exist in the store */
+  skippedCount: number;
+  mediaCount: number;
+}
+
+/** Note type reduced to what the importer needs (same for schema 11 and 18) */
+interface ImportModel {
+  id: number;
+  isCloze: boolean;
+  fieldNames: string[];
+  templates: { ord: number; qfmt: string; afmt: string }[];
+}
+
+/** Deck reduced to what the importer needs */
+interface ImportDeck {
+  id: number;
+  /** Full name, levels separated by "::" */
+  name: string;
+  filtered: boolean;
+}
+
+const ZSTD_MAGIC = [0x28, 0xb5, 0x2f, 0xfd];
+const SOURCE_ROOT = 'Anki';
+
+export class AnkiImportService {
+  private app: App;
+  private dataService: DataService;
+  private fsrsService: FSRSService;
+
+  constructor(app: App, dataService: DataService, fsrsService: FSRSService) {
+    this.app = app;
+    this.dataService = dataService;
+    this.fsrsService = fsrsService;
+  }
+
+  /**
+   * Import a package and persist cards, decks, review logs and media
+   */
+  async importPackage(
+    data: Uint8Array,
+    options: AnkiImportOptions = DEFAULT_ANKI_IMPORT_OPTIONS
+  ): Promise<AnkiImportResult> {
+    let files: Unzipped;
+    try {
+      files = unzipSync(data);
+    } catch (error) {
+      throw new DataServiceError('Not a valid Anki package', 'load', error);
+    }
+
+    const collection = this.readCollectionFile(files);
+    if (!collection) {
+      throw new DataServiceError('Anki package does not contain a collection', 'load');
+    }
+
+    const SQL = await loadSqlJs();
+    const db = new SQL.Database(collection);
+
+    try {
+      const existingIds = new Set((await this.dataService.loadAllLearningCards()).map(c => c.id));
+      const models = this.readModels(db);
+      const decks = this.readDecks(db);
+      const crt = (queryAll<{ crt: number }>(db, 'SELECT crt FROM col')[0]?.crt ?? 0) * 1000;
+
+      const notes = new Map(
+        queryAll<AnkiNoteRow>(db, 'SELECT id, guid, mid, mod, tags, flds FROM notes').map(n => [n.id, n])
+      );
+      const ankiCards = queryAll<AnkiCardRow>(
+        db,
+        'SELECT id, nid, did, odid, ord, type, queue, due, odue, ivl, factor, reps, lapses, left, data FROM cards ORDER BY id'
+      );
+      const revlogByCard = new Map<number, AnkiRevlogRow[]>();
+      if (options.includeScheduling) {
+        const revlog = queryAll<AnkiRevlogRow>(
+          db,
+          'SELECT id, cid, ease, ivl, lastIvl, factor, time, type FROM revlog ORDER BY id'
+        );
+        for (const row of revlog) {
+          const list = revlogByCard.get(row.cid) ?? [];
+          list.push(row);
+          revlogByCard.set(row.cid, list);
+        }
+      }
+
+      const cards: LearningCard[] = [];
+      const reviewLogs: ReviewLog[] = [];
+      const deckIdByCard = new Map<string, number>();
+      let skippedCount = 0;
+
+      for (const ankiCard of ankiCards) {
+        const note = notes.get(ankiCard.nid);
+        const model = note ? models.get(note.mid) : undefined;
+        if (!note || !model) continue;
+
+        const deckId = ankiCard.odid || ankiCard.did;
+        const deckName = decks.get(deckId)?.name ?? 'Default';
+        const card = this.convertCard(ankiCard, note, model, deckName);
+        if (!card) continue;
+
+        if (existingIds.has(card.id)) {
+          skippedCount++;
+          continue;
+        }
+        existingIds.add(card.id);
+
+        if (options.includeScheduling) {
+          const { state, logs } = this.rebuildState(card.id, ankiCard, revlogByCard.get(ankiCard.id) ?? [], crt);
+          card.fsrsState = state;
+          reviewLogs.push(...logs);
+        }
+
+        cards.push(card);
+        deckIdByCard.set(card.id, deckId);
+      }
+
+      let mediaCount = 0;
+      if (options.importMedia) {
+        mediaCount = await this.importMedia(files, cards, options.mediaFolder);
+      }
+
+      const importedDecks = await this.buildDecks(decks, deckIdByCard);
+
+      await this.dataService.saveLearningCards(cards);
+      for (const deck of importedDecks) {
+        await this.dataService.saveDeck(deck);
+      }
+      if (reviewLogs.length > 0) {
+        await this.dataService.saveReviewLogs(reviewLogs);
+      }
+
+      return {
+        cards,
+        decks: importedDecks,
+        reviewLogCount: reviewLogs.length,
+        skippedCount,
+        mediaCount,
+      };
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Pick the newest collection file in the package.
+   * Packages from Anki 2.1.50+ keep a placeholder collection.anki2 next to the real one.
+   */
+  private readCollectionFile(files: Unzipped): Uint8Array | null {
+    if (files['collection.anki21b']) {
+      return decompress(files['collection.anki21b']);
+    }
+    return files['collection.anki21'] ?? files['collection.anki2'] ?? null;
+  }
+
+  /**
+   * Read note types from col.models (schema 11) or the notetypes tables (schema 18)
+   */
+  private readModels(db: Database): Map<number, ImportModel> {
+    const models = new Map<number, ImportModel>();
+
+    if (hasTable(db, 'notetypes')) {
+      const fields = queryAll<AnkiFieldRow>(db, 'SELECT ntid, ord, name FROM fields ORDER BY ntid, ord');
+      const templates = queryAll<AnkiTemplateRow>(db, 'SELECT ntid, ord, config FROM templates ORDER BY ntid, ord');
+
+      for (const row of queryAll<AnkiNotetypeRow>(db, 'SELECT id, name, config FROM notetypes')) {
+        // NotetypeConfig.kind (field 1): 0 = normal, 1 = cloze
+        const kind = readProtoFields(row.config).get(1)?.[0];
+        models.set(row.id, {
+          id: row.id,
+          isCloze: kind === ANKI_MODEL_KIND.CLOZE,
+          fieldNames: fields.filter(f => f.ntid === row.id).map(f => f.name),
+          templates: templates
+            .filter(t => t.ntid === row.id)
+            .map(t => {
+              // CardTemplateConfig: q_format = 1, a_format = 2
+              const config = readProtoFields(t.config);
+              return { ord: t.ord, qfmt: protoString(config.get(1)?.[0]), afmt: protoString(config.get(2)?.[0]) };
+            }),
+        });
+      }
+      return models;
+    }
+
+    const json = queryAll<{ models: string }>(db, 'SELECT models FROM col')[0]?.models;
+    const parsed: Record<string, AnkiModel> = json ? JSON.parse(json) : {};
+    for (const model of Object.values(parsed)) {
+      models.set(Number(model.id), {
+        id: Number(model.id),
+        isCloze: model.type === ANKI_MODEL_KIND.CLOZE,
+        fieldNames: [...model.flds].sort((a, b) => a.ord - b.ord).map(f => f.name),
+        templates: model.tmpls.map(t => ({ ord: t.ord, qfmt: t.qfmt, afmt: t.afmt })),
+      });
+    }
+    return models;
+  }
+
+  /**
+   * Read decks from col.decks (schema 11) or the decks table (schema 18)
+   */
+  private readDecks(db: Database): Map<number, ImportDeck> {
+    const decks = new Map<number, ImportDeck>();
+
+    if (hasTable(db, 'decks')) {
+      for (const row of queryAll<AnkiDeckRow>(db, 'SELECT id, name, kind FROM decks')) {
+        // DeckKind oneof: normal = 1, filtered = 2
+        decks.set(row.id, {
+          id: row.id,
+          name: row.name.split('\x1f').join('::'),
+          filtered: readProtoFields(row.kind).has(2),
+        });
+      }
+      return decks;
+    }
+
+    const json = queryAll<{ decks: string }>(db, 'SELECT decks FROM col')[0]?.decks;
+    const parsed: Record<string, AnkiDeck> = json ? JSON.parse(json) : {};
+    for (const deck of Object.values(parsed)) {
+      decks.set(Number(deck.id), { id: Number(deck.id), name: deck.name, filtered: deck.dyn === 1 });
+    }
+    return decks;
+  }
+
+  /**
+   * Convert one Anki card into a LearningCard (without scheduling)
+   */
+  private convertCard(
+    ankiCard: AnkiCardRow,
+    note: AnkiNoteRow,
+    model: ImportModel,
+    deckName: string
+  ): LearningCard | null {
+    const fields = note.flds.split(ANKI_FIELD_SEPARATOR);
+    const tags = parseAnkiTags(note.tags);
+    const sourceFile = [SOURCE_ROOT, ...deckName.split('::').map(part => part.replace(/[\\/]/g, '-'))].join('/');
+    const base = {
+      id: `anki_${ankiCard.id}`,
+      sourceFile,
+      tags,
+      createdAt: ankiCard.id,
+    };
+
+    // Packages exported from Star InfoLearn round-trip to the original card
+    const silType = getSilModelType(note.mid);
+    if (silType) {
+      return this.convertSilNote(silType, fields, { ...base, id: note.guid });
+    }
+
+    if (model.isCloze) {
+      const { front, answers, hints } = parseClozeText(ankiHtmlToText(fields[0] ?? ''), ankiCard.ord + 1);
+      if (answers.length === 0) return null;
+      return createLearningCard({
+        ...base,
+        type: 'fill_blank',
+        front,
+        back: answers.map(a => a.answer).join(', '),
+        blanks: answers,
+        hint: hints.length > 0 ? hints.join(', ') : undefined,
+        explanation: ankiHtmlToText(fields.slice(1).join('\n')) || undefined,
+      });
+    }
+
+    // Standard note: the template decides which fields are asked (handles reversed cards)
+    const fieldText = (names: string[]) => names
+      .map(name => model.fieldNames.indexOf(name))
+      .filter(idx => idx >= 0)
+      .map(idx => ankiHtmlToText(fields[idx] ?? ''))
+      .filter(text => text.length > 0)
+      .join('\n');
+
+    const template = model.templates.find(t => t.ord === ankiCard.ord) ?? model.templates[0];
+    const frontNames = template ? getTemplateFieldNames(template.qfmt) : [];
+    const backNames = template
+      ? getTemplateFieldNames(template.afmt).filter(name => !frontNames.includes(name))
+      : [];
+
+    let front = fieldText(frontNames);
+    let back = fieldText(backNames);
+    if (!front || !back) {
+      const [first, second] = fields.map(ankiHtmlToText);
+      const reversed = ankiCard.ord === 1;
+      front = front || (reversed ? second : first) || '';
+      back = back || (reversed ? first : second) || '';
+    }
+    if (!front) return null;
+
+    return createLearningCard({ ...base, type: 'flashcard', front, back });
+  }
+
+  /**
+   * Map the fields of a Star InfoLearn note type back onto a card
+   */
+  private convertSilNote(
+    type: LearningCardType,
+    fields: string[],
+    base: Pick<LearningCard, 'id' | 'sourceFile' | 'tags' | 'createdAt'>
+  ): LearningCard | null {
+    const text = (idx: number) => ankiHtmlToText(fields[idx] ?? '');
+
+    switch (type) {
+      case 'fill_blank': {
+        const { front, answers } = parseClozeText(text(0), 1);
+        if (answers.length === 0) return null;
+        return createLearningCard({
+          ...base,
+          type,
+          sourceFile: text(2) || base.sourceFile,
+          front,
+          back: answers.map(a => a.answer).join(', '),
+          blanks: answers,
+          explanation: text(1) || undefined,
+        });
+      }
+
+      case 'multiple_choice': {
+        const correct = text(2).split('\n').map(line => line.trim());
+        const options: MCQOption[] = Array.from((fields[1] ?? '').matchAll(/<li>([\s\S]*?)<\/li>/gi))
+          .map((match, idx) => {
+            const optionText = ankiHtmlToText(match[1]);
+            return { id: `opt_${idx}`, text: optionText, isCorrect: correct.includes(optionText) };
+          });
+        return createLearningCard({
+          ...base,
+          type,
+          sourceFile: text(4) || base.sourceFile,
+          front: text(0),
+          back: text(2),
+          options,
+          explanation: text(3) || undefined,
+        });
+      }
+
+      case 'short_answer':
+      case 'flashcard':
+      default:
+        return createLearningCard({
+          ...base,
+          type,
+          sourceFile: text(4) || base.sourceFile,
+          front: text(0),
+          back: text(1),
+          hint: text(2) || undefined,
+          explanation: text(3) || undefined,
+        });
+    }
+  }
+
+  /**
+   * Rebuild the FSRS state of a card.
+   * With review history the reviews are replayed; otherwise the state is approximated
+   * from Anki's own columns (FSRS memory state in cards.data, or interval and ease).
+   */
+  private rebuildState(
+    cardId: string,
+    ankiCard: AnkiCardRow,
+    revlog: AnkiRevlogRow[],
+    crt: number
+  ): { state: FSRSCardState; logs: ReviewLog[] } {
+    const logs: ReviewLog[] = [];
+    let state: FSRSCardState = { ...DEFAULT_CARD_STATE, nextReview: Date.now() };
+
+    for (const row of revlog) {
+      if (row.ease === 0) {
+        // Manual entries: "Forget" (ivl 0) resets the card, rescheduling is ignored
+        if (row.ivl === 0) {
+          state = { ...DEFAULT_CARD_STATE, nextReview: row.id };
+        }
+        continue;
+      }
+
+      const rating = Math.max(1, Math.min(4, row.ease)) as Rating;
+      const newState = this.fsrsService.processReview(state, rating, row.id);
+      logs.push({
+        cardId,
+        timestamp: row.id,
+        rating,
+        stateBefore: state.state,
+        stateAfter: newState.state,
+        scheduledDays: newState.scheduledDays,
+        elapsedDays: newState.elapsedDays,
+        reviewDuration: row.time,
+      });
+      state = newState;
+    }
+
+    if (ankiCard.type === ANKI_CARD_TYPE.NEW) {
+      return { state: { ...DEFAULT_CARD_STATE, nextReview: Date.now() }, logs };
+    }
+    if (logs.length > 0) {
+      return { state, logs };
+    }
+
+    return { state: this.approximateState(ankiCard, crt), logs };
+  }
+
+  /**
+   * FSRS state for a card whose history was not exported
+   */
+  private approximateState(ankiCard: AnkiCardRow, crt: number): FSRSCardState {
+    let memory: AnkiCardData = {};
+    try {
+      memory = ankiCard.data ? JSON.parse(ankiCard.data) : {};
+    } catch {
+      // Older clients store non-JSON data
+    }
+
+    const due = ankiCard.odid ? ankiCard.odue : ankiCard.due;
+    const nextReview = ankiCard.queue === ANKI_CARD_QUEUE.LEARNING
+      ? due * 1000 // epoch seconds
+      : crt + due * DAY_MS; // day number since collection creation
+
+    const interval = Math.max(0, ankiCard.ivl);
+    const stateName = ankiCard.type === ANKI_CARD_TYPE.LEARNING ? 'learning'
+      : ankiCard.type === ANKI_CARD_TYPE.RELEARNING ? 'relearning'
+        : 'review';
+
+    const state: FSRSCardState = {
+      ...DEFAULT_CARD_STATE,
+      state: stateName,
+      stability: memory.s ?? Math.max(1, interval),
+      difficulty: memory.d ?? factorToDifficulty(ankiCard.factor),
+      reps: ankiCard.reps,
+      lapses: ankiCard.lapses,
+      nextReview,
+      scheduledDays: interval,
+      lastReview: stateName === 'review' ? nextReview - interval * DAY_MS : null,
+    };
+    state.retrievability = this.fsrsService.getRetrievability(state);
+    return state;
+  }
+
+  /**
+   * Create Deck records for the decks that received cards, including their ancestors
+   */
+  private async buildDecks(decks: Map<number, ImportDeck>, deckIdByCard: Map<string, number>): Promise<Deck[]> {
+    const existing = new Map((await this.dataService.loadAllDecks()).map(d => [d.id, d]));
+    const byName = new Map(Array.from(decks.values()).filter(d => !d.filtered).map(d => [d.name, d]));
+    const result = new Map<string, Deck>();
+    const now = Date.now();
+
+    const ensureDeck = (ankiDeck: ImportDeck): Deck => {
+      const id = `deck_anki_${ankiDeck.id}`;
+      const cached = result.get(id);
+      if (cached) return cached;
+
+      const names = ankiDeck.name.split('::');
+      const deck: Deck = existing.get(id) ?? {
+        id,
+        name: names[names.length - 1],
+        cardIds: [],
+        childIds: [],
+        createdAt: now,
+        lastStudied: null,
+      };
+      result.set(id, deck);
+
+      const parent = names.length > 1 ? byName.get(names.slice(0, -1).join('::')) : undefined;
+      if (parent) {
+        const parentDeck = ensureDeck(parent);
+        deck.parentId = parentDeck.id;
+        if (!parentDeck.childIds.includes(deck.id)) {
+          parentDeck.childIds.push(deck.id);
+        }
+      }
+      return deck;
+    };
+
+    for (const [cardId, ankiDeckId] of deckIdByCard) {
+      const ankiDeck = decks.get(ankiDeckId);
+      if (!ankiDeck) continue;
+      const deck = ensureDeck(ankiDeck);
+      if (!deck.cardIds.includes(cardId)) {
+        deck.cardIds.push(cardId);
+      }
+    }
+
+    return Array.from(result.values());
+  }
+
+  /**
+   * Copy media referenced by the imported cards into the vault
+   */
+  private async importMedia(files: Unzipped, cards: LearningCard[], folder: string): Promise<number> {
+    const manifest = this.readMediaManifest(files['media']);
+    if (manifest.size === 0) return 0;
+
+    const referenced = new Set<string>();
+    const embedRegex = /!\[\[([^\]|]+)\]\]/g;
+    for (const card of cards) {
+      for (const text of [card.front, card.back, card.explanation ?? '', card.hint ?? '']) {
+        for (const match of text.matchAll(embedRegex)) {
+          referenced.add(match[1]);
+        }
+      }
+    }
+
+    const mediaFolder = normalizePath(folder);
+    let count = 0;
+    for (const [key, name] of manifest) {
+      if (!referenced.has(name) || !files[key]) continue;
+
+      const path = normalizePath(`${mediaFolder}/${name}`);
+      if (this.app.vault.getAbstractFileByPath(path)) continue;
+
+      if (!this.app.vault.getAbstractFileByPath(mediaFolder)) {
+        await this.app.vault.createFolder(mediaFolder);
+      }
+      const content = isZstd(files[key]) ? decompress(files[key]) : files[key];
+      await this.app.vault.createBinary(path, toArrayBuffer(content));
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Media manifest: JSON { "0": "name" } in legacy packages,
+   * zstd-compressed protobuf MediaEntries in newer ones (index = zip entry name)
+   */
+  private readMediaManifest(data: Uint8Array | undefined): Map<string, string> {
+    const manifest = new Map<string, string>();
+    if (!data || data.length === 0) return manifest;
+
+    if (isZstd(data)) {
+      const entries = readProtoFields(decompress(data)).get(1) ?? [];
+      entries.forEach((entry, idx) => {
+        if (entry instanceof Uint8Array) {
+          const name = protoString(readProtoFields(entry).get(1)?.[0]);
+          if (name) manifest.set(idx.toString(), name);
+        }
+      });
+      return manifest;
+    }
+
+    try {
+      const parsed: Record<string, string> = JSON.parse(new TextDecoder().decode(data));
+      Object.entries(parsed).forEach(([key, name]) => manifest.set(key, name));
+    } catch {
+      // No usable manifest
+    }
+    return manifest;
+  }
+}
+
+function isZstd(data: Uint8Array): boolean {
+  return ZSTD_MAGIC.every((byte, idx) => data[idx] === byte);
+}
+
+function protoString(value: number | Uint8Array | undefined): string {
+  return value instanceof Uint8Array ? new TextDecoder().decode(value) : '';
+}
+
+function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
@@ -0,0 +1,223 @@
+/**
+ * Backup Service
+ * Rotating snapshots of the learning data with point-in-time restore
+ *
+ * - A snapshot is one JSON file in data/backups holding exportAllData()
+ * - Created once a day on startup, on demand, and before every restore
+ * - Only the newest MAX_BACKUPS snapshots are kept
+ * - backups/index.json keeps card and log counts so listing does not parse every snapshot
+ * - Snapshots record the schema version of each record kind; restoring an older
+ *   snapshot upgrades its records, and records that cannot be upgraded are quarantined
+ */
+
+import { App } from 'obsidian';
+import { DataService, LearningDataBackup } from './DataService';
+import { DataServiceError } from '../types/errors';
+import { readFileSafe, writeFileAtomic } from '../utils/atomicWrite';
+import { DataKind, currentSchemaVersions, migrateRecords } from '../utils/dataSchema';
+import { quarantineRecords } from '../utils/quarantine';
+
+/** Snapshots kept before the oldest are removed */
+const MAX_BACKUPS = 10;
+/** Minimum age of the newest snapshot before startup takes another */
+const DAILY_BACKUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export type BackupReason = 'auto' | 'manual' | 'pre-restore';
+
+/**
+ * Snapshot summary shown in the restore list
+ */
+export interface BackupInfo {
+  fileName: string;
+  createdAt: number;
+  reason: BackupReason;
+  cardCount: number;
+  reviewLogCount: number;
+}
+
+interface BackupFile {
+  version: 1;
+  createdAt: number;
+  reason: BackupReason;
+  /** Missing in snapshots taken before schema versioning (version 0) */
+  schemaVersions?: Record<DataKind, number>;
+  data: LearningDataBackup;
+}
+
+export class BackupService {
+  private app: App;
+  private dataService: DataService;
+
+  constructor(app: App, dataService: DataService) {
+    this.app = app;
+    this.dataService = dataService;
+  }
+
+  private get backupDir(): string {
+    return `${this.dataService.getDataDir()}/backups`;
+  }
+
+  private get indexPath(): string {
+    return `${this.backupDir}/index.json`;
+  }
+
+  /**
+   * Snapshots, newest first
+   */
+  async listBackups(): Promise<BackupInfo[]> {
+    const adapter = this.app.vault.adapter;
+    try {
+      return JSON.parse(await readFileSafe(adapter, this.indexPath));
+    } catch {
+      // Index missing or damaged: rebuild it from the snapshot files
+      return this.rebuildIndex();
+    }
+  }
+
+  /**
+   * Take a snapshot of all learning data and drop the oldest beyond MAX_BACKUPS
+   */
+  async createBackup(reason: BackupReason): Promise<BackupInfo> {
+    const adapter = this.app.vault.adapter;
+    const createdAt = Date.now();
+    const fileName = `backup-${new Date(createdAt).toISOString().replace(/[:.]/g, '-')}.json`;
+    const data = await this.dataService.exportAllData();
+    const backup: BackupFile = { version: 1, createdAt, reason, schemaVersions: currentSchemaVersions(), data };
+
+    try {
+      if (!(await adapter.exists(this.backupDir))) {
+        await adapter.mkdir(this.backupDir);
+      }
+      await writeFileAtomic(adapter, `${this.backupDir}/${fileName}`, JSON.stringify(backup));
+    } catch (error) {
+      throw new DataServiceError('Failed to write backup', 'save', error);
+    }
+
+    const info: BackupInfo = {
+      fileName,
+      createdAt,
+      reason,
+      cardCount: data.cards.length,
+      reviewLogCount: data.reviewLogs.length,
+    };
+    const backups = [info, ...(await this.listBackups()).filter(b => b.fileName !== fileName)];
+    await this.saveIndex(await this.rotate(backups));
+    return info;
+  }
+
+  /**
+   * Take the daily snapshot unless one was taken in the last 24 hours
+   */
+  async createDailyBackup(): Promise<BackupInfo | null> {
+    const latest = (await this.listBackups())[0];
+    if (latest && Date.now() - latest.createdAt < DAILY_BACKUP_INTERVAL_MS) {
+      return null;
+    }
+    return this.createBackup('auto');
+  }
+
+  /**
+   * Replace all learning data with a snapshot
+   * The current data is backed up first, so a restore can itself be undone
+   * (skipped when the cards could not be loaded, since there is nothing to keep).
+   */
+  async restoreBackup(fileName: string): Promise<LearningDataBackup> {
+    const adapter = this.app.vault.adapter;
+    let backup: BackupFile;
+    try {
+      backup = JSON.parse(await readFileSafe(adapter, `${this.backupDir}/${fileName}`));
+    } catch (error) {
+      throw new DataServiceError(`Failed to read backup: ${fileName}`, 'load', error);
+    }
+
+    // Migrate before touching anything, so a snapshot from a newer schema fails without side effects
+    const data = await this.migrateBackup(backup, fileName);
+
+    try {
+      await this.createBackup('pre-restore');
+    } catch (error) {
+      // Cards that did not load cannot be backed up, and restoring is how the user recovers from that
+      if (!(await this.dataService.hasCardLoadError())) throw error;
+      console.warn('Star InfoLearn: restoring without a pre-restore backup, the card store did not load', error);
+    }
+    await this.dataService.importData(data, { replace: true });
+    return data;
+  }
+
+  /**
+   * Upgrade a snapshot's records to the current schema
+   */
+  private async migrateBackup(backup: BackupFile, fileName: string): Promise<LearningDataBackup> {
+    const versions = backup.schemaVersions;
+    const source = `${this.backupDir}/${fileName}`;
+
+    const migrate = async <T>(kind: DataKind, records: T[] | undefined): Promise<T[]> => {
+      const { records: migrated, failed } = migrateRecords<T>(kind, records ?? [], versions?.[kind] ?? 0);
+      await quarantineRecords(this.app.vault.adapter, this.dataService.getDataDir(), source, failed);
+      return migrated;
+    };
+
+    return {
+      ...backup.data,
+      cards: await migrate('card', backup.data.cards),
+      decks: await migrate('deck', backup.data.decks),
+      reviewLogs: await migrate('reviewLog', backup.data.reviewLogs),
+      dailyStats: await migrate('dailyStats', backup.data.dailyStats),
+    };
+  }
+
+  /**
+   * Keep the newest MAX_BACKUPS snapshots and delete the rest
+   */
+  private async rotate(backups: BackupInfo[]): Promise<BackupInfo[]> {
+    const sorted = [...backups].sort((a, b) => b.createdAt - a.createdAt);
+    const kept = sorted.slice(0, MAX_BACKUPS);
+
+    for (const old of sorted.slice(MAX_BACKUPS)) {
+      try {
+        await this.app.vault.adapter.remove(`${this.backupDir}/${old.fileName}`);
+      } catch {
+        console.warn(`Failed to remove old backup ${old.fileName}`);
+      }
+    }
+    return kept;
+  }
+
+  private async saveIndex(backups: BackupInfo[]): Promise<void> {
+    try {
+      await writeFileAtomic(this.app.vault.adapter, this.indexPath, JSON.stringify(backups, null, 2));
+    } catch (error) {
+      throw new DataServiceError('Failed to write backup index', 'save', error);
+    }
+  }
+
+  private async rebuildIndex(): Promise<BackupInfo[]> {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(this.backupDir))) return [];
+
+    const backups: BackupInfo[] = [];
+    const { files } = await adapter.list(this.backupDir);
+    for (const file of files) {
+      const fileName = file.split('/').pop() ?? '';
+      if (!/^backup-.*\.json$/.test(fileName)) continue;
+      try {
+        const backup: BackupFile = JSON.parse(await adapter.read(file));
+        backups.push({
+          fileName,
+          createdAt: backup.createdAt,
+          reason: backup.reason,
+          cardCount: backup.data.cards?.length ?? 0,
+          reviewLogCount: backup.data.reviewLogs?.length ?? 0,
+        });
+      } catch {
+        console.warn(`Skipping unreadable backup ${file}`);
+      }
+    }
+
+    backups.sort((a, b) => b.createdAt - a.createdAt);
+    if (backups.length > 0) {
+      await this.saveIndex(backups);
+    }
+    return backups;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Card Maintenance Service
+ * Keeps cards in step with their source notes
+ *
+ * - Flags cards as orphaned when their note (or folder) is deleted
+ * - Flags cards as "source changed" when the note's content hash differs from
+ *   the sil-source-hash stored at generation time
+ * - Reads the current passage of a card for AI re-check or regeneration
+ */
+
+import { App, TFile } from 'obsidian';
+import { LearningCard } from '../types/learning';
+import { getSourceHash, hasGeneratedCards, hashNoteContent, setSourceHash } from '../utils/frontmatter';
+import { locateSource } from './SourceLinkService';
+
+export class CardMaintenanceService {
+  private app: App;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  /**
+   * Cards whose source was the deleted note or inside the deleted folder, flagged as orphaned
+   */
+  orphanSources(cards: LearningCard[], deletedPath: string): LearningCard[] {
+    return cards
+      .filter(card => card.sourceStatus !== 'orphaned'
+        && (card.sourceFile === deletedPath || card.sourceFile.startsWith(`${deletedPath}/`)))
+      .map(card => ({ ...card, sourceStatus: 'orphaned' as const, updatedAt: Date.now() }));
+  }
+
+  /**
+   * Compare a note with its stored source hash
+   *
+   * When the content changed, the note's unflagged cards are returned flagged as
+   * "changed" and the stored hash is moved forward, so later edits only flag
+   * cards that were kept after review. Notes marked before hashes were stored
+   * get a baseline hash instead.
+   */
+  async detectSourceChange(file: TFile, cards: LearningCard[]): Promise<LearningCard[]> {
+    const sourceCards = cards.filter(card => card.sourceFile === file.path);
+    if (sourceCards.length === 0 || !hasGeneratedCards(file, this.app)) return [];
+
+    const storedHash = getSourceHash(file, this.app);
+    const currentHash = hashNoteContent(await this.app.vault.cachedRead(file));
+    if (storedHash === currentHash) return [];
+
+    await setSourceHash(file, this.app, currentHash);
+    if (!storedHash) return [];
+
+    return sourceCards
+      .filter(card => !card.sourceStatus)
+      .map(card => ({ ...card, sourceStatus: 'changed' as const, updatedAt: Date.now() }));
+  }
+
+  /**
+   * Check every source note of the given cards (e.g. edits made while the plugin was not running)
+   */
+  async scanSources(cards: LearningCard[]): Promise<LearningCard[]> {
+    const changed: LearningCard[] = [];
+    for (const path of new Set(cards.map(card => card.sourceFile))) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile) || file.extension !== 'md') continue;
+      try {
+        changed.push(...await this.detectSourceChange(file, cards));
+      } catch (error) {
+        console.error(`Failed to check source of ${path}:`, error);
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Current text of a card's source note and passage (null when the note is gone)
+   */
+  async readSource(card: LearningCard): Promise<{ content: string; passage: string } | null> {
+    const file = this.app.vault.getAbstractFileByPath(card.sourceFile);
+    if (!(file instanceof TFile)) return null;
+
+    const content = await this.app.vault.cachedRead(file);
+    const range = locateSource(content, card);
+    if (!range) return { content, passage: card.sourceText || content };
+
+    // A block id marks the start of the passage; keep the original span from there
+    const span = card.sourceLines ? card.sourceLines.end - card.sourceLines.start : 0;
+    const end = Math.max(range.end, range.start + span);
+    const passage = content.split('\n').slice(range.start, end + 1).join('\n');
+    return { content, passage };
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Card Store
+ * Journaled card storage with an in-memory index
+ *
+ * Layout in the plugin data directory:
+ * - cards.json   snapshot of all cards (a versioned envelope, see utils/dataSchema)
+ * - cards.jsonl  journal, one line per batch ({ v, put, delete }, v = card schema version)
+ *
+ * A batch is written as a single appended line, so it is applied completely or
+ * not at all: a torn last line left by a crash is ignored on load and dropped by the
+ * compaction that follows. The journal is folded into the snapshot on load and
+ * whenever it grows past COMPACT_AFTER batches.
+ * The previous layout (one cards/<id>.json file per card) is migrated on first load.
+ * Cards from older schema versions are upgraded on load; cards that cannot be
+ * upgraded are moved to quarantine.
+ */
+
+import { DataAdapter } from 'obsidian';
+import { LearningCard } from '../types/learning';
+import { DataServiceError } from '../types/errors';
+import { fileExistsSafe, readJsonSafe, writeFileAtomic } from '../utils/atomicWrite';
+import { createEnvelope, currentSchemaVersion, migrateRecords, openEnvelope } from '../utils/dataSchema';
+import { quarantineFile, quarantineRecords } from '../utils/quarantine';
+
+/** Journal batches kept before they are folded into the snapshot */
+const COMPACT_AFTER = 200;
+
+/**
+ * Cards to write and card ids to remove in one atomic step
+ */
+export interface CardBatch {
+  put?: LearningCard[];
+  delete?: string[];
+}
+
+interface JournalEntry extends CardBatch {
+  v?: number;
+}
+
+export class CardStore {
+  private adapter: DataAdapter;
+  private dir: string;
+
+  private cards = new Map<string, LearningCard>();
+  private bySource = new Map<string, Set<string>>();
+  private byTag = new Map<string, Set<string>>();
+  /** Cards ordered by fsrsState.nextReview (rebuilt lazily after changes) */
+  private reviewOrder: LearningCard[] | null = null;
+
+  private loading: Promise<void> | null = null;
+  private journalBatches = 0;
+  /** Serializes writes so journal lines and compaction never interleave */
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(adapter: DataAdapter, dir: string) {
+    this.adapter = adapter;
+    this.dir = dir;
+  }
+
+  private get snapshotPath(): string {
+    return `${this.dir}/cards.json`;
+  }
+
+  private get journalPath(): string {
+    return `${this.dir}/cards.jsonl`;
+  }
+
+  private get legacyDir(): string {
+    return `${this.dir}/cards`;
+  }
+
+  /**
+   * Load the snapshot and journal once (later calls wait for the first load)
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadFromDisk();
+    }
+    return this.loading;
+  }
+
+  // ============================================
+  // Queries
+  // ============================================
+
+  get size(): number {
+    return this.cards.size;
+  }
+
+  get(cardId: string): LearningCard | null {
+    return this.cards.get(cardId) ?? null;
+  }
+
+  all(): LearningCard[] {
+    return [...this.cards.values()];
+  }
+
+  forSource(sourceFile: string): LearningCard[] {
+    return this.lookup(this.bySource.get(sourceFile));
+  }
+
+  withTag(tag: string): LearningCard[] {
+    return this.lookup(this.byTag.get(tag));
+  }
+
+  /**
+   * Cards with nextReview at or before `time`, earliest first
+   */
+  dueBefore(time: number): LearningCard[] {
+    if (!this.reviewOrder) {
+      this.reviewOrder = this.all().sort((a, b) => a.fsrsState.nextReview - b.fsrsState.nextReview);
+    }
+
+    // Binary search for the first card due after `time`
+    let low = 0;
+    let high = this.reviewOrder.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.reviewOrder[mid].fsrsState.nextReview <= time) low = mid + 1;
+      else high = mid;
+    }
+    return this.reviewOrder.slice(0, low);
+  }
+
+  // ============================================
+  // Writes
+  // ============================================
+
+  /**
+   * Write a batch: it is journaled as one line, then applied to the index
+   */
+  async apply(batch: CardBatch): Promise<void> {
+    if (!batch.put?.length && !batch.delete?.length) return;
+    await this.load();
+
+    await this.enqueue(async () => {
+      const entry = JSON.stringify({
+        t: Date.now(),
+        v: currentSchemaVersion('card'),
+        put: batch.put ?? [],
+        delete: batch.delete ?? [],
+      });
+      try {
+        await this.adapter.append(this.journalPath, `${entry}\n`);
+      } catch (error) {
+        throw new DataServiceError('Failed to write card journal', 'save', error);
+      }
+
+      this.applyToIndex(batch);
+      this.journalBatches++;
+      if (this.journalBatches >= COMPACT_AFTER) {
+        await this.compact();
+      }
+    });
+  }
+
+  /**
+   * Replace every card with `cards` (restore); works even when the current snapshot is unreadable
+   */
+  async replaceAll(cards: LearningCard[]): Promise<void> {
+    await this.enqueue(async () => {
+      try {
+        await this.writeSnapshot(cards);
+        await this.adapter.write(this.journalPath, '');
+      } catch (error) {
+        throw new DataServiceError('Failed to write card snapshot', 'save', error);
+      }
+
+      this.cards.clear();
+      this.bySource.clear();
+      this.byTag.clear();
+      this.applyToIndex({ put: cards });
+      this.journalBatches = 0;
+      this.loading = Promise.resolve();
+    });
+  }
+
+  /**
+   * Fold the journal into the snapshot
+   * Replaying a journal over a newer snapshot is harmless (puts and deletes are idempotent),
+   * so a crash between the two writes loses nothing.
+   */
+  private async compact(): Promise<void> {
+    try {
+      await this.writeSnapshot(this.all());
+      await this.adapter.write(this.journalPath, '');
+      this.journalBatches = 0;
+    } catch (error) {
+      throw new DataServiceError('Failed to write card snapshot', 'save', error);
+    }
+  }
+
+  private async writeSnapshot(cards: LearningCard[]): Promise<void> {
+    await writeFileAtomic(this.adapter, this.snapshotPath, JSON.stringify(createEnvelope('card', cards)));
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(task);
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  // ============================================
+  // Loading & Migration
+  // ============================================
+
+  private async loadFromDisk(): Promise<void> {
+    const hasSnapshot = await fileExistsSafe(this.adapter, this.snapshotPath);
+    if (!hasSnapshot && (await this.adapter.exists(this.legacyDir))) {
+      await this.migrateLegacyLayout();
+    }
+
+    // Rewrite the snapshot when anything was upgraded or quarantined
+    let needsCompaction = false;
+
+    if (await fileExistsSafe(this.adapter, this.snapshotPath)) {
+      let raw: unknown;
+      try {
+        raw = await readJsonSafe(this.adapter, this.snapshotPath);
+      } catch (error) {
+        // Never continue with an empty store: the next compaction would overwrite the cards
+        throw new DataServiceError('Card snapshot is unreadable', 'load', error);
+      }
+      // Unversioned snapshots were { version: 1, cards }
+      const { version, data } = openEnvelope('card', raw, legacy => (legacy as { cards?: unknown })?.cards);
+      if (!Array.isArray(data)) {
+        throw new DataServiceError('Card snapshot has no card list', 'load');
+      }
+      const cards = await this.migrateCards(data, version, this.snapshotPath);
+      this.applyToIndex({ put: cards });
+      needsCompaction = version < currentSchemaVersion('card') || cards.length < data.length;
+    }
+
+    if (await this.adapter.exists(this.journalPath)) {
+      const lines = (await this.adapter.read(this.journalPath)).split('\n');
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        let entry: JournalEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          // Compact even when nothing else was read, so the next append does not land on the fragment
+          console.warn('Star InfoLearn: skipped an incomplete card journal entry');
+          needsCompaction = true;
+          continue;
+        }
+        const put = await this.migrateCards(entry.put ?? [], entry.v ?? 0, this.journalPath);
+        this.applyToIndex({ put, delete: entry.delete });
+        this.journalBatches++;
+      }
+    }
+
+    if (this.journalBatches > 0 || needsCompaction) {
+      await this.enqueue(() => this.compact());
+    }
+  }
+
+  /**
+   * Upgrade stored cards to the current schema, quarantining the ones that fail
+   * @throws DataMigrationError for cards from a newer schema: loading stops so they are not overwritten
+   */
+  private async migrateCards(records: unknown[], version: number, sourcePath: string): Promise<LearningCard[]> {
+    const { records: cards, failed } = migrateRecords<LearningCard>('card', records, version);
+    if (failed.length > 0) {
+      try {
+        await quarantineRecords(this.adapter, this.dir, sourcePath, failed);
+      } catch (error) {
+        // Keep the originals on disk rather than compacting them away
+        throw new DataServiceError('Failed to quarantine cards that could not be migrated', 'load', error);
+      }
+    }
+    return cards;
+  }
+
+  /**
+   * Move cards/<id>.json files into a snapshot; the old folder is kept as cards.migrated
+   */
+  private async migrateLegacyLayout(): Promise<void> {
+    const files = await this.adapter.list(this.legacyDir);
+    const records: unknown[] = [];
+
+    for (const file of files.files) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        records.push(JSON.parse(await this.adapter.read(file)));
+      } catch (error) {
+        await quarantineFile(this.adapter, this.dir, file, `Unreadable card file: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    const cards = await this.migrateCards(records, 0, this.legacyDir);
+
+    try {
+      await this.writeSnapshot(cards);
+      await this.adapter.rename(this.legacyDir, `${this.legacyDir}.migrated`);
+    } catch (error) {
+      throw new DataServiceError('Failed to migrate card files', 'initialize', error);
+    }
+    console.log(`Star InfoLearn: Migrated ${cards.length} cards to ${this.snapshotPath}`);
+  }
+
+  // ============================================
+  // Index
+  // ============================================
+
+  private applyToIndex(batch: CardBatch): void {
+    for (const cardId of batch.delete ?? []) {
+      this.unindex(cardId);
+      this.cards.delete(cardId);
+    }
+    for (const card of batch.put ?? []) {
+      this.unindex(card.id);
+      this.cards.set(card.id, card);
+      addToIndex(this.bySource, card.sourceFile, card.id);
+      for (const tag of card.tags ?? []) {
+        addToIndex(this.byTag, tag, card.id);
+      }
+    }
+    this.reviewOrder = null;
+  }
+
+  private unindex(cardId: string): void {
+    const card = this.cards.get(cardId);
+    if (!card) return;
+    removeFromIndex(this.bySource, card.sourceFile, cardId);
+    for (const tag of card.tags ?? []) {
+      removeFromIndex(this.byTag, tag, cardId);
+    }
+  }
+
+  private lookup(ids: Set<string> | undefined): LearningCard[] {
+    if (!ids) return [];
+    return [...ids].map(id => this.cards.get(id)).filter((card): card is LearningCard => !!card);
+  }
+}
+
+function addToIndex(index: Map<string, Set<string>>, key: string, cardId: string): void {
+  const ids = index.get(key) ?? new Set<string>();
+  ids.add(cardId);
+  index.set(key, ids);
+}
+
+function removeFromIndex(index: Map<string, Set<string>>, key: string, cardId: string): void {
+  const ids = index.get(key);
+  if (!ids) return;
+  ids.delete(cardId);
+  if (ids.size === 0) index.delete(key);
+}
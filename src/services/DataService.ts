@@ -4,29 +4,57 @@
  */
 
 import { App, Vault } from 'obsidian';
-import { LearningCard, Deck, StudyPreferences, DEFAULT_STUDY_PREFERENCES } from '../types/learning';
+import { LearningCard, CardDraft, Deck, StudyPreferences, DEFAULT_STUDY_PREFERENCES } from '../types/learning';
 import { ReviewLog, DailyStats, FSRSParameters, StudySessionConfig, DEFAULT_FSRS_PARAMETERS, DEFAULT_STUDY_CONFIG } from '../types/fsrs';
-import { DataServiceError } from '../types/errors';
+import { DataServiceError, InfoLearnError } from '../types/errors';
+import { CardBatch, CardStore } from './CardStore';
+import { fileExistsSafe, readFileSafe, writeFileAtomic } from '../utils/atomicWrite';
+import { DataKind, createEnvelope, currentSchemaVersion, migrateRecord, migrateRecords, openEnvelope } from '../utils/dataSchema';
+import { quarantineFile, quarantineRecords } from '../utils/quarantine';
+
+/**
+ * Everything exportAllData writes into a backup
+ */
+export interface LearningDataBackup {
+  cards: LearningCard[];
+  decks: Deck[];
+  preferences: StudyPreferences;
+  fsrsParams: FSRSParameters;
+  studyConfig: StudySessionConfig;
+  reviewLogs: ReviewLog[];
+  dailyStats: DailyStats[];
+}
 
 export class DataService {
   private app: App;
   private vault: Vault;
   private dataDir = '.obsidian/plugins/star-infolearn/data';
+  private cardStore: CardStore;
+  /** Pending read-modify-write of each file, so updates of the same file run one after another */
+  private fileQueues = new Map<string, Promise<void>>();
 
   constructor(app: App) {
     this.app = app;
     this.vault = app.vault;
+    this.cardStore = new CardStore(app.vault.adapter, this.dataDir);
   }
 
   /**
-   * Initialize data directory
+   * Initialize data directory and load the card store
    */
   async initialize(): Promise<void> {
     await this.ensureDir(this.dataDir);
-    await this.ensureDir(`${this.dataDir}/cards`);
     await this.ensureDir(`${this.dataDir}/logs`);
     await this.ensureDir(`${this.dataDir}/stats`);
     await this.ensureDir(`${this.dataDir}/decks`);
+
+    try {
+      await this.cardStore.load();
+    } catch (error) {
+      // Writes stay blocked until the store loads, so nothing gets overwritten;
+      // loadAllLearningCards rethrows the error for the plugin to report
+      console.error('Star InfoLearn: Failed to load card store', error);
+    }
   }
 
   // ============================================
@@ -37,20 +65,26 @@ export class DataService {
    * Save a learning card
    */
   async saveLearningCard(card: LearningCard): Promise<void> {
-    try {
-      const filePath = `${this.dataDir}/cards/${card.id}.json`;
-      await this.ensureDir(`${this.dataDir}/cards`);
-      await this.vault.adapter.write(filePath, JSON.stringify(card, null, 2));
-    } catch (error) {
-      throw new DataServiceError(`Failed to save learning card: ${card.id}`, 'save', error);
-    }
+    await this.applyCardBatch({ put: [card] });
   }
 
   /**
-   * Save multiple learning cards
+   * Save multiple learning cards (one atomic write)
    */
   async saveLearningCards(cards: LearningCard[]): Promise<void> {
-    await Promise.all(cards.map(card => this.saveLearningCard(card)));
+    await this.applyCardBatch({ put: cards });
+  }
+
+  /**
+   * Save and delete cards in one atomic write
+   */
+  async applyCardBatch(batch: CardBatch): Promise<void> {
+    try {
+      await this.cardStore.apply(batch);
+    } catch (error) {
+      if (error instanceof DataServiceError) throw error;
+      throw new DataServiceError('Failed to save learning cards', 'save', error);
+    }
   }
 
   /**
@@ -58,9 +92,8 @@ export class DataService {
    */
   async loadLearningCard(cardId: string): Promise<LearningCard | null> {
     try {
-      const filePath = `${this.dataDir}/cards/${cardId}.json`;
-      const content = await this.vault.adapter.read(filePath);
-      return JSON.parse(content);
+      await this.cardStore.load();
+      return this.cardStore.get(cardId);
     } catch {
       return null;
     }
@@ -68,27 +101,27 @@ export class DataService {
 
   /**
    * Load all learning cards
+   * @throws When the card store could not be loaded (an empty list would hide it)
    */
   async loadAllLearningCards(): Promise<LearningCard[]> {
     try {
-      await this.ensureDir(`${this.dataDir}/cards`);
-      const files = await this.vault.adapter.list(`${this.dataDir}/cards`);
-      const cards: LearningCard[] = [];
-
-      for (const file of files.files) {
-        if (file.endsWith('.json')) {
-          try {
-            const content = await this.vault.adapter.read(file);
-            cards.push(JSON.parse(content));
-          } catch {
-            console.warn(`Failed to load card from ${file}`);
-          }
-        }
-      }
+      await this.cardStore.load();
+    } catch (error) {
+      if (error instanceof InfoLearnError) throw error;
+      throw new DataServiceError('Failed to load learning cards', 'load', error);
+    }
+    return this.cardStore.all();
+  }
 
-      return cards;
+  /**
+   * Whether the card store failed to load (restoring a backup is then the way out)
+   */
+  async hasCardLoadError(): Promise<boolean> {
+    try {
+      await this.cardStore.load();
+      return false;
     } catch {
-      return [];
+      return true;
     }
   }
 
@@ -96,19 +129,41 @@ export class DataService {
    * Load learning cards for a specific source file
    */
   async loadCardsForSource(sourceFile: string): Promise<LearningCard[]> {
-    const allCards = await this.loadAllLearningCards();
-    return allCards.filter(card => card.sourceFile === sourceFile);
+    await this.cardStore.load();
+    return this.cardStore.forSource(sourceFile);
+  }
+
+  /**
+   * Load learning cards with a tag
+   */
+  async loadCardsWithTag(tag: string): Promise<LearningCard[]> {
+    await this.cardStore.load();
+    return this.cardStore.withTag(tag);
+  }
+
+  /**
+   * Load cards due at or before `time` (default: now), earliest first
+   */
+  async loadDueCards(time: number = Date.now()): Promise<LearningCard[]> {
+    await this.cardStore.load();
+    return this.cardStore.dueBefore(time);
   }
 
   /**
    * Delete a learning card
    */
   async deleteLearningCard(cardId: string): Promise<void> {
+    await this.deleteLearningCards([cardId]);
+  }
+
+  /**
+   * Delete multiple learning cards (one atomic write)
+   */
+  async deleteLearningCards(cardIds: string[]): Promise<void> {
     try {
-      const filePath = `${this.dataDir}/cards/${cardId}.json`;
-      await this.vault.adapter.remove(filePath);
+      await this.cardStore.apply({ delete: cardIds });
     } catch (error) {
-      throw new DataServiceError(`Failed to delete learning card: ${cardId}`, 'delete', error);
+      throw new DataServiceError(`Failed to delete learning cards: ${cardIds.join(', ')}`, 'delete', error);
     }
   }
 
@@ -118,9 +173,36 @@ export class DataService {
   async updateCardFSRSState(cardId: string, fsrsState: LearningCard['fsrsState']): Promise<void> {
     const card = await this.loadLearningCard(cardId);
     if (card) {
-      card.fsrsState = fsrsState;
-      card.updatedAt = Date.now();
-      await this.saveLearningCard(card);
+      await this.saveLearningCard({ ...card, fsrsState, updatedAt: Date.now() });
+    }
+  }
+
+  // ============================================
+  // Card Drafts - Generation Review Queue
+  // ============================================
+
+  /**
+   * Save the generation review queue
+   */
+  async saveCardDrafts(drafts: CardDraft[]): Promise<void> {
+    try {
+      const filePath = `${this.dataDir}/drafts.json`;
+      await this.writeFile(filePath, JSON.stringify(drafts, null, 2));
+    } catch (error) {
+      throw new DataServiceError('Failed to save card drafts', 'save', error);
+    }
+  }
+
+  /**
+   * Load the generation review queue
+   */
+  async loadCardDrafts(): Promise<CardDraft[]> {
+    try {
+      const filePath = `${this.dataDir}/drafts.json`;
+      const content = await this.readFile(filePath);
+      return JSON.parse(content);
+    } catch {
+      return [];
     }
   }
 
@@ -137,45 +219,81 @@ export class DataService {
       const filePath = `${this.dataDir}/logs/${date}.json`;
       await this.ensureDir(`${this.dataDir}/logs`);
 
-      let logs: ReviewLog[] = [];
-      try {
-        const content = await this.vault.adapter.read(filePath);
-        logs = JSON.parse(content);
-      } catch {
-        // File doesn't exist yet
-      }
-
-      logs.push(log);
-      await this.vault.adapter.write(filePath, JSON.stringify(logs, null, 2));
+      await this.enqueueFileUpdate(filePath, () =>
+        this.updateRecordList<ReviewLog>('reviewLog', filePath, logs => [...logs, log])
+      );
     } catch (error) {
       throw new DataServiceError('Failed to save review log', 'save', error);
     }
   }
 
+  /**
+   * Remove a review log entry (undo of a rating)
+   */
+  async deleteReviewLog(log: ReviewLog): Promise<void> {
+    try {
+      const date = new Date(log.timestamp).toISOString().split('T')[0];
+      const filePath = `${this.dataDir}/logs/${date}.json`;
+      await this.enqueueFileUpdate(filePath, () =>
+        this.updateRecordList<ReviewLog>('reviewLog', filePath, logs => {
+          const remaining = logs.filter(l => !(l.cardId === log.cardId && l.timestamp === log.timestamp));
+          return remaining.length !== logs.length ? remaining : null;
+        })
+      );
+    } catch (error) {
+      throw new DataServiceError('Failed to delete review log', 'delete', error);
+    }
+  }
+
+  /**
+   * Save many review log entries at once (one write per day file)
+   */
+  async saveReviewLogs(logs: ReviewLog[]): Promise<void> {
+    const byDate = new Map<string, ReviewLog[]>();
+    for (const log of logs) {
+      const date = new Date(log.timestamp).toISOString().split('T')[0];
+      const list = byDate.get(date) ?? [];
+      list.push(log);
+      byDate.set(date, list);
+    }
+
+    try {
+      await this.ensureDir(`${this.dataDir}/logs`);
+      for (const [date, dayLogs] of byDate) {
+        const filePath = `${this.dataDir}/logs/${date}.json`;
+        await this.enqueueFileUpdate(filePath, () =>
+          this.updateRecordList<ReviewLog>('reviewLog', filePath, existing =>
+            [...existing, ...dayLogs].sort((a, b) => a.timestamp - b.timestamp)
+          )
+        );
+      }
+    } catch (error) {
+      throw new DataServiceError('Failed to save review logs', 'save', error);
+    }
+  }
+
   /**
    * Load review logs for a specific date range
    */
   async loadReviewLogs(startDate: string, endDate: string): Promise<ReviewLog[]> {
     try {
       await this.ensureDir(`${this.dataDir}/logs`);
-      const files = await this.vault.adapter.list(`${this.dataDir}/logs`);
+      const files = await this.listJsonFiles(`${this.dataDir}/logs`);
       const logs: ReviewLog[] = [];
 
       const start = new Date(startDate).getTime();
       const end = new Date(endDate).getTime() + 24 * 60 * 60 * 1000;
 
-      for (const file of files.files) {
-        if (file.endsWith('.json')) {
-          const dateStr = file.split('/').pop()?.replace('.json', '') || '';
-          const fileDate = new Date(dateStr).getTime();
-
-          if (fileDate >= start && fileDate < end) {
-            try {
-              const content = await this.vault.adapter.read(file);
-              logs.push(...JSON.parse(content));
-            } catch {
-              console.warn(`Failed to load logs from ${file}`);
-            }
+      for (const file of files) {
+        const dateStr = file.split('/').pop()?.replace('.json', '') || '';
+        const fileDate = new Date(dateStr).getTime();
+
+        if (fileDate >= start && fileDate < end) {
+          try {
+            logs.push(...(await this.loadRecordList<ReviewLog>('reviewLog', file)));
+          } catch (error) {
+            // Newer schema: left untouched on disk
+            console.warn(`Skipped review logs in ${file}:`, error);
           }
         }
       }
@@ -186,12 +304,23 @@ export class DataService {
     }
   }
 
+  /**
+   * Load the complete review history
+   */
+  async loadAllReviewLogs(): Promise<ReviewLog[]> {
+    const endDate = new Date().toISOString().split('T')[0];
+    return this.loadReviewLogs('1970-01-01', endDate);
+  }
+
   /**
    * Load review logs for a specific card
+   * @param days Only the last N days (default: the full history)
    */
-  async loadCardReviewLogs(cardId: string, days: number = 30): Promise<ReviewLog[]> {
+  async loadCardReviewLogs(cardId: string, days?: number): Promise<ReviewLog[]> {
     const endDate = new Date().toISOString().split('T')[0];
-    const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const startDate = days === undefined
+      ? '1970-01-01'
+      : new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
     const allLogs = await this.loadReviewLogs(startDate, endDate);
     return allLogs.filter(log => log.cardId === cardId);
   }
@@ -207,7 +336,7 @@ export class DataService {
     try {
       const filePath = `${this.dataDir}/stats/${stats.date}.json`;
       await this.ensureDir(`${this.dataDir}/stats`);
-      await this.vault.adapter.write(filePath, JSON.stringify(stats, null, 2));
+      await this.writeVersioned('dailyStats', filePath, stats);
     } catch (error) {
       throw new DataServiceError(`Failed to save daily stats: ${stats.date}`, 'save', error);
     }
@@ -219,25 +348,19 @@ export class DataService {
   async loadDailyStats(startDate: string, endDate: string): Promise<DailyStats[]> {
     try {
       await this.ensureDir(`${this.dataDir}/stats`);
-      const files = await this.vault.adapter.list(`${this.dataDir}/stats`);
+      const files = await this.listJsonFiles(`${this.dataDir}/stats`);
       const stats: DailyStats[] = [];
 
       const start = new Date(startDate).getTime();
       const end = new Date(endDate).getTime() + 24 * 60 * 60 * 1000;
 
-      for (const file of files.files) {
-        if (file.endsWith('.json')) {
-          const dateStr = file.split('/').pop()?.replace('.json', '') || '';
-          const fileDate = new Date(dateStr).getTime();
-
-          if (fileDate >= start && fileDate < end) {
-            try {
-              const content = await this.vault.adapter.read(file);
-              stats.push(JSON.parse(content));
-            } catch {
-              console.warn(`Failed to load stats from ${file}`);
-            }
-          }
+      for (const file of files) {
+        const dateStr = file.split('/').pop()?.replace('.json', '') || '';
+        const fileDate = new Date(dateStr).getTime();
+
+        if (fileDate >= start && fileDate < end) {
+          const dayStats = await this.loadRecord<DailyStats>('dailyStats', file);
+          if (dayStats) stats.push(dayStats);
         }
       }
 
@@ -258,7 +381,7 @@ export class DataService {
     try {
       const filePath = `${this.dataDir}/decks/${deck.id}.json`;
       await this.ensureDir(`${this.dataDir}/decks`);
-      await this.vault.adapter.write(filePath, JSON.stringify(deck, null, 2));
+      await this.writeVersioned('deck', filePath, deck);
     } catch (error) {
       throw new DataServiceError(`Failed to save deck: ${deck.id}`, 'save', error);
     }
@@ -269,9 +392,7 @@ export class DataService {
    */
   async loadDeck(deckId: string): Promise<Deck | null> {
     try {
-      const filePath = `${this.dataDir}/decks/${deckId}.json`;
-      const content = await this.vault.adapter.read(filePath);
-      return JSON.parse(content);
+      return await this.loadRecord<Deck>('deck', `${this.dataDir}/decks/${deckId}.json`);
     } catch {
       return null;
     }
@@ -283,18 +404,12 @@ export class DataService {
   async loadAllDecks(): Promise<Deck[]> {
     try {
       await this.ensureDir(`${this.dataDir}/decks`);
-      const files = await this.vault.adapter.list(`${this.dataDir}/decks`);
+      const files = await this.listJsonFiles(`${this.dataDir}/decks`);
       const decks: Deck[] = [];
 
-      for (const file of files.files) {
-        if (file.endsWith('.json')) {
-          try {
-            const content = await this.vault.adapter.read(file);
-            decks.push(JSON.parse(content));
-          } catch {
-            console.warn(`Failed to load deck from ${file}`);
-          }
-        }
+      for (const file of files) {
+        const deck = await this.loadRecord<Deck>('deck', file);
+        if (deck) decks.push(deck);
       }
 
       return decks;
@@ -325,7 +440,7 @@ export class DataService {
   async saveStudyPreferences(prefs: StudyPreferences): Promise<void> {
     try {
       const filePath = `${this.dataDir}/study-preferences.json`;
-      await this.vault.adapter.write(filePath, JSON.stringify(prefs, null, 2));
+      await this.writeFile(filePath, JSON.stringify(prefs, null, 2));
     } catch (error) {
       throw new DataServiceError('Failed to save study preferences', 'save', error);
     }
@@ -337,7 +452,7 @@ export class DataService {
   async loadStudyPreferences(): Promise<StudyPreferences> {
     try {
       const filePath = `${this.dataDir}/study-preferences.json`;
-      const content = await this.vault.adapter.read(filePath);
+      const content = await this.readFile(filePath);
       return { ...DEFAULT_STUDY_PREFERENCES, ...JSON.parse(content) };
     } catch {
       return { ...DEFAULT_STUDY_PREFERENCES };
@@ -350,7 +465,7 @@ export class DataService {
   async saveFSRSParameters(params: FSRSParameters): Promise<void> {
     try {
       const filePath = `${this.dataDir}/fsrs-parameters.json`;
-      await this.vault.adapter.write(filePath, JSON.stringify(params, null, 2));
+      await this.writeFile(filePath, JSON.stringify(params, null, 2));
     } catch (error) {
       throw new DataServiceError('Failed to save FSRS parameters', 'save', error);
     }
@@ -362,7 +477,7 @@ export class DataService {
   async loadFSRSParameters(): Promise<FSRSParameters> {
     try {
       const filePath = `${this.dataDir}/fsrs-parameters.json`;
-      const content = await this.vault.adapter.read(filePath);
+      const content = await this.readFile(filePath);
       return { ...DEFAULT_FSRS_PARAMETERS, ...JSON.parse(content) };
     } catch {
       return { ...DEFAULT_FSRS_PARAMETERS };
@@ -375,7 +490,7 @@ export class DataService {
   async saveStudyConfig(config: StudySessionConfig): Promise<void> {
     try {
       const filePath = `${this.dataDir}/study-config.json`;
-      await this.vault.adapter.write(filePath, JSON.stringify(config, null, 2));
+      await this.writeFile(filePath, JSON.stringify(config, null, 2));
     } catch (error) {
       throw new DataServiceError('Failed to save study config', 'save', error);
     }
@@ -387,7 +502,7 @@ export class DataService {
   async loadStudyConfig(): Promise<StudySessionConfig> {
     try {
       const filePath = `${this.dataDir}/study-config.json`;
-      const content = await this.vault.adapter.read(filePath);
+      const content = await this.readFile(filePath);
       return { ...DEFAULT_STUDY_CONFIG, ...JSON.parse(content) };
     } catch {
       return { ...DEFAULT_STUDY_CONFIG };
@@ -400,7 +515,7 @@ export class DataService {
   async saveSettings(settings: unknown): Promise<void> {
     try {
       const filePath = `${this.dataDir}/settings.json`;
-      await this.vault.adapter.write(filePath, JSON.stringify(settings, null, 2));
+      await this.writeFile(filePath, JSON.stringify(settings, null, 2));
     } catch (error) {
       console.error('Error saving settings:', error);
     }
@@ -412,7 +527,7 @@ export class DataService {
   async loadSettings(): Promise<unknown> {
     try {
       const filePath = `${this.dataDir}/settings.json`;
-      const content = await this.vault.adapter.read(filePath);
+      const content = await this.readFile(filePath);
       return JSON.parse(content);
     } catch (error) {
       console.warn('No settings found');
@@ -424,6 +539,162 @@ export class DataService {
   // Utility Methods
   // ============================================
 
+  /**
+   * Plugin data directory (vault-relative)
+   */
+  getDataDir(): string {
+    return this.dataDir;
+  }
+
+  /**
+   * Run a read-modify-write of a file after the ones already queued for it
+   * (a rating, its undo and an import can otherwise overwrite each other's entries)
+   */
+  private enqueueFileUpdate(path: string, task: () => Promise<void>): Promise<void> {
+    const run = (this.fileQueues.get(path) ?? Promise.resolve()).then(task);
+    const settled = run.catch(() => undefined);
+    this.fileQueues.set(path, settled);
+    settled.then(() => {
+      if (this.fileQueues.get(path) === settled) this.fileQueues.delete(path);
+    });
+    return run;
+  }
+
+  /**
+   * Write a data file without ever leaving it half-written (see writeFileAtomic)
+   */
+  private async writeFile(path: string, content: string): Promise<void> {
+    await writeFileAtomic(this.vault.adapter, path, content);
+  }
+
+  /**
+   * Read a data file, recovering from an interrupted write
+   */
+  private async readFile(path: string): Promise<string> {
+    return readFileSafe(this.vault.adapter, path);
+  }
+
+  /**
+   * Write records in a versioned envelope at the current schema version
+   */
+  private async writeVersioned<T>(kind: DataKind, path: string, data: T): Promise<void> {
+    await this.writeFile(path, JSON.stringify(createEnvelope(kind, data), null, 2));
+  }
+
+  /**
+   * Read a versioned file and split it into schema version and payload
+   * @returns null when the file does not exist or was unreadable (and quarantined)
+   */
+  private async readVersioned(kind: DataKind, path: string): Promise<{ version: number; data: unknown } | null> {
+    if (!(await fileExistsSafe(this.vault.adapter, path))) return null;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await this.readFile(path));
+    } catch (error) {
+      await this.quarantine(path, `Unreadable ${kind} file: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+    return openEnvelope(kind, raw);
+  }
+
+  /**
+   * Load a single-record file (deck, daily stats), upgrading it to the current schema
+   * Files that cannot be migrated are quarantined; files from a newer schema are left alone.
+   */
+  private async loadRecord<T>(kind: DataKind, path: string): Promise<T | null> {
+    const file = await this.readVersioned(kind, path);
+    if (!file) return null;
+    if (file.version > currentSchemaVersion(kind)) {
+      console.warn(`Skipped ${path}: written by a newer schema (v${file.version})`);
+      return null;
+    }
+
+    let record: T;
+    try {
+      record = migrateRecord<T>(kind, file.data, file.version);
+    } catch (error) {
+      await this.quarantine(path, error instanceof Error ? error.message : String(error));
+      return null;
+    }
+    if (file.version < currentSchemaVersion(kind)) {
+      await this.writeVersioned(kind, path, record);
+    }
+    return record;
+  }
+
+  /**
+   * Load a multi-record file (review logs), upgrading it to the current schema
+   * Records that cannot be migrated are dropped; the upgraded file is written back through
+   * the file's update queue, which reads it again so entries saved in between are kept.
+   * @throws DataMigrationError when the file comes from a newer schema, so callers never overwrite it
+   */
+  private async loadRecordList<T>(kind: DataKind, path: string): Promise<T[]> {
+    const { records, outdated } = await this.readRecordList<T>(kind, path);
+    if (outdated) {
+      await this.enqueueFileUpdate(path, () => this.updateRecordList<T>(kind, path, () => null));
+    }
+    return records;
+  }
+
+  /**
+   * Read-modify-write of a multi-record file; run only inside enqueueFileUpdate(path, …)
+   * Records that cannot be migrated are quarantined and dropped from the file.
+   * @param update New records to write, or null to keep them (the file is still rewritten when outdated)
+   */
+  private async updateRecordList<T>(kind: DataKind, path: string, update: (records: T[]) => T[] | null): Promise<void> {
+    const { records, failed, outdated } = await this.readRecordList<T>(kind, path);
+    if (failed.length > 0) {
+      await quarantineRecords(this.vault.adapter, this.dataDir, path, failed);
+    }
+    const updated = update(records);
+    if (updated || outdated) {
+      await this.writeVersioned(kind, path, updated ?? records);
+    }
+  }
+
+  /**
+   * Read a multi-record file and migrate its records in memory
+   * @returns outdated when the file needs rewriting (older schema or records that failed to migrate)
+   */
+  private async readRecordList<T>(kind: DataKind, path: string): Promise<{ records: T[]; failed: { record: unknown; error: Error }[]; outdated: boolean }> {
+    const file = await this.readVersioned(kind, path);
+    if (!file) return { records: [], failed: [], outdated: false };
+    if (!Array.isArray(file.data)) {
+      await this.quarantine(path, `Expected a list of ${kind} records`);
+      return { records: [], failed: [], outdated: false };
+    }
+
+    const { records, failed } = migrateRecords<T>(kind, file.data, file.version);
+    return { records, failed, outdated: file.version < currentSchemaVersion(kind) || failed.length > 0 };
+  }
+
+  /**
+   * Move a damaged data file to the quarantine folder
+   */
+  private async quarantine(path: string, reason: string): Promise<void> {
+    try {
+      if (await this.vault.adapter.exists(path)) {
+        await quarantineFile(this.vault.adapter, this.dataDir, path, reason);
+      } else {
+        console.warn(`Failed to load ${path}: ${reason}`);
+      }
+    } catch (error) {
+      throw new DataServiceError(`Failed to quarantine ${path}`, 'save', error);
+    }
+  }
+
+  /**
+   * JSON files in a folder, including files only present as a leftover .tmp/.bak copy
+   */
+  private async listJsonFiles(dir: string): Promise<string[]> {
+    const { files } = await this.vault.adapter.list(dir);
+    const paths = files
+      .map(file => file.replace(/\.json\.(tmp|bak)$/, '.json'))
+      .filter(file => file.endsWith('.json'));
+    return [...new Set(paths)];
+  }
+
   /**
    * Ensure a directory exists
    */
@@ -441,19 +712,15 @@ export class DataService {
   /**
    * Export all learning data for backup
    */
-  async exportAllData(): Promise<{
-    cards: LearningCard[];
-    decks: Deck[];
-    preferences: StudyPreferences;
-    fsrsParams: FSRSParameters;
-    studyConfig: StudySessionConfig;
-  }> {
-    const [cards, decks, preferences, fsrsParams, studyConfig] = await Promise.all([
+  async exportAllData(): Promise<LearningDataBackup> {
+    const [cards, decks, preferences, fsrsParams, studyConfig, reviewLogs, dailyStats] = await Promise.all([
       this.loadAllLearningCards(),
       this.loadAllDecks(),
       this.loadStudyPreferences(),
       this.loadFSRSParameters(),
       this.loadStudyConfig(),
+      this.loadAllReviewLogs(),
+      this.loadDailyStats('1970-01-01', new Date().toISOString().split('T')[0]),
     ]);
 
     return {
@@ -462,23 +729,25 @@ export class DataService {
       preferences,
       fsrsParams,
       studyConfig,
+      reviewLogs,
+      dailyStats,
     };
   }
 
   /**
    * Import learning data from backup
+   * @param options.replace Remove cards, decks, logs and stats that are not in the backup
+   *   (point-in-time restore) instead of merging
    */
-  async importData(data: {
-    cards?: LearningCard[];
-    decks?: Deck[];
-    preferences?: StudyPreferences;
-    fsrsParams?: FSRSParameters;
-    studyConfig?: StudySessionConfig;
-  }): Promise<void> {
+  async importData(data: Partial<LearningDataBackup>, options: { replace?: boolean } = {}): Promise<void> {
+    if (options.replace) {
+      await this.clearForRestore(data);
+    }
+
     const tasks: Promise<void>[] = [];
 
     if (data.cards) {
-      tasks.push(this.saveLearningCards(data.cards));
+      tasks.push(options.replace ? this.cardStore.replaceAll(data.cards) : this.saveLearningCards(data.cards));
     }
     if (data.decks) {
       for (const deck of data.decks) {
@@ -494,10 +763,40 @@ export class DataService {
     if (data.studyConfig) {
       tasks.push(this.saveStudyConfig(data.studyConfig));
     }
+    if (data.reviewLogs) {
+      tasks.push(this.saveReviewLogs(data.reviewLogs));
+    }
+    if (data.dailyStats) {
+      for (const stats of data.dailyStats) {
+        tasks.push(this.saveDailyStats(stats));
+      }
+    }
 
     await Promise.all(tasks);
   }
 
+  /**
+   * Remove the files a restore is about to rewrite, so nothing newer than the backup survives
+   */
+  private async clearForRestore(data: Partial<LearningDataBackup>): Promise<void> {
+    const folders: string[] = [];
+    if (data.decks) folders.push('decks');
+    if (data.reviewLogs) folders.push('logs');
+    if (data.dailyStats) folders.push('stats');
+
+    try {
+      for (const folder of folders) {
+        await this.ensureDir(`${this.dataDir}/${folder}`);
+        const { files } = await this.vault.adapter.list(`${this.dataDir}/${folder}`);
+        for (const file of files) {
+          await this.vault.adapter.remove(file);
+        }
+      }
+    } catch (error) {
+      throw new DataServiceError('Failed to clear data before restore', 'delete', error);
+    }
+  }
+
   /**
    * Get storage statistics
    */
@@ -515,15 +814,12 @@ export class DataService {
     let totalReviewLogs = 0;
     try {
       await this.ensureDir(`${this.dataDir}/logs`);
-      const files = await this.vault.adapter.list(`${this.dataDir}/logs`);
-      for (const file of files.files) {
-        if (file.endsWith('.json')) {
-          try {
-            const content = await this.vault.adapter.read(file);
-            totalReviewLogs += JSON.parse(content).length;
-          } catch {
-            // Skip corrupted files
-          }
+      const files = await this.listJsonFiles(`${this.dataDir}/logs`);
+      for (const file of files) {
+        try {
+          totalReviewLogs += (await this.loadRecordList<ReviewLog>('reviewLog', file)).length;
+        } catch {
+          // Skip files from a newer schema
         }
       }
     } catch {
@@ -0,0 +1,316 @@
+/**
+ * Deck Service
+ * Nested decks: tree queries, card moves and per-deck counts
+ *
+ * - A deck's cards are its own cardIds plus those of all sub-decks
+ * - Deck.settings limits are applied by FSRSService.buildStudyQueue (deckLimits)
+ * - Decks generated from folders or tags get deterministic ids (deck_folder_<hash>,
+ *   deck_tag_<hash>), so running the generation again only adds new cards
+ *
+ * Methods that change decks save them and return every deck they touched, so the
+ * caller can update the store.
+ */
+
+import { App, TFile, getAllTags } from 'obsidian';
+import { Deck, LearningCard } from '../types/learning';
+import { DataService } from './DataService';
+import { hashText } from '../utils/chunking';
+
+/** Card tag added by AI generation (not a subject, so never turned into a deck) */
+const GENERATED_TAG = 'ai-generated';
+
+/**
+ * Card counts for a deck and its sub-decks
+ */
+export interface DeckCounts {
+  total: number;
+  /** Never studied cards */
+  new: number;
+  /** Studied cards that are due now */
+  due: number;
+}
+
+/**
+ * Editable deck fields
+ */
+export interface DeckChanges {
+  name?: string;
+  parentId?: string | null;
+  newCardsPerDay?: number;
+  reviewsPerDay?: number;
+}
+
+export class DeckService {
+  private app: App;
+  private dataService: DataService;
+
+  constructor(app: App, dataService: DataService) {
+    this.app = app;
+    this.dataService = dataService;
+  }
+
+  // ============================================
+  // Tree Queries
+  // ============================================
+
+  /**
+   * Decks without a parent (or whose parent no longer exists), sorted by name
+   */
+  getRootDecks(decks: Deck[]): Deck[] {
+    const ids = new Set(decks.map(d => d.id));
+    return sortByName(decks.filter(d => !d.parentId || !ids.has(d.parentId)));
+  }
+
+  getChildDecks(deck: Deck, decks: Deck[]): Deck[] {
+    return sortByName(decks.filter(d => d.parentId === deck.id));
+  }
+
+  /**
+   * The deck and all of its sub-decks
+   */
+  getSubtree(deckId: string, decks: Deck[]): Deck[] {
+    const result: Deck[] = [];
+    const visit = (id: string) => {
+      const deck = decks.find(d => d.id === id);
+      if (!deck || result.includes(deck)) return;
+      result.push(deck);
+      decks.filter(d => d.parentId === id).forEach(child => visit(child.id));
+    };
+    visit(deckId);
+    return result;
+  }
+
+  /**
+   * Ids of the cards in a deck and its sub-decks
+   */
+  getDeckCardIds(deckId: string, decks: Deck[]): Set<string> {
+    return new Set(this.getSubtree(deckId, decks).flatMap(d => d.cardIds));
+  }
+
+  getDeckCounts(deckId: string, decks: Deck[], cards: LearningCard[], now: number = Date.now()): DeckCounts {
+    const cardIds = this.getDeckCardIds(deckId, decks);
+    const counts: DeckCounts = { total: 0, new: 0, due: 0 };
+    for (const card of cards) {
+      if (!cardIds.has(card.id)) continue;
+      counts.total++;
+      if (card.fsrsState.state === 'new') counts.new++;
+      else if (card.fsrsState.nextReview <= now) counts.due++;
+    }
+    return counts;
+  }
+
+  /**
+   * Cards in a deck and its sub-decks
+   */
+  getDeckCards(deckId: string, decks: Deck[], cards: LearningCard[]): LearningCard[] {
+    const cardIds = this.getDeckCardIds(deckId, decks);
+    return cards.filter(card => cardIds.has(card.id));
+  }
+
+  // ============================================
+  // Deck Editing
+  // ============================================
+
+  async createDeck(fields: DeckChanges & { name: string }, decks: Deck[]): Promise<Deck[]> {
+    const deck: Deck = {
+      id: `deck_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: fields.name,
+      cardIds: [],
+      childIds: [],
+      createdAt: Date.now(),
+      lastStudied: null,
+      settings: {
+        newCardsPerDay: fields.newCardsPerDay,
+        reviewsPerDay: fields.reviewsPerDay,
+      },
+    };
+    const changed = new Map<string, Deck>([[deck.id, deck]]);
+    this.attach(deck, fields.parentId ?? null, decks, changed);
+    return this.saveAll(changed);
+  }
+
+  /**
+   * Rename, move or change the limits of a deck
+   * Moving a deck below itself or one of its sub-decks is ignored.
+   */
+  async updateDeck(deck: Deck, changes: DeckChanges, decks: Deck[]): Promise<Deck[]> {
+    const updated: Deck = {
+      ...deck,
+      name: changes.name ?? deck.name,
+      settings: {
+        newCardsPerDay: 'newCardsPerDay' in changes ? changes.newCardsPerDay : deck.settings?.newCardsPerDay,
+        reviewsPerDay: 'reviewsPerDay' in changes ? changes.reviewsPerDay : deck.settings?.reviewsPerDay,
+      },
+    };
+    const changed = new Map<string, Deck>([[updated.id, updated]]);
+
+    const newParentId = changes.parentId === undefined ? deck.parentId ?? null : changes.parentId;
+    const isOwnSubtree = !!newParentId && this.getSubtree(deck.id, decks).some(d => d.id === newParentId);
+    if (newParentId !== (deck.parentId ?? null) && !isOwnSubtree) {
+      this.detach(updated, decks, changed);
+      this.attach(updated, newParentId, decks, changed);
+    }
+    return this.saveAll(changed);
+  }
+
+  /**
+   * Delete a deck; its sub-decks move up to its parent and its cards are kept
+   */
+  async deleteDeck(deck: Deck, decks: Deck[]): Promise<Deck[]> {
+    const changed = new Map<string, Deck>();
+    this.detach(deck, decks, changed);
+
+    const parentId = deck.parentId ?? null;
+    for (const child of decks.filter(d => d.parentId === deck.id)) {
+      const moved: Deck = { ...child, parentId: undefined };
+      changed.set(moved.id, moved);
+      this.attach(moved, parentId, decks, changed);
+    }
+
+    await this.dataService.deleteDeck(deck.id);
+    return this.saveAll(changed);
+  }
+
+  /**
+   * Move cards into a deck
+   * @param fromDeckId Deck to take the cards out of (null: only add them)
+   */
+  async moveCards(cardIds: string[], fromDeckId: string | null, toDeckId: string, decks: Deck[]): Promise<Deck[]> {
+    if (fromDeckId === toDeckId) return [];
+    const changed = new Map<string, Deck>();
+
+    const target = decks.find(d => d.id === toDeckId);
+    if (!target) return [];
+    changed.set(target.id, { ...target, cardIds: [...new Set([...target.cardIds, ...cardIds])] });
+
+    const source = fromDeckId ? decks.find(d => d.id === fromDeckId) : undefined;
+    if (source) {
+      changed.set(source.id, { ...source, cardIds: source.cardIds.filter(id => !cardIds.includes(id)) });
+    }
+    return this.saveAll(changed);
+  }
+
+  async markStudied(deck: Deck): Promise<Deck[]> {
+    return this.saveAll(new Map([[deck.id, { ...deck, lastStudied: Date.now() }]]));
+  }
+
+  // ============================================
+  // Generated Decks
+  // ============================================
+
+  /**
+   * One nested deck per folder that contains card sources; each card goes into its note's folder deck
+   */
+  async createDecksFromFolders(cards: LearningCard[], decks: Deck[]): Promise<Deck[]> {
+    const changed = new Map<string, Deck>();
+    for (const card of cards) {
+      const folder = card.sourceFile.split('/').slice(0, -1);
+      if (folder.length === 0) continue;
+      const deck = this.ensurePath('folder', folder, decks, changed);
+      addCard(deck, card.id);
+    }
+    return this.saveAll(changed);
+  }
+
+  /**
+   * One deck per tag of the source note or card; nested tags (#a/b) become nested decks
+   */
+  async createDecksFromTags(cards: LearningCard[], decks: Deck[]): Promise<Deck[]> {
+    const changed = new Map<string, Deck>();
+    for (const card of cards) {
+      for (const tag of this.getCardTags(card)) {
+        const deck = this.ensurePath('tag', tag.split('/').filter(Boolean), decks, changed);
+        addCard(deck, card.id);
+      }
+    }
+    return this.saveAll(changed);
+  }
+
+  /**
+   * Tags of a card and its source note, without '#' and the generation tag
+   */
+  getCardTags(card: LearningCard): string[] {
+    const file = this.app.vault.getAbstractFileByPath(card.sourceFile);
+    const cache = file instanceof TFile ? this.app.metadataCache.getFileCache(file) : null;
+    const noteTags = cache ? getAllTags(cache) ?? [] : [];
+
+    const tags = [...noteTags, ...card.tags]
+      .map(tag => tag.replace(/^#/, ''))
+      .filter(tag => tag && tag !== GENERATED_TAG);
+    return [...new Set(tags)];
+  }
+
+  /**
+   * Find or create the nested decks for a folder path or tag path
+   * @returns The deepest deck (already in `changed`)
+   */
+  private ensurePath(kind: 'folder' | 'tag', segments: string[], decks: Deck[], changed: Map<string, Deck>): Deck {
+    let parent: Deck | null = null;
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const id = `deck_${kind}_${hashText(segments.slice(0, depth).join('/'))}`;
+      let deck = changed.get(id) ?? decks.find(d => d.id === id);
+      if (!deck) {
+        deck = {
+          id,
+          name: segments[depth - 1],
+          cardIds: [],
+          childIds: [],
+          createdAt: Date.now(),
+          lastStudied: null,
+        };
+        this.attach(deck, parent?.id ?? null, decks, changed);
+      }
+      deck = changed.get(id) ?? { ...deck, cardIds: [...deck.cardIds] };
+      changed.set(id, deck);
+      parent = deck;
+    }
+    return parent as Deck;
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  /**
+   * Set a deck's parent and add it to the parent's childIds
+   */
+  private attach(deck: Deck, parentId: string | null, decks: Deck[], changed: Map<string, Deck>): void {
+    deck.parentId = parentId ?? undefined;
+    changed.set(deck.id, deck);
+    if (!parentId) return;
+
+    const parent = changed.get(parentId) ?? decks.find(d => d.id === parentId);
+    if (parent && !parent.childIds.includes(deck.id)) {
+      changed.set(parent.id, { ...parent, childIds: [...parent.childIds, deck.id] });
+    }
+  }
+
+  /**
+   * Remove a deck from its parent's childIds
+   */
+  private detach(deck: Deck, decks: Deck[], changed: Map<string, Deck>): void {
+    if (!deck.parentId) return;
+    const parent = changed.get(deck.parentId) ?? decks.find(d => d.id === deck.parentId);
+    if (parent) {
+      changed.set(parent.id, { ...parent, childIds: parent.childIds.filter(id => id !== deck.id) });
+    }
+  }
+
+  private async saveAll(changed: Map<string, Deck>): Promise<Deck[]> {
+    const updated = [...changed.values()];
+    for (const deck of updated) {
+      await this.dataService.saveDeck(deck);
+    }
+    return updated;
+  }
+}
+
+function sortByName(decks: Deck[]): Deck[] {
+  return [...decks].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function addCard(deck: Deck, cardId: string): void {
+  if (!deck.cardIds.includes(cardId)) {
+    deck.cardIds.push(cardId);
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * FSRS Optimizer Service
+ * Fits the 19 FSRS weights to the user's own review history
+ *
+ * - Each card's ReviewLog sequence is replayed through FSRSService, so the fitted
+ *   weights describe exactly the model that schedules the cards
+ * - Loss: binary cross-entropy between predicted retrievability and recall (rating > Again)
+ *   for every review of a card in the review state
+ * - Adam on mini-batches of cards; gradients by central differences
+ * - Runs fully offline and yields to the UI between steps
+ */
+
+import { FSRSService } from './FSRSService';
+import {
+  FSRSParameters,
+  FSRSCardState,
+  DEFAULT_CARD_STATE,
+  ReviewLog,
+  StudySessionConfig,
+  RATING,
+  isScheduledReview,
+} from '../types/fsrs';
+import { InfoLearnError } from '../types/errors';
+
+/**
+ * Optimizer options
+ */
+export interface FSRSOptimizerOptions {
+  /** Number of Adam steps */
+  iterations: number;
+  /** Adam learning rate */
+  learningRate: number;
+  /** Cards per mini-batch */
+  batchSize: number;
+  /** Called after every step */
+  onProgress?: (progress: FSRSOptimizerProgress) => void;
+}
+
+export const DEFAULT_OPTIMIZER_OPTIONS: FSRSOptimizerOptions = {
+  iterations: 150,
+  learningRate: 0.04,
+  batchSize: 256,
+};
+
+export interface FSRSOptimizerProgress {
+  iteration: number;
+  iterations: number;
+  /** Loss of the current mini-batch */
+  batchLoss: number;
+}
+
+/**
+ * Optimizer result
+ */
+export interface FSRSOptimizerResult {
+  /** Fitted weights (w[0] to w[18]) */
+  weights: number[];
+  /** Log-loss of the current weights */
+  lossBefore: number;
+  /** Log-loss of the fitted weights */
+  lossAfter: number;
+  /** Cards with a complete history */
+  cardCount: number;
+  /** Reviews that contributed to the loss */
+  reviewCount: number;
+}
+
+/** Minimum number of review-state reviews before fitting makes sense */
+export const MIN_OPTIMIZER_REVIEWS = 100;
+
+/**
+ * Allowed range of every weight (FSRS-4.5 clamps)
+ */
+const WEIGHT_BOUNDS: [number, number][] = [
+  [0.01, 100], [0.01, 100], [0.01, 100], [0.01, 100],
+  [1, 10], [0.001, 4], [0.001, 4], [0.001, 0.75],
+  [0, 4.5], [0, 0.8], [0.001, 3.5], [0.001, 5],
+  [0.001, 0.25], [0.001, 0.9], [0, 4], [0, 1],
+  [1, 6], [0, 2], [0, 2],
+];
+
+const ADAM_BETA1 = 0.9;
+const ADAM_BETA2 = 0.999;
+const ADAM_EPSILON = 1e-8;
+const EPSILON = 1e-6;
+
+export class FSRSOptimizerService {
+  /**
+   * Fit the weights to the given review logs
+   */
+  async optimize(
+    logs: ReviewLog[],
+    parameters: FSRSParameters,
+    config: StudySessionConfig,
+    options: Partial<FSRSOptimizerOptions> = {}
+  ): Promise<FSRSOptimizerResult> {
+    const opts = { ...DEFAULT_OPTIMIZER_OPTIONS, ...options };
+    const dataset = this.buildDataset(logs);
+    const reviewCount = dataset.reduce((sum, seq) => sum + seq.filter(l => l.stateBefore === 'review').length, 0);
+
+    if (reviewCount < MIN_OPTIMIZER_REVIEWS) {
+      throw new InfoLearnError(
+        `Not enough reviews to optimize (${reviewCount}/${MIN_OPTIMIZER_REVIEWS})`,
+        'INSUFFICIENT_REVIEWS'
+      );
+    }
+
+    const lossBefore = this.computeLoss(parameters.w, dataset, parameters, config).loss;
+
+    let weights = this.clampWeights(parameters.w);
+    const m = new Array(weights.length).fill(0);
+    const v = new Array(weights.length).fill(0);
+
+    for (let step = 1; step <= opts.iterations; step++) {
+      const batch = sampleBatch(dataset, opts.batchSize);
+      const { loss, gradient } = this.computeGradient(weights, batch, parameters, config);
+
+      // Adam update, projected back into the allowed ranges
+      weights = this.clampWeights(weights.map((w, i) => {
+        m[i] = ADAM_BETA1 * m[i] + (1 - ADAM_BETA1) * gradient[i];
+        v[i] = ADAM_BETA2 * v[i] + (1 - ADAM_BETA2) * gradient[i] * gradient[i];
+        const mHat = m[i] / (1 - Math.pow(ADAM_BETA1, step));
+        const vHat = v[i] / (1 - Math.pow(ADAM_BETA2, step));
+        return w - opts.learningRate * mHat / (Math.sqrt(vHat) + ADAM_EPSILON);
+      }));
+
+      opts.onProgress?.({ iteration: step, iterations: opts.iterations, batchLoss: loss });
+
+      // Keep the UI responsive
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    const lossAfter = this.computeLoss(weights, dataset, parameters, config).loss;
+
+    return {
+      weights: weights.map(w => Number(w.toFixed(4))),
+      lossBefore,
+      lossAfter,
+      cardCount: dataset.length,
+      reviewCount,
+    };
+  }
+
+  /**
+   * Group logs into per-card sequences that start with the first review of a new card
+   */
+  private buildDataset(logs: ReviewLog[]): ReviewLog[][] {
+    const byCard = new Map<string, ReviewLog[]>();
+    // Custom study reviews did not change the card's memory state in the scheduler
+    for (const log of logs.filter(isScheduledReview)) {
+      const list = byCard.get(log.cardId) ?? [];
+      list.push(log);
+      byCard.set(log.cardId, list);
+    }
+
+    const dataset: ReviewLog[][] = [];
+    byCard.forEach(sequence => {
+      sequence.sort((a, b) => a.timestamp - b.timestamp);
+      // Without the first review the initial stability and difficulty are unknown
+      if (sequence[0].stateBefore === 'new' && sequence.length > 1) {
+        dataset.push(sequence);
+      }
+    });
+    return dataset;
+  }
+
+  /**
+   * Mean log-loss of the predicted retrievability over all review-state reviews
+   */
+  private computeLoss(
+    weights: number[],
+    dataset: ReviewLog[][],
+    parameters: FSRSParameters,
+    config: StudySessionConfig
+  ): { loss: number; count: number } {
+    const fsrs = new FSRSService({ ...parameters, w: weights, enableFuzz: false }, config);
+    let total = 0;
+    let count = 0;
+
+    for (const sequence of dataset) {
+      let state: FSRSCardState = { ...DEFAULT_CARD_STATE };
+      for (const log of sequence) {
+        if (state.state === 'review') {
+          const r = Math.min(1 - EPSILON, Math.max(EPSILON, fsrs.getRetrievability(state, log.timestamp)));
+          const recalled = log.rating !== RATING.AGAIN;
+          total -= recalled ? Math.log(r) : Math.log(1 - r);
+          count++;
+        }
+        state = fsrs.processReview(state, log.rating, log.timestamp);
+      }
+    }
+
+    return { loss: count > 0 ? total / count : 0, count };
+  }
+
+  /**
+   * Loss and its gradient by central differences
+   */
+  private computeGradient(
+    weights: number[],
+    batch: ReviewLog[][],
+    parameters: FSRSParameters,
+    config: StudySessionConfig
+  ): { loss: number; gradient: number[] } {
+    const loss = this.computeLoss(weights, batch, parameters, config).loss;
+    const gradient = weights.map((w, i) => {
+      const h = 1e-3 * Math.max(1, Math.abs(w));
+      const plus = [...weights];
+      const minus = [...weights];
+      plus[i] = w + h;
+      minus[i] = w - h;
+      const lossPlus = this.computeLoss(plus, batch, parameters, config).loss;
+      const lossMinus = this.computeLoss(minus, batch, parameters, config).loss;
+      return (lossPlus - lossMinus) / (2 * h);
+    });
+    return { loss, gradient };
+  }
+
+  private clampWeights(weights: number[]): number[] {
+    return weights.map((w, i) => {
+      const [min, max] = WEIGHT_BOUNDS[i] ?? [-Infinity, Infinity];
+      return Math.min(max, Math.max(min, w));
+    });
+  }
+}
+
+/**
+ * Random subset of cards (the whole dataset when it is small)
+ */
+function sampleBatch<T>(dataset: T[], size: number): T[] {
+  if (dataset.length <= size) return dataset;
+  const shuffled = [...dataset];
+  for (let i = shuffled.length - 1; i > shuffled.length - 1 - size; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.slice(shuffled.length - size);
+}
@@ -15,10 +15,14 @@ import {
   FSRSCardState,
   DEFAULT_CARD_STATE,
   ReviewLog,
+  CustomStudyMode,
+  isScheduledReview,
   SchedulingInfo,
   SchedulingCards,
   StudySession,
   ReviewQueueItem,
+  DailyUsage,
+  StudyQueueOptions,
   StudySessionConfig,
   DEFAULT_STUDY_CONFIG,
   DailyStats,
@@ -26,6 +30,8 @@ import {
 } from '../types/fsrs';
 import { LearningCard } from '../types/learning';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * FSRS Service - Core spaced repetition scheduling
  */
@@ -115,6 +121,15 @@ export class FSRSService {
     return Math.exp(factor * elapsedDays / stability);
   }
 
+  /**
+   * Current probability of recall for a card
+   */
+  getRetrievability(cardState: FSRSCardState, now?: number): number {
+    if (!cardState.lastReview) return 0;
+    const elapsedDays = ((now ?? Date.now()) - cardState.lastReview) / (1000 * 60 * 60 * 24);
+    return this.calculateRetrievability(Math.max(0, elapsedDays), cardState.stability);
+  }
+
   /**
    * Calculate new stability after a successful review (rating >= 2)
    * S'(D, S, R, G) formula from FSRS-4.5
@@ -185,19 +200,75 @@ export class FSRSService {
   }
 
   /**
-   * Apply fuzzing to interval for better distribution
+   * Pick the final interval (days) for a review due `interval` days from now
+   * - Easy days are skipped whenever the fuzz range has another day
+   * - With fuzz on, load balancing picks the day with the fewest due cards in `workload`
+   *   (ties: closest to the interval), otherwise a random day in the range
+   * - With fuzz off, the interval itself unless it falls on an easy day
+   * @param workload Due cards per date (see getDueCountsByDate); left out for replays
    */
-  private applyFuzz(interval: number): number {
-    if (!this.parameters.enableFuzz || interval < 2.5) {
-      return Math.round(interval);
+  private applyFuzz(interval: number, now: number, workload?: Map<string, number>): number {
+    if (interval < 2.5) {
+      return Math.max(1, Math.round(interval));
+    }
+
+    const [minDays, maxDays] = this.getFuzzRange(interval);
+    const range = Array.from({ length: maxDays - minDays + 1 }, (_, i) => minDays + i);
+    const easyDays = this.config.easyDays;
+    // Local calendar day of the due date, the same day the workload is counted under
+    const dueDay = (days: number) => {
+      const date = new Date(now + days * DAY_MS);
+      date.setHours(0, 0, 0, 0);
+      return date;
+    };
+    const dateKey = (days: number) => toDateKey(dueDay(days).getTime());
+    const isEasyDay = (days: number) => easyDays.includes(dueDay(days).getDay());
+    const regularDays = range.filter(days => !isEasyDay(days));
+    const candidates = regularDays.length > 0 ? regularDays : range;
+    const distance = (days: number) => Math.abs(days - interval);
+
+    if (!this.parameters.enableFuzz) {
+      const rounded = Math.min(Math.round(interval), this.parameters.maximumInterval);
+      if (!isEasyDay(rounded) || regularDays.length === 0) return rounded;
+      return candidates.reduce((best, days) => (distance(days) < distance(best) ? days : best));
+    }
+
+    if (this.config.loadBalancing && workload) {
+      const load = (days: number) => workload.get(dateKey(days)) ?? 0;
+      return candidates.reduce((best, days) => {
+        const diff = load(days) - load(best);
+        return diff < 0 || (diff === 0 && distance(days) < distance(best)) ? days : best;
+      });
     }
 
-    // Fuzz range: smaller intervals get less fuzz
-    const fuzzFactor = Math.min(1, interval / 100);
-    const fuzzRange = interval * 0.05 * fuzzFactor;
-    const fuzz = (Math.random() - 0.5) * 2 * fuzzRange;
+    return candidates[Math.floor(Math.random() * candidates.length)];
+  }
+
+  /**
+   * Days an interval may move to: ±1 day plus 15% of the part up to 7 days,
+   * 10% of the part from 7 to 20 days and 5% of the rest (at least 2 days)
+   */
+  private getFuzzRange(interval: number): [number, number] {
+    const delta = 1
+      + 0.15 * Math.max(0, Math.min(interval, 7) - 2.5)
+      + 0.1 * Math.max(0, Math.min(interval, 20) - 7)
+      + 0.05 * Math.max(0, interval - 20);
+    const maxDays = Math.min(Math.round(interval + delta), this.parameters.maximumInterval);
+    const minDays = Math.min(Math.max(2, Math.round(interval - delta)), maxDays);
+    return [minDays, maxDays];
+  }
 
-    return Math.max(1, Math.round(interval + fuzz));
+  /**
+   * Studied cards per local due date (YYYY-MM-DD), for load balancing
+   */
+  getDueCountsByDate(cards: LearningCard[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const card of cards) {
+      if (card.fsrsState.state === 'new') continue;
+      const date = toDateKey(card.fsrsState.nextReview);
+      counts.set(date, (counts.get(date) ?? 0) + 1);
+    }
+    return counts;
   }
 
   /**
@@ -223,14 +294,25 @@ export class FSRSService {
     return `${years}y`;
   }
 
+  /**
+   * Rating suggested for a graded answer (score 0-1)
+   * Below 0.5 Again, below 0.75 Hard, below 0.95 Good, otherwise Easy
+   */
+  suggestRating(score: number): Rating {
+    if (score < 0.5) return RATING.AGAIN;
+    if (score < 0.75) return RATING.HARD;
+    if (score < 0.95) return RATING.GOOD;
+    return RATING.EASY;
+  }
+
   /**
    * Get scheduling options for all ratings
    */
-  getSchedulingCards(cardState: FSRSCardState, now?: number): SchedulingCards {
+  getSchedulingCards(cardState: FSRSCardState, now?: number, workload?: Map<string, number>): SchedulingCards {
     const currentTime = now ?? Date.now();
 
     const createSchedulingInfo = (rating: Rating): SchedulingInfo => {
-      const newState = this.processReview(cardState, rating, currentTime);
+      const newState = this.processReview(cardState, rating, currentTime, workload);
       return {
         rating,
         newState,
@@ -250,11 +332,13 @@ export class FSRSService {
   /**
    * Process a review and return the new card state
    * Main scheduling algorithm
+   * @param workload Due cards per date, used by load balancing (see getDueCountsByDate)
    */
   processReview(
     cardState: FSRSCardState,
     rating: Rating,
-    now?: number
+    now?: number,
+    workload?: Map<string, number>
   ): FSRSCardState {
     const currentTime = now ?? Date.now();
     const elapsedDays = cardState.lastReview
@@ -269,14 +353,14 @@ export class FSRSService {
     // Handle based on current state
     switch (cardState.state) {
       case 'new':
-        return this.processNewCard(newState, rating, currentTime);
+        return this.processNewCard(newState, rating, currentTime, workload);
 
       case 'learning':
       case 'relearning':
-        return this.processLearningCard(newState, rating, currentTime);
+        return this.processLearningCard(newState, rating, currentTime, workload);
 
       case 'review':
-        return this.processReviewCard(newState, rating, currentTime, elapsedDays);
+        return this.processReviewCard(newState, rating, currentTime, elapsedDays, workload);
 
       default:
         return newState;
@@ -285,80 +369,103 @@ export class FSRSService {
 
   /**
    * Process a new card
+   * Again/Hard start the learning steps, Good moves to the second step (or graduates
+   * when there is none), Easy graduates immediately.
    */
   private processNewCard(
     state: FSRSCardState,
     rating: Rating,
-    now: number
+    now: number,
+    workload?: Map<string, number>
   ): FSRSCardState {
     state.difficulty = this.initDifficulty(rating);
     state.stability = this.initStability(rating);
     state.reps = 1;
+    state.retrievability = this.calculateRetrievability(0, state.stability);
 
-    if (rating === RATING.AGAIN) {
-      // Stay in learning with first step
-      state.state = 'learning';
-      state.scheduledDays = this.config.learningSteps[0] / (24 * 60);
-    } else if (rating === RATING.HARD) {
-      // Learning with second step or first if only one
-      state.state = 'learning';
-      const stepIndex = Math.min(1, this.config.learningSteps.length - 1);
-      state.scheduledDays = this.config.learningSteps[stepIndex] / (24 * 60);
-    } else if (rating === RATING.GOOD) {
-      // Graduate to review
-      state.state = 'review';
-      state.scheduledDays = this.config.graduatingInterval;
-    } else {
-      // Easy - graduate with bonus interval
-      state.state = 'review';
-      state.scheduledDays = this.config.easyInterval;
+    const steps = this.config.learningSteps;
+    state.state = 'learning';
+    if (rating === RATING.AGAIN && steps.length > 0) {
+      return this.scheduleStep(state, steps[0], 0, now);
+    }
+    if (rating === RATING.HARD && steps.length > 0) {
+      return this.scheduleStep(state, this.hardStepMinutes(steps, 0), 0, now);
+    }
+    if (rating === RATING.GOOD && steps.length > 1) {
+      return this.scheduleStep(state, steps[1], 1, now);
     }
 
-    state.scheduledDays = this.applyFuzz(state.scheduledDays);
-    state.nextReview = now + state.scheduledDays * 24 * 60 * 60 * 1000;
-    state.retrievability = this.calculateRetrievability(0, state.stability);
-
-    return state;
+    return this.graduate(state, rating === RATING.EASY ? this.config.easyInterval : this.config.graduatingInterval, now, workload);
   }
 
   /**
    * Process a card in learning/relearning state
+   * Again restarts the steps, Hard repeats the current step, Good advances a step
+   * (graduating after the last one), Easy graduates immediately.
    */
   private processLearningCard(
     state: FSRSCardState,
     rating: Rating,
-    now: number
+    now: number,
+    workload?: Map<string, number>
   ): FSRSCardState {
-    const steps = state.state === 'learning'
-      ? this.config.learningSteps
-      : this.config.relearningSteps;
+    const isRelearning = state.state === 'relearning';
+    const steps = isRelearning
+      ? this.config.relearningSteps
+      : this.config.learningSteps;
+    const step = Math.min(state.step ?? 0, Math.max(0, steps.length - 1));
+
+    if (steps.length > 0 && rating === RATING.AGAIN) {
+      return this.scheduleStep(state, steps[0], 0, now);
+    }
+    if (steps.length > 0 && rating === RATING.HARD) {
+      return this.scheduleStep(state, this.hardStepMinutes(steps, step), step, now);
+    }
+    if (rating === RATING.GOOD && step + 1 < steps.length) {
+      return this.scheduleStep(state, steps[step + 1], step + 1, now);
+    }
 
-    if (rating === RATING.AGAIN) {
-      // Reset to first step
-      state.scheduledDays = steps[0] / (24 * 60);
-      state.lapses = state.state === 'relearning' ? state.lapses : state.lapses;
-    } else if (rating === RATING.HARD) {
-      // Stay at current step or advance slightly
-      const currentStep = steps[0];
-      state.scheduledDays = (currentStep * 1.2) / (24 * 60);
-    } else if (rating === RATING.GOOD) {
-      // Graduate to review
-      state.state = 'review';
-      state.reps += 1;
-      state.difficulty = this.nextDifficulty(state.difficulty, rating);
-      state.scheduledDays = this.config.graduatingInterval;
-    } else {
-      // Easy - graduate with bonus
-      state.state = 'review';
-      state.reps += 1;
-      state.difficulty = this.nextDifficulty(state.difficulty, rating);
-      state.scheduledDays = this.config.easyInterval;
+    // Graduate to review
+    state.reps += 1;
+    state.difficulty = this.nextDifficulty(state.difficulty, rating);
+    if (isRelearning) {
+      // Back to the interval the (already reduced) stability allows
+      return this.graduate(state, Math.max(1, this.calculateInterval(state.stability)), now, workload);
     }
+    return this.graduate(state, rating === RATING.EASY ? this.config.easyInterval : this.config.graduatingInterval, now, workload);
+  }
 
-    state.scheduledDays = this.applyFuzz(state.scheduledDays);
-    state.nextReview = now + state.scheduledDays * 24 * 60 * 60 * 1000;
-    state.retrievability = this.calculateRetrievability(0, state.stability);
+  /**
+   * Schedule the next learning step (minutes, not fuzzed, so it can come back within the session)
+   */
+  private scheduleStep(state: FSRSCardState, minutes: number, step: number, now: number): FSRSCardState {
+    state.step = step;
+    state.scheduledDays = minutes / (24 * 60);
+    state.nextReview = now + minutes * 60 * 1000;
+    return state;
+  }
 
+  /**
+   * Delay for Hard: between the first two steps on the first step, otherwise the current step again
+   */
+  private hardStepMinutes(steps: number[], step: number): number {
+    if (step > 0) return steps[step];
+    return steps.length > 1 ? (steps[0] + steps[1]) / 2 : steps[0] * 1.5;
+  }
+
+  /**
+   * Move a card into the review state with a (fuzzed) interval in days
+   */
+  private graduate(
+    state: FSRSCardState,
+    intervalDays: number,
+    now: number,
+    workload?: Map<string, number>
+  ): FSRSCardState {
+    state.state = 'review';
+    state.step = 0;
+    state.scheduledDays = this.applyFuzz(intervalDays, now, workload);
+    state.nextReview = now + state.scheduledDays * 24 * 60 * 60 * 1000;
     return state;
   }
 
@@ -369,7 +476,8 @@ export class FSRSService {
     state: FSRSCardState,
     rating: Rating,
     now: number,
-    elapsedDays: number
+    elapsedDays: number,
+    workload?: Map<string, number>
   ): FSRSCardState {
     const retrievability = this.calculateRetrievability(elapsedDays, state.stability);
     state.retrievability = retrievability;
@@ -384,7 +492,11 @@ export class FSRSService {
         retrievability
       );
       state.difficulty = this.nextDifficulty(state.difficulty, rating);
-      state.scheduledDays = this.config.relearningSteps[0] / (24 * 60);
+      if (this.config.relearningSteps.length > 0) {
+        return this.scheduleStep(state, this.config.relearningSteps[0], 0, now);
+      }
+      // No relearning steps: straight back to review
+      return this.graduate(state, Math.max(1, this.calculateInterval(state.stability)), now, workload);
     } else {
       // Success
       state.reps += 1;
@@ -398,7 +510,7 @@ export class FSRSService {
       state.scheduledDays = this.calculateInterval(state.stability);
     }
 
-    state.scheduledDays = this.applyFuzz(state.scheduledDays);
+    state.scheduledDays = this.applyFuzz(state.scheduledDays, now, workload);
     state.nextReview = now + state.scheduledDays * 24 * 60 * 60 * 1000;
 
     return state;
@@ -445,6 +557,31 @@ export class FSRSService {
       });
   }
 
+  /**
+   * Replay a card's review history from a new card (custom study reviews are skipped)
+   * @returns The state after each review, oldest first
+   */
+  replayReviews(logs: ReviewLog[]): { log: ReviewLog; state: FSRSCardState }[] {
+    let state: FSRSCardState = { ...DEFAULT_CARD_STATE };
+    return logs
+      .filter(isScheduledReview)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(log => {
+        state = this.processReview(state, log.rating, log.timestamp);
+        return { log, state };
+      });
+  }
+
+  /**
+   * Whether a card's learning step falls due before the end of today,
+   * so the card comes back within the current session
+   */
+  isIntradayStep(cardState: FSRSCardState, now?: number): boolean {
+    if (cardState.state !== 'learning' && cardState.state !== 'relearning') return false;
+    const endOfDay = new Date(now ?? Date.now()).setHours(24, 0, 0, 0);
+    return cardState.nextReview < endOfDay;
+  }
+
   /**
    * Get new cards (never reviewed)
    */
@@ -454,21 +591,59 @@ export class FSRSService {
       .sort((a, b) => a.createdAt - b.createdAt);
   }
 
+  /**
+   * Count today's reviews against the daily limits
+   * @param todayLogs Review logs since the start of today
+   * @param cardIds Only count these cards (e.g. a deck)
+   */
+  countDailyUsage(todayLogs: ReviewLog[], cardIds?: Set<string>): DailyUsage {
+    const usage: DailyUsage = { newCards: 0, reviews: 0 };
+    for (const log of todayLogs) {
+      if (!isScheduledReview(log) || (cardIds && !cardIds.has(log.cardId))) continue;
+      if (log.stateBefore === 'new') usage.newCards++;
+      else if (log.stateBefore === 'review') usage.reviews++;
+    }
+    return usage;
+  }
+
+  /**
+   * New cards and reviews still allowed today (Infinity: no limit)
+   */
+  getRemainingLimits(options: StudyQueueOptions = {}): { newCards: number; reviews: number } {
+    const usage = options.usage ?? { newCards: 0, reviews: 0 };
+    let newCards = Math.max(0, this.config.newCardsPerDay - usage.newCards);
+    let reviews = this.config.maxReviewsPerDay > 0
+      ? Math.max(0, this.config.maxReviewsPerDay - usage.reviews)
+      : Infinity;
+
+    const deck = options.deckLimits;
+    if (deck?.newCardsPerDay !== undefined) {
+      newCards = Math.min(newCards, Math.max(0, deck.newCardsPerDay - deck.usage.newCards));
+    }
+    if (deck?.reviewsPerDay !== undefined) {
+      reviews = Math.min(reviews, Math.max(0, deck.reviewsPerDay - deck.usage.reviews));
+    }
+    return { newCards, reviews };
+  }
+
   /**
    * Build a study queue for a session
+   * Learning/relearning cards come first and are never limited; reviews and new
+   * cards are capped by what is left of today's limits.
    */
   buildStudyQueue(
     cards: LearningCard[],
-    now?: number
+    options: StudyQueueOptions = {}
   ): ReviewQueueItem[] {
-    const currentTime = now ?? Date.now();
+    const currentTime = options.now ?? Date.now();
+    const remaining = this.getRemainingLimits(options);
     const queue: ReviewQueueItem[] = [];
 
     // Get due reviews
     const dueCards = this.getDueCards(cards, currentTime);
     const reviewCards = dueCards
       .filter(c => c.fsrsState.state === 'review')
-      .slice(0, this.config.maxReviewsPerDay || undefined);
+      .slice(0, remaining.reviews);
 
     // Get learning/relearning cards (no limit)
     const learningCards = dueCards
@@ -476,7 +651,7 @@ export class FSRSService {
 
     // Get new cards
     const newCards = this.getNewCards(cards)
-      .slice(0, this.config.newCardsPerDay);
+      .slice(0, remaining.newCards);
 
     // Add learning cards first (highest priority)
     let priority = 0;
@@ -523,8 +698,8 @@ export class FSRSService {
   /**
    * Create a new study session
    */
-  createStudySession(cards: LearningCard[]): StudySession {
-    const queue = this.buildStudyQueue(cards);
+  createStudySession(cards: LearningCard[], options: StudyQueueOptions = {}): StudySession {
+    const queue = this.buildStudyQueue(cards, options);
 
     return {
       id: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -534,12 +709,64 @@ export class FSRSService {
       reviewedCount: 0,
       newLearnedCount: 0,
       failedCount: 0,
+      waiting: [],
       isActive: true,
     };
   }
 
+  /**
+   * Create a custom study session; its ratings are logged but do not reschedule
+   * @param failedToday Ids of the cards rated Again today (failed-today mode)
+   */
+  createCustomSession(
+    cards: LearningCard[],
+    mode: CustomStudyMode,
+    limit: number,
+    options: { now?: number; failedToday?: string[] } = {}
+  ): StudySession {
+    const now = options.now ?? Date.now();
+    const studied = cards.filter(card => card.fsrsState.state !== 'new');
+
+    let selected: LearningCard[];
+    switch (mode) {
+      case 'cram':
+        selected = shuffle(cards);
+        break;
+      case 'lowest-retrievability':
+        selected = studied
+          .map(card => ({ card, r: this.getRetrievability(card.fsrsState, now) }))
+          .sort((a, b) => a.r - b.r)
+          .map(({ card }) => card);
+        break;
+      case 'preview':
+        selected = studied
+          .filter(card => card.fsrsState.nextReview > now)
+          .sort((a, b) => a.fsrsState.nextReview - b.fsrsState.nextReview);
+        break;
+      case 'failed-today': {
+        const byId = new Map(cards.map(card => [card.id, card]));
+        selected = [...new Set(options.failedToday ?? [])]
+          .map(id => byId.get(id))
+          .filter((card): card is LearningCard => !!card);
+        break;
+      }
+    }
+
+    return {
+      ...this.createStudySession([], { now }),
+      queue: selected.slice(0, limit).map((card, i) => ({
+        cardId: card.id,
+        dueDate: card.fsrsState.nextReview,
+        state: card.fsrsState.state,
+        priority: i,
+      })),
+      customStudy: mode,
+    };
+  }
+
   /**
    * Calculate daily statistics
+   * Custom study reviews are not counted.
    */
   calculateDailyStats(
     reviewLogs: ReviewLog[],
@@ -549,7 +776,7 @@ export class FSRSService {
     const dayEnd = dayStart + 24 * 60 * 60 * 1000;
 
     const todayLogs = reviewLogs.filter(
-      log => log.timestamp >= dayStart && log.timestamp < dayEnd
+      log => isScheduledReview(log) && log.timestamp >= dayStart && log.timestamp < dayEnd
     );
 
     const reviewed = todayLogs.length;
@@ -573,13 +800,15 @@ export class FSRSService {
 
   /**
    * Calculate overall learning statistics
+   * Custom study reviews are not counted.
    */
   calculateLearningStats(
     cards: LearningCard[],
-    reviewLogs: ReviewLog[],
+    allReviewLogs: ReviewLog[],
     dailyStats: DailyStats[]
   ): LearningStats {
     const activeCards = cards;
+    const reviewLogs = allReviewLogs.filter(isScheduledReview);
     const now = Date.now();
 
     const byState: Record<CardState, number> = {
@@ -612,26 +841,22 @@ export class FSRSService {
       ? recentLogs.filter(log => log.rating >= RATING.HARD).length / recentLogs.length
       : 0;
 
-    // Calculate streak
-    let streak = 0;
+    // Calculate streak (consecutive study days; the current one may end yesterday)
+    const dayMs = 24 * 60 * 60 * 1000;
+    const studyDays = [...new Set(dailyStats.filter(s => s.reviewed > 0).map(s => s.date))]
+      .map(date => new Date(date).getTime())
+      .sort((a, b) => a - b);
+
     let bestStreak = 0;
     let currentStreak = 0;
-
-    const sortedStats = [...dailyStats].sort(
-      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
-
-    for (const stat of sortedStats) {
-      if (stat.reviewed > 0) {
-        currentStreak++;
-        if (currentStreak > bestStreak) {
-          bestStreak = currentStreak;
-        }
-      } else {
-        currentStreak = 0;
-      }
+    let previousDay = NaN;
+    for (const day of studyDays) {
+      currentStreak = day - previousDay === dayMs ? currentStreak + 1 : 1;
+      bestStreak = Math.max(bestStreak, currentStreak);
+      previousDay = day;
     }
-    streak = currentStreak;
+    const today = new Date(new Date(now).toISOString().split('T')[0]).getTime();
+    const streak = previousDay >= today - dayMs ? currentStreak : 0;
 
     // Average daily reviews
     const last30Days = dailyStats.filter(
@@ -666,22 +891,24 @@ export class FSRSService {
 
   /**
    * Predict future workload
+   * Due reviews per date (YYYY-MM-DD); today also counts overdue cards, new cards are not counted.
    */
   predictWorkload(
     cards: LearningCard[],
     daysAhead: number = 7
   ): Map<string, number> {
     const workload = new Map<string, number>();
-    const now = Date.now();
+    const today = new Date(new Date().toISOString().split('T')[0]).getTime();
+    const studied = cards.filter(card => card.fsrsState.state !== 'new');
 
     for (let i = 0; i < daysAhead; i++) {
-      const dayStart = now + i * 24 * 60 * 60 * 1000;
+      const dayStart = today + i * 24 * 60 * 60 * 1000;
       const dayEnd = dayStart + 24 * 60 * 60 * 1000;
       const date = new Date(dayStart).toISOString().split('T')[0];
 
-      const dueCount = cards.filter(card => {
+      const dueCount = studied.filter(card => {
         const nextReview = card.fsrsState.nextReview;
-        return nextReview >= dayStart && nextReview < dayEnd;
+        return nextReview < dayEnd && (i === 0 || nextReview >= dayStart);
       }).length;
 
       workload.set(date, dueCount);
@@ -691,6 +918,28 @@ export class FSRSService {
   }
 }
 
+/**
+ * Local calendar date key (YYYY-MM-DD), matching the weekdays shown in the easy-days setting
+ */
+function toDateKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Fisher-Yates shuffle (returns a copy)
+ */
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
 /**
  * Singleton instance
  */
@@ -0,0 +1,392 @@
+/**
+ * Inline Card Service
+ * Mirrors cards in the note body as `sil-card` blocks and keeps both copies in step
+ *
+ * - Writes cards into their source note, below the passage they came from
+ * - Reads edited blocks back into the stored cards; blocks without an id become new cards
+ * - Rewrites the blocks of cards that were edited in the plugin
+ * - Records which cards are embedded in the note's frontmatter (sil-embedded-cards)
+ *
+ * Block syntax (the callout form prefixes every line with `> ` and starts with `> [!sil-card]`):
+ *
+ *     ```sil-card
+ *     id: card_123
+ *     type: multiple_choice
+ *     front: Question
+ *     back: Answer
+ *     hint: Optional hint
+ *     explanation: Optional explanation
+ *     - [x] Correct option
+ *     - [ ] Other option
+ *     blank: answer | alternative
+ *     ```
+ *
+ * Values may continue on following lines indented by two spaces.
+ */
+
+import { App, TFile } from 'obsidian';
+import { BlankPosition, LearningCard, LearningCardType, MCQOption, createLearningCard } from '../types/learning';
+import { getEmbeddedCardIds, setEmbeddedCardIds } from '../utils/frontmatter';
+
+export type InlineCardFormat = 'fence' | 'callout';
+
+/**
+ * Card content that a block can carry (scheduling stays in the plugin)
+ */
+export interface InlineCardFields {
+  type: LearningCardType;
+  front: string;
+  back: string;
+  hint?: string;
+  explanation?: string;
+  /** multiple_choice options */
+  options?: { text: string; isCorrect: boolean }[];
+  /** fill_blank answers, one entry per blank: [answer, ...alternatives] */
+  blanks?: string[][];
+}
+
+/**
+ * A `sil-card` block found in a note
+ */
+export interface InlineCardBlock {
+  /** First and last line of the block (0-based, inclusive) */
+  start: number;
+  end: number;
+  format: InlineCardFormat;
+  /** Card id; missing for blocks written by hand */
+  id?: string;
+  fields: InlineCardFields;
+}
+
+/**
+ * Outcome of reading a note's blocks
+ */
+export interface InlineCardReadResult {
+  /** Stored cards whose block was edited, with the edits applied */
+  updated: LearningCard[];
+  /** New cards for blocks without an id (the id was written into the block) */
+  created: LearningCard[];
+}
+
+const BLOCK_NAME = 'sil-card';
+const FENCE_OPEN_PATTERN = /^(```|~~~)\s*sil-card\s*$/;
+const CALLOUT_OPEN_PATTERN = /^>\s*\[!sil-card\][+-]?(.*)$/;
+const FIELD_PATTERN = /^(id|type|front|back|hint|explanation|blank):[ \t]?(.*)$/;
+const OPTION_PATTERN = /^- \[([ xX])\] (.*)$/;
+const CARD_TYPES: LearningCardType[] = ['flashcard', 'fill_blank', 'multiple_choice', 'short_answer'];
+
+export class InlineCardService {
+  private app: App;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  /**
+   * Write cards into their note below their source passage (at the end when it cannot be placed)
+   * Cards that already have a block in the note are left alone.
+   * @returns The cards with sourceLines moved past the inserted blocks
+   */
+  async embedCards(file: TFile, cards: LearningCard[], format: InlineCardFormat): Promise<LearningCard[]> {
+    const targets = cards.filter(card => card.sourceFile === file.path);
+    if (targets.length === 0) return cards;
+
+    const inserted: { after: number; count: number }[] = [];
+    let embeddedIds: string[] = [];
+    await this.app.vault.process(file, (content) => {
+      const lines = content.split('\n');
+      const present = new Set(parseInlineCards(content).map(block => block.id));
+      const pending = targets.filter(card => !present.has(card.id));
+
+      // Insert from the bottom up so earlier insertion points stay valid
+      // (cards of the same passage are inserted last first, so they end up in order)
+      const placed = pending
+        .map((card, index) => ({ card, index, after: insertionLine(lines, card) }))
+        .sort((a, b) => b.after - a.after || b.index - a.index);
+      for (const { card, after } of placed) {
+        const block = ['', ...formatInlineCard(card, format)];
+        lines.splice(after + 1, 0, ...block);
+        inserted.push({ after, count: block.length });
+      }
+
+      embeddedIds = [...present, ...pending.map(card => card.id)].filter((id): id is string => !!id);
+      return lines.join('\n');
+    });
+    await this.recordEmbedded(file, embeddedIds);
+
+    return cards.map(card => {
+      if (card.sourceFile !== file.path || !card.sourceLines) return card;
+      const { start, end } = card.sourceLines;
+      const shift = (line: number) => line + inserted
+        .filter(insert => insert.after + 1 < line)
+        .reduce((sum, insert) => sum + insert.count, 0);
+      return { ...card, sourceLines: { start: shift(start), end: shift(end) } };
+    });
+  }
+
+  /**
+   * Bring a note's blocks into the stored cards
+   * Blocks whose id is not a stored card (e.g. the card was deleted) are ignored.
+   */
+  async readNote(file: TFile, cards: LearningCard[]): Promise<InlineCardReadResult> {
+    const content = await this.app.vault.cachedRead(file);
+    if (!content.includes(BLOCK_NAME)) {
+      if (getEmbeddedCardIds(file, this.app).length > 0) await this.recordEmbedded(file, []);
+      return { updated: [], created: [] };
+    }
+
+    const byId = new Map(cards.map(card => [card.id, card]));
+    const blocks = parseInlineCards(content);
+    const updated: LearningCard[] = [];
+    for (const block of blocks) {
+      const card = block.id ? byId.get(block.id) : undefined;
+      const edited = card ? applyInlineFields(card, block.fields) : null;
+      if (edited) updated.push(edited);
+    }
+
+    // Hand-written blocks: create the card and write its id into the block
+    const created: LearningCard[] = [];
+    if (blocks.some(block => !block.id)) {
+      await this.app.vault.process(file, (current) => {
+        const lines = current.split('\n');
+        // Each inserted id line moves the blocks below it down by one
+        for (const block of parseInlineCards(current).filter(b => !b.id)) {
+          const start = block.start + created.length;
+          const card = createLearningCard({
+            ...fieldsToCard(block.fields),
+            sourceFile: file.path,
+            sourceLines: { start: start + 1, end: block.end + created.length + 2 },
+            tags: [],
+          });
+          lines.splice(start + 1, 0, `${block.format === 'callout' ? '> ' : ''}id: ${card.id}`);
+          created.push(card);
+        }
+        return lines.join('\n');
+      });
+    }
+
+    const known = new Set([...byId.keys(), ...created.map(card => card.id)]);
+    await this.recordEmbedded(file, [
+      ...blocks.map(block => block.id).filter((id): id is string => !!id && known.has(id)),
+      ...created.map(card => card.id),
+    ]);
+
+    return { updated, created };
+  }
+
+  /**
+   * Rewrite the blocks of cards edited in the plugin (cards without a block are skipped)
+   */
+  async updateBlocks(file: TFile, cards: LearningCard[]): Promise<void> {
+    const byId = new Map(cards.filter(card => card.sourceFile === file.path).map(card => [card.id, card]));
+    if (byId.size === 0) return;
+
+    await this.app.vault.process(file, (content) => {
+      const lines = content.split('\n');
+      for (const block of parseInlineCards(content).reverse()) {
+        const card = block.id ? byId.get(block.id) : undefined;
+        if (!card) continue;
+        lines.splice(block.start, block.end - block.start + 1, ...formatInlineCard(card, block.format));
+      }
+      return lines.join('\n');
+    });
+  }
+
+  /** Update the frontmatter list only when it changed (every write triggers another read) */
+  private async recordEmbedded(file: TFile, ids: string[]): Promise<void> {
+    const unique = [...new Set(ids)];
+    const current = getEmbeddedCardIds(file, this.app);
+    if (current.length === unique.length && current.every(id => unique.includes(id))) return;
+    await setEmbeddedCardIds(file, this.app, unique);
+  }
+}
+
+/**
+ * Find the `sil-card` blocks (fenced and callout) in a note
+ */
+export function parseInlineCards(content: string): InlineCardBlock[] {
+  const lines = content.split('\n');
+  const blocks: InlineCardBlock[] = [];
+  let otherFence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE_OPEN_PATTERN);
+    if (!otherFence && fence) {
+      let end = i + 1;
+      while (end < lines.length && !lines[end].trim().startsWith(fence[1])) end++;
+      const body = parseBody(lines.slice(i + 1, end));
+      if (body) blocks.push({ start: i, end: Math.min(end, lines.length - 1), format: 'fence', ...body });
+      i = end;
+      continue;
+    }
+
+    // Other code blocks may show the syntax as an example
+    const otherOpen = line.match(/^\s*(```|~~~)/);
+    if (otherOpen) {
+      otherFence = otherFence ? null : otherOpen[1];
+      continue;
+    }
+    if (otherFence) continue;
+
+    if (CALLOUT_OPEN_PATTERN.test(line)) {
+      let end = i;
+      while (end + 1 < lines.length && lines[end + 1].startsWith('>')) end++;
+      const body = parseBody(lines.slice(i + 1, end + 1).map(l => l.replace(/^>\s?/, '')));
+      if (body) blocks.push({ start: i, end, format: 'callout', ...body });
+      i = end;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Read the body of a fenced block (the source a code block processor receives)
+ */
+export function parseInlineCardSource(source: string): Pick<InlineCardBlock, 'id' | 'fields'> | null {
+  return parseBody(source.split('\n'));
+}
+
+/**
+ * Block lines for a card
+ */
+export function formatInlineCard(card: LearningCard, format: InlineCardFormat): string[] {
+  const body = [`id: ${card.id}`, ...formatFields(cardFields(card))];
+  return format === 'fence'
+    ? ['```' + BLOCK_NAME, ...body, '```']
+    : [`> [!${BLOCK_NAME}]`, ...body.map(line => (line ? `> ${line}` : '>'))];
+}
+
+/**
+ * The card with a block's content applied (null when nothing differs)
+ */
+export function applyInlineFields(card: LearningCard, fields: InlineCardFields): LearningCard | null {
+  const before = formatFields(cardFields(card)).join('\n');
+  const after = formatFields(fields).join('\n');
+  if (before === after) return null;
+
+  return { ...card, ...fieldsToCard(fields), updatedAt: Date.now() };
+}
+
+/**
+ * Body of a block (without the fence or callout markers); null when it has no front
+ */
+function parseBody(lines: string[]): Pick<InlineCardBlock, 'id' | 'fields'> | null {
+  const values: Record<string, string> = {};
+  const blanks: string[][] = [];
+  const options: { text: string; isCorrect: boolean }[] = [];
+  let last: { key: string; index?: number } | null = null;
+
+  for (const line of lines) {
+    const field = line.match(FIELD_PATTERN);
+    const option = line.match(OPTION_PATTERN);
+    if (field) {
+      if (field[1] === 'blank') {
+        blanks.push(field[2].split('|').map(answer => answer.trim()).filter(Boolean));
+        last = null;
+      } else {
+        values[field[1]] = field[2];
+        last = { key: field[1] };
+      }
+    } else if (option) {
+      options.push({ text: option[2].trim(), isCorrect: option[1] !== ' ' });
+      last = { key: 'option', index: options.length - 1 };
+    } else if (last && line.startsWith('  ')) {
+      // Continuation of the previous value
+      if (last.key === 'option' && last.index !== undefined) {
+        options[last.index].text += `\n${line.slice(2)}`;
+      } else {
+        values[last.key] += `\n${line.slice(2)}`;
+      }
+    }
+  }
+
+  const front = values.front?.trim();
+  if (!front) return null;
+
+  const type = CARD_TYPES.includes(values.type as LearningCardType)
+    ? values.type as LearningCardType
+    : options.length > 0 ? 'multiple_choice' : 'flashcard';
+  return {
+    id: values.id?.trim() || undefined,
+    fields: {
+      type,
+      front,
+      back: values.back?.trim() ?? '',
+      hint: values.hint?.trim() || undefined,
+      explanation: values.explanation?.trim() || undefined,
+      options: type === 'multiple_choice' && options.length > 0 ? options : undefined,
+      blanks: type === 'fill_blank' && blanks.some(b => b.length > 0) ? blanks.filter(b => b.length > 0) : undefined,
+    },
+  };
+}
+
+function cardFields(card: LearningCard): InlineCardFields {
+  return {
+    type: card.type,
+    front: card.front,
+    back: card.back,
+    hint: card.hint,
+    explanation: card.explanation,
+    options: card.type === 'multiple_choice' && card.options?.length
+      ? card.options.map(o => ({ text: o.text, isCorrect: o.isCorrect }))
+      : undefined,
+    blanks: card.type === 'fill_blank' && card.blanks?.length
+      ? card.blanks.map(b => [b.answer, ...(b.alternatives ?? [])])
+      : undefined,
+  };
+}
+
+function formatFields(fields: InlineCardFields): string[] {
+  const value = (text: string) => text.trim().split('\n').join('\n  ');
+  const lines = [`type: ${fields.type}`, `front: ${value(fields.front)}`, `back: ${value(fields.back)}`];
+  if (fields.hint) lines.push(`hint: ${value(fields.hint)}`);
+  if (fields.explanation) lines.push(`explanation: ${value(fields.explanation)}`);
+  fields.options?.forEach(o => lines.push(`- [${o.isCorrect ? 'x' : ' '}] ${value(o.text)}`));
+  fields.blanks?.forEach(answers => lines.push(`blank: ${answers.join(' | ')}`));
+  return lines.join('\n').split('\n');
+}
+
+/**
+ * Card content from block fields (blank positions follow the ___ markers in the front)
+ */
+function fieldsToCard(fields: InlineCardFields): Pick<LearningCard, 'type' | 'front' | 'back' | 'hint' | 'explanation' | 'options' | 'blanks'> {
+  const options: MCQOption[] | undefined = fields.options?.map((o, i) => ({
+    id: String.fromCharCode(97 + i),
+    text: o.text,
+    isCorrect: o.isCorrect,
+  }));
+
+  let blanks: BlankPosition[] | undefined;
+  if (fields.blanks) {
+    let from = 0;
+    blanks = fields.blanks.map(([answer, ...alternatives]) => {
+      const position = fields.front.indexOf('___', from);
+      from = position >= 0 ? position + 3 : from;
+      return { position: Math.max(0, position), answer, alternatives: alternatives.length > 0 ? alternatives : undefined };
+    });
+  }
+
+  return {
+    type: fields.type,
+    front: fields.front,
+    back: fields.back || (blanks ? blanks.map(b => b.answer).join(', ') : ''),
+    hint: fields.hint,
+    explanation: fields.explanation,
+    options,
+    blanks,
+  };
+}
+
+/**
+ * Line after which a card's block goes: the end of its passage, or the end of the note
+ * The passage is extended over a following list or paragraph so the block does not split it.
+ */
+function insertionLine(lines: string[], card: LearningCard): number {
+  let end = card.sourceLines ? Math.min(card.sourceLines.end, lines.length) - 1 : lines.length - 1;
+  if (end < 0) return lines.length - 1;
+  while (end + 1 < lines.length && lines[end + 1].trim() !== '' && !/^\s*(```|~~~)/.test(lines[end + 1])) end++;
+  return end;
+}
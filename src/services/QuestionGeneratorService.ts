@@ -3,10 +3,13 @@
  * Generates flashcards from text using AI
  */
 
-import { AIService } from './AIService';
+import { AIService, GenerationStreamOptions } from './AIService';
+import { splitIntoChunks } from '../utils/chunking';
+import { GenerationCancelledError, RateLimitError } from '../types/errors';
 import {
   LearningCard,
   LearningCardType,
+  CardDraft,
   createLearningCard,
   QuestionGenerationRequest,
   QuestionGenerationResult,
@@ -27,8 +30,19 @@ export interface GenerationOptions {
   language?: string;
   /** Additional context */
   context?: string;
+  /** Token budget per chunk for long notes (default: DEFAULT_CHUNK_OPTIONS.maxTokens) */
+  maxChunkTokens?: number;
+  /** Lines before `text` in the note, when text is a selection (keeps sourceLines note-relative) */
+  lineOffset?: number;
+  /** Hashes of sections that already produced cards; only the remaining sections are sent */
+  skipSections?: string[];
+  /** Fronts of existing cards for this note, passed as "do not duplicate" context */
+  existingFronts?: string[];
 }
 
+/** Most existing card fronts included in a prompt */
+const MAX_EXISTING_FRONTS = 40;
+
 /**
  * QuestionGeneratorService
  */
@@ -41,31 +55,98 @@ export class QuestionGeneratorService {
 
   /**
    * Generate questions from text content
+   *
+   * Long notes are split by headings and token budget (see splitIntoChunks); countPerType
+   * is the total for the note, shared out over the chunks by size (at least one per chunk),
+   * and every card records the heading path and line range it came from. With stream
+   * options, each card is passed to onCard as soon as it is complete. For incremental
+   * generation, skipSections leaves out sections that already have cards and
+   * existingFronts keeps the model from repeating them.
    */
   async generateFromText(
     text: string,
     sourceFile: string,
-    options: GenerationOptions
+    options: GenerationOptions,
+    stream?: GenerationStreamOptions
   ): Promise<QuestionGenerationResult> {
-    const request: QuestionGenerationRequest = {
-      content: text,
-      questionTypes: options.types,
-      countPerType: options.countPerType,
-      targetDifficulty: options.difficulty || 3,
-      language: options.language,
-      context: options.context,
-    };
+    const chunks = splitIntoChunks(text, {
+      ...(options.maxChunkTokens ? { maxTokens: options.maxChunkTokens } : {}),
+      skipSections: options.skipSections,
+    });
+    if (chunks.length === 0) {
+      return { cards: [], confidence: 0, concepts: [] };
+    }
 
-    const result = await this.aiService.generateQuestions(request);
+    const existing = (options.existingFronts ?? []).slice(-MAX_EXISTING_FRONTS);
+    const existingContext = existing.length > 0
+      ? `These questions already exist for this note. Do not duplicate them:\n${existing.map(front => `- ${front}`).join('\n')}`
+      : undefined;
 
-    // Set source file on all generated cards
-    result.cards = result.cards.map((card) => ({
-      ...card,
-      sourceFile,
-      sourceText: text.slice(0, 200),
-    }));
+    const chunkCounts = distributeCount(options.countPerType, chunks.map(chunk => chunk.tokens));
+    const cards: LearningCard[] = [];
+    const concepts = new Set<string>();
+    const notes: string[] = [];
+    let confidence = 0;
+    let succeeded = 0;
+    let firstError: unknown = null;
+
+    for (const [index, chunk] of chunks.entries()) {
+      const withSource = (card: LearningCard): LearningCard => ({
+        ...card,
+        sourceFile,
+        sourceText: chunk.text.trim().slice(0, 200),
+        sourceHeadings: chunk.headingPath.length > 0 ? chunk.headingPath : undefined,
+        sourceLines: {
+          start: chunk.startLine + (options.lineOffset ?? 0),
+          end: chunk.endLine + (options.lineOffset ?? 0),
+        },
+      });
+
+      const section = chunk.headingPath.join(' > ');
+      const request: QuestionGenerationRequest = {
+        content: chunk.text,
+        questionTypes: options.types,
+        countPerType: chunkCounts[index],
+        targetDifficulty: options.difficulty || 3,
+        language: options.language,
+        context: [options.context, section && `Section: ${section}`, existingContext].filter(Boolean).join('\n') || undefined,
+      };
+
+      try {
+        const result = await this.aiService.generateQuestions(
+          request,
+          stream && {
+            signal: stream.signal,
+            onCard: (card) => stream.onCard?.(withSource(card)),
+          }
+        );
+
+        cards.push(...result.cards.map(withSource));
+        result.concepts.forEach((concept) => concepts.add(concept));
+        notes.push(...(result.notes ?? []));
+        confidence += result.confidence;
+        succeeded++;
+      } catch (error) {
+        // Cancel and rate limits stop the whole note; other failures skip the chunk
+        if (chunks.length === 1 || error instanceof GenerationCancelledError || error instanceof RateLimitError) {
+          throw error;
+        }
+        console.error(`Generation failed for ${sourceFile}:${chunk.startLine}-${chunk.endLine}`, error);
+        firstError = firstError ?? error;
+        notes.push(`Lines ${chunk.startLine}-${chunk.endLine}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (succeeded === 0) {
+      throw firstError;
+    }
 
-    return result;
+    return {
+      cards: this.deduplicateCards(cards),
+      confidence: confidence / succeeded,
+      concepts: [...concepts],
+      notes: notes.length > 0 ? notes : undefined,
+    };
   }
 
   /**
@@ -123,7 +204,8 @@ export class QuestionGeneratorService {
     text: string,
     sourceFile: string,
     totalCount: number = 10,
-    options?: Partial<GenerationOptions>
+    options?: Partial<GenerationOptions>,
+    stream?: GenerationStreamOptions
   ): Promise<QuestionGenerationResult> {
     const defaultTypes: LearningCardType[] = [
       'flashcard',
@@ -139,7 +221,7 @@ export class QuestionGeneratorService {
       types,
       countPerType,
       ...options,
-    });
+    }, stream);
   }
 
   /**
@@ -189,6 +271,44 @@ export class QuestionGeneratorService {
     return { valid, invalid };
   }
 
+  /**
+   * Wrap generated cards as review-queue drafts, with validation issues attached
+   */
+  createDrafts(cards: LearningCard[]): CardDraft[] {
+    const { invalid } = this.validateCards(cards);
+    const now = Date.now();
+
+    return cards.map((card) => ({
+      card,
+      issues: invalid.find((entry) => entry.card === card)?.issues ?? [],
+      createdAt: now,
+    }));
+  }
+
+  /**
+   * Generate a replacement for a single card, keeping its type and source
+   * @param context Instruction for the model (defaults to asking for a different question)
+   */
+  async regenerateCard(card: LearningCard, text: string, context?: string): Promise<LearningCard | null> {
+    // Regenerate from the card's own passage when its line range is known
+    const lines = text.split('\n');
+    const passage = card.sourceLines
+      ? lines.slice(card.sourceLines.start - 1, card.sourceLines.end).join('\n')
+      : text;
+
+    const result = await this.generateFromText(passage || text, card.sourceFile, {
+      types: [card.type],
+      countPerType: 1,
+      context: context ?? `Ask about something different from this rejected question: "${card.front}"`,
+      lineOffset: passage && card.sourceLines ? card.sourceLines.start - 1 : 0,
+    });
+
+    const replacement = result.cards[0];
+    return replacement
+      ? { ...replacement, sourceHeadings: card.sourceHeadings ?? replacement.sourceHeadings }
+      : null;
+  }
+
   /**
    * Deduplicate similar cards
    */
@@ -223,6 +343,32 @@ export class QuestionGeneratorService {
   }
 }
 
+/**
+ * Split a card count over chunks in proportion to their size (largest remainder),
+ * giving every chunk at least one
+ */
+function distributeCount(total: number, weights: number[]): number[] {
+  const target = Math.max(total, weights.length);
+  const sum = weights.reduce((a, b) => a + b, 0) || weights.length;
+  const shares = weights.map(weight => (target * (weight || 1)) / sum);
+  const counts = shares.map(share => Math.max(1, Math.floor(share)));
+
+  const byRemainder = shares
+    .map((share, i) => ({ i, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  let assigned = counts.reduce((a, b) => a + b, 0);
+  for (let k = 0; assigned < target; k = (k + 1) % byRemainder.length) {
+    counts[byRemainder[k].i]++;
+    assigned++;
+  }
+  // Small chunks rounded up to one: take the extra back from the largest counts
+  while (assigned > target) {
+    counts[counts.indexOf(Math.max(...counts))]--;
+    assigned--;
+  }
+  return counts;
+}
+
 /**
  * Factory function
  */
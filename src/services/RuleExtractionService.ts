@@ -0,0 +1,319 @@
+/**
+ * Rule Extraction Service
+ * Turns Markdown syntax that is already in a note into cards, without AI
+ *
+ * - `term:: definition` and `Question ? Answer` lines → flashcard
+ * - `{{c1::answer::hint}}` → one fill_blank card per cloze number (other deletions are revealed)
+ * - `==highlight==` → one fill_blank card per line, one blank per highlight
+ * - Tables → one flashcard per row (the first cell asks, the other cells answer)
+ * - Outlines → a flashcard per bullet with sub-bullets, and per heading whose body is only a list
+ *
+ * Frontmatter and code blocks are skipped. Each line is used by at most one line rule
+ * (in the order above), and cards whose front already exists for the note are left out.
+ */
+
+import { BlankPosition, LearningCard, LearningCardType, QuestionGenerationResult, createLearningCard } from '../types/learning';
+import { parseClozeText } from '../utils/anki';
+
+export type ExtractionRule = 'definition' | 'question' | 'cloze' | 'highlight' | 'table' | 'outline';
+
+export const ALL_EXTRACTION_RULES: ExtractionRule[] = ['definition', 'question', 'cloze', 'highlight', 'table', 'outline'];
+
+export interface RuleExtractionOptions {
+  /** Rules to apply (default: all) */
+  rules?: ExtractionRule[];
+  /** Lines before `text` in the note, when text is a selection (keeps sourceLines note-relative) */
+  lineOffset?: number;
+  /** Fronts of existing cards for this note; matching cards are not extracted again */
+  existingFronts?: string[];
+}
+
+/**
+ * A note line with the headings above it
+ */
+interface NoteLine {
+  /** 0-based index */
+  index: number;
+  text: string;
+  headingPath: string[];
+}
+
+/**
+ * List item of an outline
+ */
+interface ListItem {
+  line: NoteLine;
+  indent: number;
+  text: string;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const LIST_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const DEFINITION_PATTERN = /^([^:]+?)\s*::\s*([^:].*)$/;
+const QUESTION_PATTERN = /^(.+?)\s+\?\s+(.+)$/;
+const CLOZE_PATTERN = /\{\{c(\d+)::/;
+const HIGHLIGHT_PATTERN = /==([^=]+)==/g;
+const BLOCK_ID_PATTERN = /\s+\^[A-Za-z0-9-]+\s*$/;
+
+/** Characters of source text kept on a card (same as AI generation) */
+const SOURCE_TEXT_LENGTH = 200;
+
+export class RuleExtractionService {
+  /**
+   * Extract cards from a note (or a selection of it)
+   */
+  extractFromText(text: string, sourceFile: string, options: RuleExtractionOptions = {}): QuestionGenerationResult {
+    const rules = new Set(options.rules ?? ALL_EXTRACTION_RULES);
+    const lines = readLines(text);
+    const used = new Set<number>();
+    const cards: LearningCard[] = [];
+
+    const addCard = (
+      type: LearningCardType,
+      from: NoteLine[],
+      fields: { front: string; back: string; blanks?: BlankPosition[]; hint?: string }
+    ) => {
+      const start = from[0].index;
+      const end = from[from.length - 1].index;
+      cards.push(createLearningCard({
+        type,
+        sourceFile,
+        sourceText: from.map(line => line.text).join('\n').trim().slice(0, SOURCE_TEXT_LENGTH),
+        sourceHeadings: from[0].headingPath.length > 0 ? from[0].headingPath : undefined,
+        sourceLines: {
+          start: start + 1 + (options.lineOffset ?? 0),
+          end: end + 1 + (options.lineOffset ?? 0),
+        },
+        ...fields,
+        tags: [],
+      }));
+    };
+
+    if (rules.has('table')) {
+      for (const table of findTables(lines)) {
+        table.forEach(line => used.add(line.index));
+        const [header, , ...rows] = table.map(line => splitTableRow(line.text));
+        rows.forEach((cells, i) => {
+          const answers = cells.slice(1)
+            .map((cell, col) => ({ label: header[col + 1] ?? '', cell }))
+            .filter(entry => entry.cell);
+          if (!cells[0] || answers.length === 0) return;
+          const back = answers.length === 1
+            ? answers[0].cell
+            : answers.map(entry => (entry.label ? `${entry.label}: ${entry.cell}` : entry.cell)).join('\n');
+          addCard('flashcard', [table[i + 2]], { front: cells[0], back });
+        });
+      }
+    }
+
+    for (const line of lines) {
+      if (used.has(line.index)) continue;
+      const content = stripLine(line.text);
+      if (!content) continue;
+
+      if (rules.has('cloze') && CLOZE_PATTERN.test(content)) {
+        const ordinals = [...new Set([...content.matchAll(new RegExp(CLOZE_PATTERN, 'g'))].map(match => parseInt(match[1], 10)))];
+        for (const ordinal of ordinals.sort((a, b) => a - b)) {
+          const { front, answers, hints } = parseClozeText(content, ordinal);
+          if (answers.length === 0) continue;
+          addCard('fill_blank', [line], {
+            front,
+            back: answers.map(a => a.answer).join(', '),
+            blanks: answers,
+            hint: hints.length > 0 ? hints.join(', ') : undefined,
+          });
+        }
+        used.add(line.index);
+        continue;
+      }
+
+      const definition = rules.has('definition') ? content.match(DEFINITION_PATTERN) : null;
+      if (definition) {
+        addCard('flashcard', [line], { front: definition[1].trim(), back: definition[2].trim() });
+        used.add(line.index);
+        continue;
+      }
+
+      const question = rules.has('question') ? content.match(QUESTION_PATTERN) : null;
+      if (question) {
+        addCard('flashcard', [line], { front: `${question[1].trim()}?`, back: question[2].trim() });
+        used.add(line.index);
+        continue;
+      }
+
+      if (rules.has('highlight') && content.includes('==')) {
+        const blank = highlightToBlanks(content);
+        if (blank) {
+          addCard('fill_blank', [line], blank);
+          used.add(line.index);
+        }
+      }
+    }
+
+    if (rules.has('outline')) {
+      for (const outline of findOutlines(lines, used)) {
+        addCard('flashcard', outline.lines, { front: outline.front, back: outline.back });
+      }
+    }
+
+    // In note order; skip cards the note already has, and repeats within the note
+    const seen = new Set((options.existingFronts ?? []).map(front => front.trim()));
+    cards.sort((a, b) => (a.sourceLines?.start ?? 0) - (b.sourceLines?.start ?? 0));
+    const unique = cards.filter(card => {
+      const key = card.front.trim();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    return { cards: unique, confidence: 1, concepts: [] };
+  }
+}
+
+/**
+ * Note lines with their heading paths, leaving out frontmatter and code blocks
+ */
+function readLines(text: string): NoteLine[] {
+  const raw = text.split('\n');
+  const result: NoteLine[] = [];
+  const stack: { level: number; title: string }[] = [];
+  let inFence = false;
+  let start = 0;
+
+  if (raw[0]?.trim() === '---') {
+    const end = raw.findIndex((line, i) => i > 0 && line.trim() === '---');
+    if (end > 0) start = end + 1;
+  }
+
+  for (let i = start; i < raw.length; i++) {
+    const line = raw[i];
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    // Headings stay in the list (with their own path) so outlines can find them
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const level = heading[1].length;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+      stack.push({ level, title: heading[2] });
+    }
+    result.push({ index: i, text: line, headingPath: stack.map(h => h.title) });
+  }
+  return result;
+}
+
+/**
+ * Line content without list marker, quote marker and trailing block id
+ */
+function stripLine(text: string): string {
+  if (HEADING_PATTERN.test(text) || text.trim().startsWith('|')) return '';
+  const unquoted = text.replace(/^\s*(>\s*)+/, '');
+  const listItem = unquoted.match(LIST_PATTERN);
+  return (listItem ? listItem[2] : unquoted).replace(BLOCK_ID_PATTERN, '').trim();
+}
+
+/**
+ * ==highlight== → ___ with a blank per highlight
+ */
+function highlightToBlanks(content: string): { front: string; back: string; blanks: BlankPosition[] } | null {
+  const blanks: BlankPosition[] = [];
+  let front = '';
+  let cursor = 0;
+  for (const match of content.matchAll(HIGHLIGHT_PATTERN)) {
+    front += content.slice(cursor, match.index);
+    cursor = (match.index ?? 0) + match[0].length;
+    blanks.push({ position: front.length, answer: match[1].trim() });
+    front += '___';
+  }
+  front += content.slice(cursor);
+  if (blanks.length === 0 || !front.replace(/___/g, '').trim()) return null;
+  return { front, back: blanks.map(b => b.answer).join(', '), blanks };
+}
+
+/**
+ * Tables: a header row, a separator row and at least one body row (consecutive lines)
+ */
+function findTables(lines: NoteLine[]): NoteLine[][] {
+  const tables: NoteLine[][] = [];
+  for (let i = 0; i + 2 < lines.length; i++) {
+    const isRow = (line: NoteLine | undefined) => !!line && line.text.trim().startsWith('|');
+    if (!isRow(lines[i]) || !TABLE_SEPARATOR_PATTERN.test(lines[i + 1].text)
+      || lines[i + 1].index !== lines[i].index + 1) continue;
+
+    let end = i + 2;
+    while (isRow(lines[end]) && lines[end].index === lines[end - 1].index + 1) end++;
+    if (end > i + 2) tables.push(lines.slice(i, end));
+    i = end - 1;
+  }
+  return tables;
+}
+
+function splitTableRow(text: string): string[] {
+  return text.trim().replace(/^\|/, '').replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.replace(/\\\|/g, '|').trim());
+}
+
+/**
+ * Outline cards: bullets with sub-bullets, and headings whose body is only a list
+ * Lines already used by a line rule are not used as outline items.
+ */
+function findOutlines(lines: NoteLine[], used: Set<number>): { front: string; back: string; lines: NoteLine[] }[] {
+  const outlines: { front: string; back: string; lines: NoteLine[] }[] = [];
+
+  // Group consecutive list items (blank lines allowed inside a list)
+  const lists: ListItem[][] = [];
+  let current: ListItem[] = [];
+  for (const line of lines) {
+    const match = line.text.match(LIST_PATTERN);
+    if (match && !used.has(line.index)) {
+      current.push({ line, indent: match[1].replace(/\t/g, '    ').length, text: match[2].replace(BLOCK_ID_PATTERN, '').trim() });
+    } else if (line.text.trim() !== '' || used.has(line.index)) {
+      if (current.length > 0) lists.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) lists.push(current);
+
+  for (const items of lists) {
+    items.forEach((item, i) => {
+      const children: ListItem[] = [];
+      for (let j = i + 1; j < items.length && items[j].indent > item.indent; j++) {
+        children.push(items[j]);
+      }
+      if (!item.text || children.length === 0) return;
+      const childIndent = Math.min(...children.map(child => child.indent));
+      outlines.push({
+        front: item.text,
+        back: children
+          .map(child => `${' '.repeat(child.indent - childIndent)}- ${child.text}`)
+          .join('\n'),
+        lines: [item.line, ...children.map(child => child.line)],
+      });
+    });
+  }
+
+  // Headings whose body is nothing but a list: the heading asks, its top-level items answer
+  lines.forEach((line, i) => {
+    const heading = line.text.match(HEADING_PATTERN);
+    if (!heading) return;
+
+    const body: NoteLine[] = [];
+    for (let j = i + 1; j < lines.length && !HEADING_PATTERN.test(lines[j].text); j++) {
+      if (lines[j].text.trim() !== '') body.push(lines[j]);
+    }
+    if (body.length === 0 || !body.every(l => LIST_PATTERN.test(l.text) && !used.has(l.index))) return;
+
+    const items = body.map(l => l.text.match(LIST_PATTERN) as RegExpMatchArray);
+    const topIndent = Math.min(...items.map(match => match[1].length));
+    const top = items.filter(match => match[1].length === topIndent).map(match => match[2].trim());
+    outlines.push({ front: heading[2], back: top.map(item => `- ${item}`).join('\n'), lines: [line, ...body] });
+  });
+
+  return outlines;
+}
@@ -0,0 +1,297 @@
+/**
+ * Spaced Repetition Import Service
+ * Reads flashcards written for the Obsidian Spaced Repetition plugin and converts them into LearningCards
+ *
+ * - Only notes with a flashcard tag (`#flashcards`, `#flashcards/deck`, also in frontmatter) are read
+ * - `Question::Answer` → flashcard, `Question:::Answer` → flashcard in both directions
+ * - Multi-line cards: question lines, a line with `?` (`??` for both directions), answer lines up to a blank line
+ * - `<!--SR:!2026-01-02,3,250-->` scheduling comments (one `!due,interval,ease` entry per direction)
+ *   become an approximate FSRS review state, so progress carries over
+ *
+ * Card ids are a 53-bit hash of the note path and question, so importing again skips cards already imported.
+ */
+
+import { App, TFile, getAllTags } from 'obsidian';
+import { DataService } from './DataService';
+import { FSRSService } from './FSRSService';
+import { LearningCard, createLearningCard } from '../types/learning';
+import { FSRSCardState, DEFAULT_CARD_STATE } from '../types/fsrs';
+import { DAY_MS, factorToDifficulty } from '../utils/anki';
+
+/**
+ * Import options
+ */
+export interface SRImportOptions {
+  /** Tags that mark flashcard notes (nested tags below them count too) */
+  flashcardTags: string[];
+  /** Convert scheduling comments into FSRS state (otherwise cards start as new) */
+  includeScheduling: boolean;
+}
+
+export const DEFAULT_SR_IMPORT_OPTIONS: SRImportOptions = {
+  flashcardTags: ['#flashcards'],
+  includeScheduling: true,
+};
+
+/**
+ * Import result
+ */
+export interface SRImportResult {
+  cards: LearningCard[];
+  /** Notes with a flashcard tag */
+  noteCount: number;
+  /** Imported cards that had a scheduling comment */
+  scheduledCount: number;
+  /** Cards that already exist in the store */
+  skippedCount: number;
+}
+
+/**
+ * One direction's entry of a scheduling comment
+ */
+export interface SRSchedule {
+  /** Due date (local midnight, Unix ms) */
+  due: number;
+  /** Interval in days */
+  interval: number;
+  /** Ease in percent (250 = 2.5) */
+  ease: number;
+}
+
+/**
+ * A card found in a note
+ */
+export interface SRCardEntry {
+  front: string;
+  back: string;
+  /** Also study the answer → question direction */
+  reversed: boolean;
+  /** Lines of the card (1-based, inclusive) */
+  lines: { start: number; end: number };
+  /** Scheduling entries, forward direction first */
+  schedule: SRSchedule[];
+}
+
+const SCHEDULE_PATTERN = /<!--SR:((?:![^!>]+)+)-->/;
+const SCHEDULE_ENTRY_PATTERN = /^(\d{4})-(\d{2})-(\d{2}),(\d+),(\d+)$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^#{1,6}\s/;
+
+export class SRImportService {
+  private app: App;
+  private dataService: DataService;
+  private fsrsService: FSRSService;
+
+  constructor(app: App, dataService: DataService, fsrsService: FSRSService) {
+    this.app = app;
+    this.dataService = dataService;
+    this.fsrsService = fsrsService;
+  }
+
+  /**
+   * Scan the vault for flashcard notes and save their cards
+   */
+  async importVault(options: SRImportOptions = DEFAULT_SR_IMPORT_OPTIONS): Promise<SRImportResult> {
+    const existingIds = new Set((await this.dataService.loadAllLearningCards()).map(c => c.id));
+    const cards: LearningCard[] = [];
+    let noteCount = 0;
+    let scheduledCount = 0;
+    let skippedCount = 0;
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const deckTags = this.getFlashcardTags(file, options.flashcardTags);
+      if (deckTags.length === 0) continue;
+      noteCount++;
+
+      const content = await this.app.vault.cachedRead(file);
+      for (const entry of parseSRCards(content, options.flashcardTags)) {
+        const directions = entry.reversed
+          ? [{ front: entry.front, back: entry.back }, { front: entry.back, back: entry.front }]
+          : [{ front: entry.front, back: entry.back }];
+
+        directions.forEach((direction, i) => {
+          const id = `sr_${hashId(`${file.path}\n${direction.front}\n${i}`)}`;
+          if (existingIds.has(id)) {
+            skippedCount++;
+            return;
+          }
+          existingIds.add(id);
+
+          const schedule = options.includeScheduling ? entry.schedule[i] : undefined;
+          if (schedule) scheduledCount++;
+          cards.push(createLearningCard({
+            id,
+            type: 'flashcard',
+            sourceFile: file.path,
+            sourceLines: entry.lines,
+            front: direction.front,
+            back: direction.back,
+            tags: deckTags,
+            fsrsState: schedule ? this.scheduleToState(schedule) : undefined,
+          }));
+        });
+      }
+    }
+
+    await this.dataService.saveLearningCards(cards);
+    return { cards, noteCount, scheduledCount, skippedCount };
+  }
+
+  /**
+   * Approximate FSRS state for an SM-2 schedule
+   * SM-2 intervals aim at roughly 90% recall, which is what FSRS stability measures,
+   * so the interval is used as stability; ease maps to difficulty like Anki's factor.
+   */
+  scheduleToState(schedule: SRSchedule): FSRSCardState {
+    const interval = Math.max(1, schedule.interval);
+    const growth = Math.max(1.3, schedule.ease / 100);
+    const state: FSRSCardState = {
+      ...DEFAULT_CARD_STATE,
+      state: 'review',
+      stability: interval,
+      difficulty: factorToDifficulty(schedule.ease * 10),
+      // Reviews it takes SM-2 to reach this interval from one day
+      reps: 1 + Math.ceil(Math.log(interval) / Math.log(growth)),
+      nextReview: schedule.due,
+      scheduledDays: interval,
+      lastReview: schedule.due - interval * DAY_MS,
+    };
+    state.retrievability = this.fsrsService.getRetrievability(state);
+    return state;
+  }
+
+  /**
+   * Flashcard tags of a note, without '#' (used as card tags so decks can be built from them)
+   */
+  private getFlashcardTags(file: TFile, flashcardTags: string[]): string[] {
+    const cache = this.app.metadataCache.getFileCache(file);
+    const tags = cache ? getAllTags(cache) ?? [] : [];
+    return [...new Set(tags.filter(tag => isFlashcardTag(tag, flashcardTags)).map(tag => tag.replace(/^#/, '')))];
+  }
+}
+
+/**
+ * Find the flashcards in a note (frontmatter and code blocks are skipped)
+ */
+export function parseSRCards(content: string, flashcardTags: string[] = DEFAULT_SR_IMPORT_OPTIONS.flashcardTags): SRCardEntry[] {
+  const lines = content.split('\n');
+  const entries: SRCardEntry[] = [];
+  let start = 0;
+  let inFence = false;
+
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    if (end > 0) start = end + 1;
+  }
+
+  // First line of the paragraph a multi-line card's question may start at
+  let paragraphStart = start;
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      paragraphStart = i + 1;
+      continue;
+    }
+    if (inFence) continue;
+    if (line.trim() === '' || HEADING_PATTERN.test(line)) {
+      paragraphStart = i + 1;
+      continue;
+    }
+
+    // Multi-line: question above `?` / `??`, answer below up to a blank line
+    const separator = line.trim();
+    if ((separator === '?' || separator === '??') && i > paragraphStart) {
+      let end = i;
+      while (end + 1 < lines.length && lines[end + 1].trim() !== '' && !FENCE_PATTERN.test(lines[end + 1])) end++;
+
+      const answerLines = lines.slice(i + 1, end + 1);
+      const schedule = parseSchedule(answerLines.join('\n'));
+      const front = cleanText(lines.slice(paragraphStart, i).join('\n'), flashcardTags);
+      const back = cleanText(answerLines.join('\n'), flashcardTags);
+      if (front && back) {
+        entries.push({ front, back, reversed: separator === '??', lines: { start: paragraphStart + 1, end: end + 1 }, schedule });
+      }
+      i = end;
+      paragraphStart = end + 1;
+      continue;
+    }
+
+    // Single line: `Question::Answer` / `Question:::Answer`
+    const reversedAt = line.indexOf(':::');
+    const at = reversedAt >= 0 ? reversedAt : line.indexOf('::');
+    if (at < 0) continue;
+
+    let end = i;
+    let schedule = parseSchedule(line);
+    if (schedule.length === 0 && lines[i + 1] && SCHEDULE_PATTERN.test(lines[i + 1]) && lines[i + 1].trim().startsWith('<!--SR:')) {
+      schedule = parseSchedule(lines[i + 1]);
+      end = i + 1;
+    }
+
+    const front = cleanText(line.slice(0, at), flashcardTags);
+    const back = cleanText(line.slice(at + (reversedAt >= 0 ? 3 : 2)), flashcardTags);
+    if (front && back) {
+      entries.push({ front, back, reversed: reversedAt >= 0, lines: { start: i + 1, end: end + 1 }, schedule });
+      paragraphStart = end + 1;
+    }
+    i = end;
+  }
+
+  return entries;
+}
+
+/**
+ * Entries of a scheduling comment (empty when there is none)
+ */
+export function parseSchedule(text: string): SRSchedule[] {
+  const match = text.match(SCHEDULE_PATTERN);
+  if (!match) return [];
+
+  return match[1].split('!').filter(Boolean).flatMap(raw => {
+    const entry = raw.trim().match(SCHEDULE_ENTRY_PATTERN);
+    if (!entry) return [];
+    const [, year, month, day, interval, ease] = entry;
+    return [{
+      due: new Date(Number(year), Number(month) - 1, Number(day)).getTime(),
+      interval: Number(interval),
+      ease: Number(ease),
+    }];
+  });
+}
+
+function isFlashcardTag(tag: string, flashcardTags: string[]): boolean {
+  return flashcardTags.some(flashcardTag => {
+    const normalized = flashcardTag.startsWith('#') ? flashcardTag : `#${flashcardTag}`;
+    return tag === normalized || tag.startsWith(`${normalized}/`);
+  });
+}
+
+/**
+ * 53-bit hash (cyrb53, 14 hex digits), so ids across a whole vault are unlikely to collide
+ */
+function hashId(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/**
+ * Card text without scheduling comments and flashcard tags
+ */
+function cleanText(text: string, flashcardTags: string[]): string {
+  return text
+    .replace(new RegExp(SCHEDULE_PATTERN.source, 'g'), '')
+    .split(/(\s+)/)
+    .filter(word => !(word.startsWith('#') && isFlashcardTag(word, flashcardTags)))
+    .join('')
+    .trim();
+}
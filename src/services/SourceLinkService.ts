@@ -0,0 +1,196 @@
+/**
+ * Source Link Service
+ * Links cards back to the passage they were generated from
+ *
+ * - Appends a block reference (^sil-xxxxxx) to the source passage, when enabled
+ * - Opens a card's source note scrolled to its block, line range or heading
+ * - Rewrites sourceFile when notes or folders are renamed
+ */
+
+import { App, MarkdownView, TFile } from 'obsidian';
+import { LearningCard } from '../types/learning';
+
+/** Block id at the end of a line (`text ^block-id`) */
+const BLOCK_ID_PATTERN = /\s\^([A-Za-z0-9-]+)\s*$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+const LIST_ITEM_PATTERN = /^\s*([-*+]|\d+[.)])\s/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Passage location in a note (0-based lines, inclusive)
+ */
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export class SourceLinkService {
+  private app: App;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  /**
+   * Add a block id to the first paragraph of each card's source passage
+   * Cards from the same passage share one id; an existing block id is reused.
+   * @returns Cards with sourceBlockId set where a block could be found
+   */
+  async assignBlockIds(file: TFile, cards: LearningCard[]): Promise<LearningCard[]> {
+    const targets = cards.filter(c => c.sourceFile === file.path && c.sourceLines && !c.sourceBlockId);
+    if (targets.length === 0) return cards;
+
+    const assigned = new Map<number, string>();
+    await this.app.vault.process(file, (content) => {
+      const lines = content.split('\n');
+
+      for (const card of targets) {
+        const { start, end } = card.sourceLines!;
+        if (assigned.has(start)) continue;
+
+        const lineIndex = findBlockLine(lines, start - 1, end - 1);
+        if (lineIndex < 0) continue;
+
+        const existing = lines[lineIndex].match(BLOCK_ID_PATTERN);
+        const blockId = existing ? existing[1] : createBlockId();
+        if (!existing) {
+          lines[lineIndex] = `${lines[lineIndex].trimEnd()} ^${blockId}`;
+        }
+        assigned.set(start, blockId);
+      }
+
+      return lines.join('\n');
+    });
+
+    return cards.map(card => {
+      const blockId = card.sourceFile === file.path && card.sourceLines
+        ? assigned.get(card.sourceLines.start)
+        : undefined;
+      return blockId ? { ...card, sourceBlockId: blockId } : card;
+    });
+  }
+
+  /**
+   * Open the card's source note and select the passage it came from
+   * @returns false when the note no longer exists
+   */
+  async openSource(card: LearningCard): Promise<boolean> {
+    const file = this.app.vault.getAbstractFileByPath(card.sourceFile);
+    if (!(file instanceof TFile)) return false;
+
+    const content = await this.app.vault.cachedRead(file);
+    const range = locateSource(content, card);
+
+    const leaf = this.app.workspace.getLeaf(false);
+    await leaf.openFile(file, { active: true, eState: range ? { line: range.start } : undefined });
+
+    if (range && leaf.view instanceof MarkdownView) {
+      const editor = leaf.view.editor;
+      const from = { line: range.start, ch: 0 };
+      const to = { line: range.end, ch: editor.getLine(range.end)?.length ?? 0 };
+      editor.setSelection(from, to);
+      editor.scrollIntoView({ from, to }, true);
+    }
+    return true;
+  }
+
+  /**
+   * Cards whose source moved with a renamed note or folder, with the new path applied
+   */
+  renameSources(cards: LearningCard[], oldPath: string, newPath: string): LearningCard[] {
+    const renamed: LearningCard[] = [];
+    for (const card of cards) {
+      const path = movePath(card.sourceFile, oldPath, newPath);
+      if (path) {
+        renamed.push({ ...card, sourceFile: path, updatedAt: Date.now() });
+      }
+    }
+    return renamed;
+  }
+}
+
+/**
+ * New path of `path` after `oldPath` was renamed to `newPath` (null when unaffected)
+ */
+export function movePath(path: string, oldPath: string, newPath: string): string | null {
+  if (path === oldPath) return newPath;
+  if (path.startsWith(`${oldPath}/`)) return newPath + path.slice(oldPath.length);
+  return null;
+}
+
+/**
+ * Find a card's passage: block id first (survives edits), then line range, then heading
+ */
+export function locateSource(content: string, card: LearningCard): SourceRange | null {
+  const lines = content.split('\n');
+
+  if (card.sourceBlockId) {
+    const line = lines.findIndex(l => l.match(BLOCK_ID_PATTERN)?.[1] === card.sourceBlockId);
+    if (line >= 0) {
+      let start = line;
+      while (start > 0 && isBlockText(lines[start - 1]) && !FENCE_PATTERN.test(lines[start - 1])
+        && !LIST_ITEM_PATTERN.test(lines[start])) {
+        start--;
+      }
+      return { start, end: line };
+    }
+  }
+
+  if (card.sourceLines && card.sourceLines.start <= lines.length) {
+    return {
+      start: card.sourceLines.start - 1,
+      end: Math.min(card.sourceLines.end, lines.length) - 1,
+    };
+  }
+
+  const heading = card.sourceHeadings?.[card.sourceHeadings.length - 1];
+  if (heading) {
+    const line = lines.findIndex(l => l.match(HEADING_PATTERN)?.[1] === heading);
+    if (line >= 0) return { start: line, end: line };
+  }
+
+  return null;
+}
+
+/**
+ * Line that can carry a block id: the end of the first paragraph or list item in the range
+ */
+function findBlockLine(lines: string[], start: number, end: number): number {
+  let inFence = false;
+
+  for (let i = Math.max(0, start); i <= Math.min(end, lines.length - 1); i++) {
+    const line = lines[i];
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence || !isBlockText(line)) continue;
+
+    if (LIST_ITEM_PATTERN.test(line) || BLOCK_ID_PATTERN.test(line)) return i;
+
+    // Paragraph: the id goes after its last line
+    let last = i;
+    while (last + 1 <= end && isBlockText(lines[last + 1]) && !LIST_ITEM_PATTERN.test(lines[last + 1])
+      && !FENCE_PATTERN.test(lines[last + 1])) {
+      last++;
+    }
+    return last;
+  }
+
+  return -1;
+}
+
+/** Plain paragraph or list text (not blank, heading, table, rule or comment) */
+function isBlockText(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length > 0
+    && !HEADING_PATTERN.test(trimmed)
+    && !trimmed.startsWith('|')
+    && !/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)
+    && !trimmed.startsWith('%%')
+    && !trimmed.startsWith('<!--');
+}
+
+function createBlockId(): string {
+  return `sil-${Math.random().toString(36).slice(2, 8)}`;
+}
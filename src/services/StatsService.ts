@@ -0,0 +1,166 @@
+/**
+ * Stats Service
+ * Numbers for the statistics dashboard, computed from cards, review logs and daily stats
+ *
+ * - Days are the UTC date keys (YYYY-MM-DD) that review log and daily stats files use
+ * - True retention counts only reviews of graduated cards (stateBefore 'review'),
+ *   passed = rated Hard or better; custom study reviews are left out
+ */
+
+import { LearningCard, LearningCardType } from '../types/learning';
+import { DailyStats, LearningStats, RATING, ReviewLog, isScheduledReview } from '../types/fsrs';
+import { FSRSService } from './FSRSService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Card age at review time (upper bound in days) */
+export const AGE_BUCKETS = [
+  { key: 'week', maxDays: 7 },
+  { key: 'month', maxDays: 30 },
+  { key: 'quarter', maxDays: 90 },
+  { key: 'halfYear', maxDays: 180 },
+  { key: 'older', maxDays: Infinity },
+] as const;
+
+/** Stability ranges (upper bound in days) */
+export const STABILITY_BUCKETS = [
+  { key: 'day', maxDays: 1 },
+  { key: 'week', maxDays: 7 },
+  { key: 'month', maxDays: 30 },
+  { key: 'quarter', maxDays: 90 },
+  { key: 'year', maxDays: 365 },
+  { key: 'longer', maxDays: Infinity },
+] as const;
+
+export type AgeBucket = typeof AGE_BUCKETS[number]['key'];
+export type StabilityBucket = typeof STABILITY_BUCKETS[number]['key'];
+
+/**
+ * True retention of one group of reviews
+ */
+export interface RetentionGroup<K extends string> {
+  key: K;
+  reviews: number;
+  passed: number;
+  /** passed / reviews (0 when there are no reviews) */
+  retention: number;
+}
+
+/**
+ * Everything the statistics dashboard shows
+ */
+export interface DashboardStats {
+  overview: LearningStats;
+  /** Reviews per day for the last year (oldest first, today last) */
+  heatmap: { date: string; count: number }[];
+  retentionByAge: RetentionGroup<AgeBucket>[];
+  retentionByType: RetentionGroup<LearningCardType>[];
+  /** Studied cards per stability range */
+  stabilityDistribution: { key: StabilityBucket; count: number }[];
+  /** Review time per day for the last 30 days (oldest first) */
+  timePerDay: { date: string; minutes: number }[];
+  /** Due reviews per day for the next 30 days (today includes overdue cards) */
+  forecast: { date: string; count: number }[];
+}
+
+export class StatsService {
+  private fsrsService: FSRSService;
+
+  constructor(fsrsService: FSRSService) {
+    this.fsrsService = fsrsService;
+  }
+
+  buildDashboard(
+    cards: LearningCard[],
+    reviewLogs: ReviewLog[],
+    dailyStats: DailyStats[],
+    now: number = Date.now()
+  ): DashboardStats {
+    const statsByDate = new Map(dailyStats.map(stats => [stats.date, stats]));
+
+    return {
+      overview: this.fsrsService.calculateLearningStats(cards, reviewLogs, dailyStats),
+      heatmap: lastDays(365, now).map(date => ({ date, count: statsByDate.get(date)?.reviewed ?? 0 })),
+      retentionByAge: this.getRetentionByAge(cards, reviewLogs),
+      retentionByType: this.getRetentionByType(cards, reviewLogs),
+      stabilityDistribution: this.getStabilityDistribution(cards),
+      timePerDay: lastDays(30, now).map(date => ({
+        date,
+        minutes: (statsByDate.get(date)?.totalTime ?? 0) / 60000,
+      })),
+      forecast: [...this.fsrsService.predictWorkload(cards, 30)].map(([date, count]) => ({ date, count })),
+    };
+  }
+
+  /**
+   * Retention by how old the card was when it was reviewed
+   */
+  getRetentionByAge(cards: LearningCard[], reviewLogs: ReviewLog[]): RetentionGroup<AgeBucket>[] {
+    const createdAt = new Map(cards.map(card => [card.id, card.createdAt]));
+    return groupRetention(
+      AGE_BUCKETS.map(bucket => bucket.key),
+      reviewLogs,
+      log => {
+        const created = createdAt.get(log.cardId);
+        if (created === undefined) return null;
+        const ageDays = (log.timestamp - created) / DAY_MS;
+        return AGE_BUCKETS.find(bucket => ageDays < bucket.maxDays)?.key ?? null;
+      }
+    );
+  }
+
+  /**
+   * Retention per card type (types without reviews are left out)
+   */
+  getRetentionByType(cards: LearningCard[], reviewLogs: ReviewLog[]): RetentionGroup<LearningCardType>[] {
+    const types = new Map(cards.map(card => [card.id, card.type]));
+    const keys = [...new Set(cards.map(card => card.type))];
+    return groupRetention(keys, reviewLogs, log => types.get(log.cardId) ?? null)
+      .filter(group => group.reviews > 0);
+  }
+
+  getStabilityDistribution(cards: LearningCard[]): { key: StabilityBucket; count: number }[] {
+    const counts = new Map<StabilityBucket, number>(STABILITY_BUCKETS.map(bucket => [bucket.key, 0]));
+    for (const card of cards) {
+      if (card.fsrsState.state === 'new') continue;
+      const bucket = STABILITY_BUCKETS.find(b => card.fsrsState.stability < b.maxDays);
+      if (bucket) counts.set(bucket.key, (counts.get(bucket.key) ?? 0) + 1);
+    }
+    return [...counts].map(([key, count]) => ({ key, count }));
+  }
+}
+
+/**
+ * Count passed graduated-card reviews per group
+ * @param groupOf Group of a review log (null: not counted)
+ */
+function groupRetention<K extends string>(
+  keys: K[],
+  reviewLogs: ReviewLog[],
+  groupOf: (log: ReviewLog) => K | null
+): RetentionGroup<K>[] {
+  const groups = new Map<K, RetentionGroup<K>>(
+    keys.map(key => [key, { key, reviews: 0, passed: 0, retention: 0 }])
+  );
+  for (const log of reviewLogs) {
+    if (log.stateBefore !== 'review' || !isScheduledReview(log)) continue;
+    const group = groupOf(log);
+    const entry = group !== null ? groups.get(group) : undefined;
+    if (!entry) continue;
+    entry.reviews++;
+    if (log.rating >= RATING.HARD) entry.passed++;
+  }
+  return [...groups.values()].map(group => ({
+    ...group,
+    retention: group.reviews > 0 ? group.passed / group.reviews : 0,
+  }));
+}
+
+/**
+ * Date keys of the last n days, oldest first and ending today
+ */
+function lastDays(n: number, now: number): string[] {
+  return Array.from({ length: n }, (_, i) =>
+    new Date(now - (n - 1 - i) * DAY_MS).toISOString().split('T')[0]
+  );
+}
@@ -5,7 +5,7 @@
 
 import create from 'zustand';
 import { AIProvider, AIProviderDefinition, AIModelDefinition, BUILT_IN_PROVIDERS, BUILT_IN_MODELS } from '../types/ai';
-import { LearningCard, LearningCardType, Deck, StudyPreferences, DEFAULT_STUDY_PREFERENCES } from '../types/learning';
+import { LearningCard, LearningCardType, CardDraft, Deck, StudyPreferences, DEFAULT_STUDY_PREFERENCES, AnswerEvaluation } from '../types/learning';
 import { StudySession, LearningStats, SchedulingCards } from '../types/fsrs';
 
 /**
@@ -16,6 +16,11 @@ export interface GenerationSettings {
   defaultCountPerType: number;
   skipGeneratedNotes: boolean;
   trackInFrontmatter: boolean;
+  streamResponses: boolean;
+  reviewBeforeSaving: boolean;
+  chunkTokenBudget: number;
+  insertBlockIds: boolean;
+  inlineCards: 'off' | 'fence' | 'callout';
 }
 
 /**
@@ -42,6 +47,16 @@ export interface BatchProgress {
   isRunning: boolean;
 }
 
+/**
+ * Live preview of a streaming generation
+ */
+export interface StreamingPreview {
+  /** Note the cards are generated from */
+  sourceFile: string;
+  /** Cards completed so far */
+  cards: LearningCard[];
+}
+
 /**
  * Default generation config
  */
@@ -68,7 +83,7 @@ const DEFAULT_BATCH_PROGRESS: BatchProgress = {
 /**
  * Application view modes (simplified to 4)
  */
-export type AppMode = 'study' | 'review' | 'card-editor' | 'settings' | null;
+export type AppMode = 'study' | 'review' | 'card-editor' | 'stats' | 'settings' | null;
 
 /**
  * Review state during a study session
@@ -88,12 +103,10 @@ export interface ReviewState {
   userAnswer: string;
   /** Whether answer has been submitted */
   isAnswerSubmitted: boolean;
-  /** Evaluation result from AI */
-  evaluationResult: {
-    isCorrect: boolean;
-    score: number;
-    feedback: string;
-  } | null;
+  /** Evaluation result from AI (short answer cards) */
+  evaluationResult: AnswerEvaluation | null;
+  /** Whether the AI is grading the submitted answer */
+  isEvaluating: boolean;
   /** Review queue (card IDs) */
   queue: string[];
   /** Whether session is active */
@@ -145,6 +158,8 @@ export interface AppStateData {
   generationSettings: GenerationSettings;
   generationConfig: GenerationConfig;
   batchProgress: BatchProgress;
+  streamingPreview: StreamingPreview | null;
+  cardDrafts: CardDraft[];
 }
 
 export interface AppState extends AppStateData {
@@ -206,6 +221,15 @@ export interface AppState extends AppStateData {
   setGenerationConfig: (config: Partial<GenerationConfig>) => void;
   setBatchProgress: (progress: Partial<BatchProgress>) => void;
   resetBatchProgress: () => void;
+  startStreamingPreview: (sourceFile: string) => void;
+  addStreamingCard: (card: LearningCard) => void;
+  clearStreamingPreview: () => void;
+
+  // Review Queue Actions
+  setCardDrafts: (drafts: CardDraft[]) => void;
+  addCardDrafts: (drafts: CardDraft[]) => void;
+  updateCardDraft: (cardId: string, draft: CardDraft) => void;
+  removeCardDrafts: (cardIds: string[]) => void;
 
   // Reset
   reset: () => void;
@@ -223,6 +247,7 @@ const initialReviewState: ReviewState = {
   userAnswer: '',
   isAnswerSubmitted: false,
   evaluationResult: null,
+  isEvaluating: false,
   queue: [],
   isActive: false,
   showAnswer: false,
@@ -259,9 +284,16 @@ const initialState: AppStateData = {
     defaultCountPerType: 3,
     skipGeneratedNotes: true,
     trackInFrontmatter: true,
+    streamResponses: true,
+    reviewBeforeSaving: true,
+    chunkTokenBudget: 3000,
+    insertBlockIds: false,
+    inlineCards: 'off',
   },
   generationConfig: DEFAULT_GENERATION_CONFIG,
   batchProgress: DEFAULT_BATCH_PROGRESS,
+  streamingPreview: null,
+  cardDrafts: [],
 };
 
 export const useAppStore = create<AppState>((set, get) => ({
@@ -346,6 +378,8 @@ export const useAppStore = create<AppState>((set, get) => ({
       currentMode: 'review',
       reviewState: {
         ...initialReviewState,
+        queue: session.queue.map((item) => item.cardId),
+        isActive: true,
         cardShowTime: Date.now(),
       },
     }),
@@ -375,6 +409,7 @@ export const useAppStore = create<AppState>((set, get) => ({
         userAnswer: '',
         isAnswerSubmitted: false,
         evaluationResult: null,
+        isEvaluating: false,
         selectedOptionId: null,
         blankAnswers: card?.blanks?.map(() => '') || [],
       },
@@ -418,6 +453,7 @@ export const useAppStore = create<AppState>((set, get) => ({
       reviewState: {
         ...state.reviewState,
         evaluationResult: result,
+        isEvaluating: false,
       },
     })),
 
@@ -510,6 +546,38 @@ export const useAppStore = create<AppState>((set, get) => ({
       batchProgress: DEFAULT_BATCH_PROGRESS,
     }),
 
+  startStreamingPreview: (sourceFile) =>
+    set({
+      streamingPreview: { sourceFile, cards: [] },
+    }),
+
+  addStreamingCard: (card) =>
+    set((state) => ({
+      streamingPreview: state.streamingPreview
+        ? { ...state.streamingPreview, cards: [...state.streamingPreview.cards, card] }
+        : null,
+    })),
+
+  clearStreamingPreview: () => set({ streamingPreview: null }),
+
+  // Review Queue Actions
+  setCardDrafts: (drafts) => set({ cardDrafts: drafts }),
+
+  addCardDrafts: (drafts) =>
+    set((state) => ({
+      cardDrafts: [...state.cardDrafts, ...drafts],
+    })),
+
+  updateCardDraft: (cardId, draft) =>
+    set((state) => ({
+      cardDrafts: state.cardDrafts.map((d) => (d.card.id === cardId ? draft : d)),
+    })),
+
+  removeCardDrafts: (cardIds) =>
+    set((state) => ({
+      cardDrafts: state.cardDrafts.filter((d) => !cardIds.includes(d.card.id)),
+    })),
+
   // Reset
   reset: () => set(initialState),
 }));
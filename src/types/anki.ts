@@ -0,0 +1,215 @@
+/**
+ * Anki Package Types
+ * Structures of the legacy Anki collection (schema 11) used by .apkg / .colpkg files
+ *
+ * Reference: https://github.com/ankitects/anki/blob/main/rslib/src/storage/schema11.sql
+ */
+
+/**
+ * Anki card type (cards.type column)
+ */
+export const ANKI_CARD_TYPE = {
+  NEW: 0,
+  LEARNING: 1,
+  REVIEW: 2,
+  RELEARNING: 3,
+} as const;
+
+/**
+ * Anki card queue (cards.queue column)
+ */
+export const ANKI_CARD_QUEUE = {
+  SUSPENDED: -1,
+  NEW: 0,
+  LEARNING: 1,
+  REVIEW: 2,
+  DAY_LEARNING: 3,
+} as const;
+
+/**
+ * Anki review log type (revlog.type column)
+ */
+export const ANKI_REVLOG_TYPE = {
+  LEARNING: 0,
+  REVIEW: 1,
+  RELEARNING: 2,
+  FILTERED: 3,
+  MANUAL: 4,
+} as const;
+
+/**
+ * Anki note type kind (model.type)
+ */
+export const ANKI_MODEL_KIND = {
+  STANDARD: 0,
+  CLOZE: 1,
+} as const;
+
+/** Separator between note fields in notes.flds */
+export const ANKI_FIELD_SEPARATOR = '\x1f';
+
+/**
+ * Note type field definition
+ */
+export interface AnkiField {
+  name: string;
+  ord: number;
+  sticky: boolean;
+  rtl: boolean;
+  font: string;
+  size: number;
+  media: string[];
+}
+
+/**
+ * Note type card template
+ */
+export interface AnkiTemplate {
+  name: string;
+  ord: number;
+  qfmt: string;
+  afmt: string;
+  bqfmt: string;
+  bafmt: string;
+  did: number | null;
+}
+
+/**
+ * Note type (col.models entry)
+ */
+export interface AnkiModel {
+  id: number;
+  name: string;
+  type: number;
+  mod: number;
+  usn: number;
+  sortf: number;
+  did: number;
+  tmpls: AnkiTemplate[];
+  flds: AnkiField[];
+  css: string;
+  latexPre: string;
+  latexPost: string;
+  latexsvg: boolean;
+  req: [number, string, number[]][];
+  tags: string[];
+  vers: number[];
+}
+
+/**
+ * Deck (col.decks entry)
+ */
+export interface AnkiDeck {
+  id: number;
+  name: string;
+  desc: string;
+  mod: number;
+  usn: number;
+  dyn: number;
+  conf: number;
+  collapsed: boolean;
+  browserCollapsed: boolean;
+  extendNew: number;
+  extendRev: number;
+  newToday: [number, number];
+  revToday: [number, number];
+  lrnToday: [number, number];
+  timeToday: [number, number];
+}
+
+/**
+ * FSRS memory state stored in cards.data by Anki 23.10+
+ */
+export interface AnkiCardData {
+  /** Stability in days */
+  s?: number;
+  /** Difficulty (1-10) */
+  d?: number;
+  /** Desired retention */
+  dr?: number;
+}
+
+/**
+ * Row of the notes table
+ */
+export interface AnkiNoteRow {
+  id: number;
+  guid: string;
+  mid: number;
+  mod: number;
+  tags: string;
+  flds: string;
+}
+
+/**
+ * Row of the cards table
+ */
+export interface AnkiCardRow {
+  id: number;
+  nid: number;
+  did: number;
+  /** Original deck while the card sits in a filtered deck (0 otherwise) */
+  odid: number;
+  ord: number;
+  type: number;
+  queue: number;
+  due: number;
+  /** Original due while the card sits in a filtered deck */
+  odue: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+  left: number;
+  data: string;
+}
+
+/**
+ * Row of the revlog table
+ */
+export interface AnkiRevlogRow {
+  id: number;
+  cid: number;
+  ease: number;
+  ivl: number;
+  lastIvl: number;
+  factor: number;
+  time: number;
+  type: number;
+}
+
+/**
+ * Row of the schema 18 notetypes table (config is a protobuf blob)
+ */
+export interface AnkiNotetypeRow {
+  id: number;
+  name: string;
+  config: Uint8Array;
+}
+
+/**
+ * Row of the schema 18 fields table
+ */
+export interface AnkiFieldRow {
+  ntid: number;
+  ord: number;
+  name: string;
+}
+
+/**
+ * Row of the schema 18 templates table (config is a protobuf blob)
+ */
+export interface AnkiTemplateRow {
+  ntid: number;
+  ord: number;
+  config: Uint8Array;
+}
+
+/**
+ * Row of the schema 18 decks table (name levels are separated by \x1f)
+ */
+export interface AnkiDeckRow {
+  id: number;
+  name: string;
+  kind: Uint8Array;
+}
@@ -0,0 +1,9 @@
+/**
+ * Ambient declarations for non-TypeScript assets bundled by esbuild
+ * (see the `loader` option in esbuild.config.mjs)
+ */
+
+declare module '*.wasm' {
+  const binary: Uint8Array;
+  export default binary;
+}
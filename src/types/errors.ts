@@ -88,6 +88,16 @@ export class RateLimitError extends AIServiceError {
   }
 }
 
+/**
+ * Generation cancelled by the user (streaming request aborted)
+ */
+export class GenerationCancelledError extends AIServiceError {
+  constructor(provider: string) {
+    super('Generation cancelled', provider);
+    this.name = 'GenerationCancelledError';
+  }
+}
+
 /**
  * Text extraction errors
  */
@@ -116,6 +126,21 @@ export class DataServiceError extends InfoLearnError {
   }
 }
 
+/**
+ * Stored data that cannot be upgraded to the current schema
+ */
+export class DataMigrationError extends InfoLearnError {
+  constructor(
+    message: string,
+    public readonly kind: string,
+    public readonly fromVersion: number,
+    public readonly originalError?: unknown
+  ) {
+    super(message, 'DATA_MIGRATION_ERROR');
+    this.name = 'DataMigrationError';
+  }
+}
+
 /**
  * Type guard for Axios errors
  */
@@ -105,6 +105,8 @@ export interface FSRSCardState {
   scheduledDays: number;
   /** Elapsed days since last review */
   elapsedDays: number;
+  /** Current learning/relearning step (index into the config's steps) */
+  step?: number;
 }
 
 /**
@@ -143,6 +145,16 @@ export interface ReviewLog {
   elapsedDays: number;
   /** Time spent on review (ms) */
   reviewDuration: number;
+  /** Set for reviews in a custom study session (scheduling was not changed) */
+  customStudy?: CustomStudyMode;
+}
+
+/**
+ * Whether a review counts for scheduling (custom study reviews are left out of
+ * daily limits, statistics and the optimizer)
+ */
+export function isScheduledReview(log: ReviewLog): boolean {
+  return !log.customStudy;
 }
 
 /**
@@ -233,6 +245,10 @@ export interface StudySessionConfig {
   easyInterval: number;
   /** Enable adaptive learning (adjust based on performance) */
   adaptiveLearning: boolean;
+  /** Pick the least busy day within the fuzz range instead of a random one */
+  loadBalancing: boolean;
+  /** Weekdays (0 = Sunday … 6 = Saturday) to keep light, by local calendar day; reviews move to other days in the fuzz range */
+  easyDays: number[];
 }
 
 /**
@@ -246,6 +262,8 @@ export const DEFAULT_STUDY_CONFIG: StudySessionConfig = {
   graduatingInterval: 1, // 1 day
   easyInterval: 4, // 4 days
   adaptiveLearning: true,
+  loadBalancing: true,
+  easyDays: [],
 };
 
 /**
@@ -258,6 +276,51 @@ export interface ReviewQueueItem {
   priority: number; // Lower = higher priority
 }
 
+/**
+ * Reviews already done today, counted against the daily limits
+ */
+export interface DailyUsage {
+  /** New cards introduced */
+  newCards: number;
+  /** Reviews of cards in the review state */
+  reviews: number;
+}
+
+/**
+ * Options for building a study queue
+ */
+export interface StudyQueueOptions {
+  now?: number;
+  /** Today's usage across all cards (against newCardsPerDay / maxReviewsPerDay) */
+  usage?: DailyUsage;
+  /** Additional limits for the cards being studied (deck settings) with their own usage today */
+  deckLimits?: {
+    newCardsPerDay?: number;
+    reviewsPerDay?: number;
+    usage: DailyUsage;
+  };
+}
+
+/**
+ * Custom study modes; their reviews never change fsrsState
+ * - cram: every card in the scope
+ * - lowest-retrievability: studied cards, the ones most likely forgotten first
+ * - preview: studied cards that are not due yet, the soonest first
+ * - failed-today: cards rated Again today
+ */
+export type CustomStudyMode = 'cram' | 'lowest-retrievability' | 'preview' | 'failed-today';
+
+/**
+ * Options for a custom study session
+ */
+export interface CustomStudyOptions {
+  mode: CustomStudyMode;
+  /** Cards to choose from (the folder and note are paths, the tag has no #) */
+  scope: { kind: 'all' | 'folder' | 'tag' | 'note'; value?: string };
+  /** Maximum cards in the session */
+  limit: number;
+}
+
 /**
  * Study session state
  */
@@ -276,6 +339,10 @@ export interface StudySession {
   newLearnedCount: number;
   /** Cards failed in this session */
   failedCount: number;
+  /** Learning cards that come back in this session once their step has passed */
+  waiting: ReviewQueueItem[];
+  /** Custom study session (ratings are logged but do not reschedule) */
+  customStudy?: CustomStudyMode;
   /** Is session active */
   isActive: boolean;
 }
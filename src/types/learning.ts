@@ -33,8 +33,17 @@ export interface BlankPosition {
   position: number;
   /** The answer for this blank */
   answer: string;
+  /** Other accepted answers (synonyms, spellings) */
+  alternatives?: string[];
 }
 
+/**
+ * Source note state of a card
+ * - changed: the note content changed since the card was generated
+ * - orphaned: the note was deleted
+ */
+export type CardSourceStatus = 'changed' | 'orphaned';
+
 /**
  * Core learning card structure (simplified)
  */
@@ -47,6 +56,14 @@ export interface LearningCard {
   sourceFile: string;
   /** Original source text (for reference) */
   sourceText?: string;
+  /** Headings above the source passage, outermost first */
+  sourceHeadings?: string[];
+  /** Line range of the source passage in the note (1-based, inclusive) */
+  sourceLines?: { start: number; end: number };
+  /** Block id (without ^) appended to the source passage */
+  sourceBlockId?: string;
+  /** Set when the source note was edited or deleted after the card was made */
+  sourceStatus?: CardSourceStatus;
 
   /** Question / Front side */
   front: string;
@@ -86,6 +103,9 @@ export function createLearningCard(
     type: partial.type,
     sourceFile: partial.sourceFile,
     sourceText: partial.sourceText,
+    sourceHeadings: partial.sourceHeadings,
+    sourceLines: partial.sourceLines,
+    sourceBlockId: partial.sourceBlockId,
     front: partial.front,
     back: partial.back,
     hint: partial.hint,
@@ -145,6 +165,16 @@ export interface AnswerEvaluation {
   suggestion?: string;
 }
 
+/**
+ * AI re-check of a card against its edited source passage
+ */
+export interface SourceRecheckResult {
+  /** The card is still correct for the current passage */
+  isValid: boolean;
+  /** Why the card is (or is no longer) supported */
+  reason: string;
+}
+
 /**
  * Question generation request
  */
@@ -177,6 +207,18 @@ export interface QuestionGenerationResult {
   notes?: string[];
 }
 
+/**
+ * AI-generated card waiting in the review queue before it is saved
+ */
+export interface CardDraft {
+  /** Generated card (saved as-is when accepted) */
+  card: LearningCard;
+  /** Quality issues reported by QuestionGeneratorService.validateCards */
+  issues: string[];
+  /** When the draft was queued */
+  createdAt: number;
+}
+
 /**
  * Study preferences
  */
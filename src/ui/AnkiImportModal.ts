@@ -0,0 +1,83 @@
+/**
+ * AnkiImportModal - Modal for picking an Anki package and import options
+ */
+
+import { Modal, App, Notice, Setting } from 'obsidian';
+import { AnkiImportOptions, DEFAULT_ANKI_IMPORT_OPTIONS } from '../services/AnkiImportService';
+import { t } from '../i18n';
+
+export interface AnkiImportModalResult {
+  fileName: string;
+  data: Uint8Array;
+  options: AnkiImportOptions;
+}
+
+export class AnkiImportModal extends Modal {
+  private onSubmit: (result: AnkiImportModalResult) => void;
+  private options: AnkiImportOptions = { ...DEFAULT_ANKI_IMPORT_OPTIONS };
+  private fileInput!: HTMLInputElement;
+
+  constructor(app: App, onSubmit: (result: AnkiImportModalResult) => void) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl, modalEl } = this;
+    contentEl.empty();
+    contentEl.addClass('sil-anki-import-modal');
+    modalEl.addClass('sil-compact-modal');
+
+    contentEl.createEl('h3', { text: t().ankiImport.title });
+
+    const form = contentEl.createDiv({ cls: 'sil-modal-form-compact' });
+    const fileRow = form.createDiv({ cls: 'sil-form-row' });
+    fileRow.createEl('label', { text: t().ankiImport.selectFile });
+    this.fileInput = fileRow.createEl('input', {
+      attr: { type: 'file', accept: '.apkg,.colpkg' },
+    });
+
+    new Setting(form)
+      .setName(t().ankiImport.includeScheduling)
+      .setDesc(t().ankiImport.includeSchedulingDesc)
+      .addToggle(toggle => toggle
+        .setValue(this.options.includeScheduling)
+        .onChange(value => { this.options.includeScheduling = value; }));
+
+    new Setting(form)
+      .setName(t().ankiImport.importMedia)
+      .setDesc(t().ankiImport.importMediaDesc)
+      .addToggle(toggle => toggle
+        .setValue(this.options.importMedia)
+        .onChange(value => { this.options.importMedia = value; }))
+      .addText(text => text
+        .setPlaceholder(DEFAULT_ANKI_IMPORT_OPTIONS.mediaFolder)
+        .setValue(this.options.mediaFolder)
+        .onChange(value => { this.options.mediaFolder = value.trim() || DEFAULT_ANKI_IMPORT_OPTIONS.mediaFolder; }));
+
+    const buttonRow = contentEl.createDiv({ cls: 'sil-modal-buttons-compact' });
+
+    const cancelBtn = buttonRow.createEl('button', { text: t().common.cancel, cls: 'sil-btn-compact' });
+    cancelBtn.onclick = () => this.close();
+
+    const importBtn = buttonRow.createEl('button', { text: t().ankiImport.importButton, cls: 'sil-btn-compact sil-btn-primary-compact' });
+    importBtn.onclick = () => this.handleImport();
+  }
+
+  private async handleImport(): Promise<void> {
+    const file = this.fileInput.files?.[0];
+    if (!file) {
+      new Notice(t().notice.selectFileFirst);
+      return;
+    }
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    this.onSubmit({ fileName: file.name, data, options: { ...this.options } });
+    this.close();
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
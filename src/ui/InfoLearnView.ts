@@ -4,17 +4,25 @@
  */
 
 import { ItemView, WorkspaceLeaf, Notice, MarkdownView, TFile, TFolder } from 'obsidian';
-import { useAppStore, AppMode, GenerationConfig } from '../store/appStore';
-import { LearningCard, LearningCardType, createLearningCard } from '../types/learning';
+import { useAppStore, AppMode, GenerationConfig, StreamingPreview, ReviewState } from '../store/appStore';
+import { LearningCard, LearningCardType, CardDraft, Deck, createLearningCard, QuestionGenerationResult, SourceRecheckResult } from '../types/learning';
+import { DailyStats, Rating, RATING, ReviewLog, ReviewQueueItem } from '../types/fsrs';
+import { GenerationStreamOptions } from '../services/AIService';
+import { RetentionGroup } from '../services/StatsService';
+import { GenerationCancelledError } from '../types/errors';
+import { listSections } from '../utils/chunking';
+import { diffAnswer, matchAnswer } from '../utils/answerMatching';
 import { ManualCardModal } from './ManualCardModal';
 import { DeleteCardsModal, DeleteCardsModalResult } from './DeleteCardsModal';
+import { DeckModal } from './modals/DeckModal';
+import { CardDetailModal } from './modals/CardDetailModal';
 import {
   hasGeneratedCards,
   getGenerationDate,
   markAsGenerated,
   getMarkdownFilesInFolder,
   filterFilesByDateRange,
-  filterUngenerated,
+  getProcessedSections,
   getAllFolders,
   NoteInfo,
   getNoteInfo,
@@ -24,6 +32,22 @@ import { t } from '../i18n';
 
 export const INFOLEARN_VIEW_TYPE = 'star-infolearn-view';
 
+/** Drag-and-drop payload type for moving cards between decks */
+const CARD_DRAG_TYPE = 'application/x-sil-card';
+
+/**
+ * A rating that can be undone, with the card and queue as they were before it
+ */
+interface ReviewUndoEntry {
+  sessionId: string;
+  card: LearningCard;
+  log: ReviewLog;
+  queue: string[];
+  currentIndex: number;
+  sessionQueue: ReviewQueueItem[];
+  waiting: ReviewQueueItem[];
+}
+
 export class InfoLearnView extends ItemView {
   private plugin: StarInfoLearn;
   private contentAreaEl!: HTMLElement;
@@ -40,6 +64,23 @@ export class InfoLearnView extends ItemView {
     dateFrom?: string;
     dateTo?: string;
   } = { mode: 'all' };
+  // Cancels the running generation (single note or whole batch)
+  private generationAbort: AbortController | null = null;
+  // Review queue: draft being edited (kept across re-renders) and drafts being regenerated
+  private draftEdit: { cardId: string; front: string; back: string } | null = null;
+  private regeneratingDrafts: Set<string> = new Set();
+  // Source changes: cards with an AI re-check or regeneration running, and re-check verdicts
+  private sourceChecks: Set<string> = new Set();
+  private recheckResults: Map<string, SourceRecheckResult> = new Map();
+  // Deck browser: decks whose sub-decks and cards are shown
+  private expandedDecks: Set<string> = new Set();
+  // Countdown shown while only waiting learning cards are left
+  private countdownTimer: number | null = null;
+  // Ratings of the current session that can be undone (latest last)
+  private undoStack: ReviewUndoEntry[] = [];
+  // Statistics: review history loaded once and dropped after a rating
+  private statsData: { logs: ReviewLog[]; dailyStats: DailyStats[] } | null = null;
+  private statsLoading = false;
 
   constructor(leaf: WorkspaceLeaf, plugin: StarInfoLearn) {
     super(leaf);
@@ -81,6 +122,7 @@ export class InfoLearnView extends ItemView {
   }
 
   async onClose(): Promise<void> {
+    this.clearCountdown();
     if (this.unsubscribe) {
       this.unsubscribe();
     }
@@ -92,6 +134,7 @@ export class InfoLearnView extends ItemView {
   public refresh(): void {
     const container = this.containerEl.children[1];
     if (container) {
+      this.clearCountdown();
       container.empty();
       this.renderView(container as HTMLElement);
     }
@@ -152,6 +195,7 @@ export class InfoLearnView extends ItemView {
       { id: 'study', icon: '📖', name: t().mode.study, desc: t().study.title },
       { id: 'review', icon: '🔄', name: t().mode.review, desc: t().review.title },
       { id: 'card-editor', icon: '✏️', name: t().mode['card-editor'], desc: t().cardEditor.title },
+      { id: 'stats', icon: '📊', name: t().mode.stats, desc: t().stats.title },
       { id: 'settings', icon: '⚙️', name: t().mode.settings, desc: t().settingsView.title },
     ];
 
@@ -181,6 +225,9 @@ export class InfoLearnView extends ItemView {
       case 'card-editor':
         this.renderCardEditorMode();
         break;
+      case 'stats':
+        this.renderStatsMode();
+        break;
       case 'settings':
         this.renderSettingsMode();
         break;
@@ -237,8 +284,13 @@ export class InfoLearnView extends ItemView {
     refreshBtn.onclick = async () => {
       refreshBtn.addClass('spinning');
       // Reload cards from storage
-      const cards = await (this.plugin as any).dataService.loadAllLearningCards();
-      useAppStore.setState({ learningCards: cards });
+      try {
+        const cards = await (this.plugin as any).dataService.loadAllLearningCards();
+        useAppStore.setState({ learningCards: cards });
+      } catch (error) {
+        console.error('Failed to reload cards:', error);
+        new Notice(t().notice.cardsLoadFailed(error instanceof Error ? error.message : String(error)));
+      }
       this.refresh();
     };
 
@@ -270,26 +322,12 @@ export class InfoLearnView extends ItemView {
 
     const actionGrid = actionsSection.createDiv({ cls: 'sil-action-grid' });
 
-    if (dueCards > 0) {
+    // Session size after today's limits
+    const sessionSize = this.plugin.buildStudySession(state.learningCards).queue.length;
+    if (sessionSize > 0) {
       const reviewBtn = actionGrid.createEl('button', { cls: 'sil-action-btn primary' });
-      reviewBtn.createSpan({ text: t().study.reviewCards(dueCards) });
-      reviewBtn.onclick = () => {
-        const dueCardIds = state.learningCards
-          .filter(c => c.fsrsState.nextReview <= Date.now())
-          .map(c => c.id);
-
-        this.shuffledOptionsCache.clear(); // Clear MCQ options cache for new session
-        this.shuffledBlanksCache.clear(); // Clear fill-blank cache for new session
-        useAppStore.setState({
-          reviewState: {
-            ...state.reviewState,
-            queue: this.shuffleArray(dueCardIds), // Randomize order
-            currentIndex: 0,
-            isActive: true,
-          },
-          currentMode: 'review',
-        });
-      };
+      reviewBtn.createSpan({ text: t().study.reviewCards(sessionSize) });
+      reviewBtn.onclick = () => this.startSession(state.learningCards);
     } else {
       const noCardsMsg = actionGrid.createDiv({ cls: 'sil-no-due' });
       noCardsMsg.createSpan({ text: t().study.noCardsMessage });
@@ -313,9 +351,7 @@ export class InfoLearnView extends ItemView {
             const cardsToDelete = result.cardsToDelete;
             if (cardsToDelete.length === 0) return;
 
-            for (const card of cardsToDelete) {
-              await this.plugin.dataService.deleteLearningCard(card.id);
-            }
+            await this.plugin.dataService.deleteLearningCards(cardsToDelete.map(card => card.id));
 
             const remainingCards = state.learningCards.filter(
               c => !cardsToDelete.some(d => d.id === c.id)
@@ -329,6 +365,8 @@ export class InfoLearnView extends ItemView {
       };
     }
 
+    this.renderDeckBrowser(content);
+
     // Recent cards
     if (state.learningCards.length > 0) {
       const recentSection = content.createDiv({ cls: 'sil-recent-section' });
@@ -339,6 +377,8 @@ export class InfoLearnView extends ItemView {
 
       sortedCards.slice(0, 5).forEach(card => {
         const cardItem = cardList.createDiv({ cls: 'sil-card-item' });
+        this.makeCardDraggable(cardItem, card.id, null);
+        cardItem.onclick = () => this.openCardDetail(card);
         cardItem.createSpan({ text: this.getCardTypeIcon(card.type), cls: 'sil-card-type' });
         cardItem.createSpan({
           text: card.front.slice(0, 50) + (card.front.length > 50 ? '...' : ''),
@@ -369,15 +409,157 @@ export class InfoLearnView extends ItemView {
     }
   }
 
+  private renderDeckBrowser(container: HTMLElement): void {
+    const state = useAppStore.getState();
+    const section = container.createDiv({ cls: 'sil-deck-section' });
+
+    const headerDiv = section.createDiv({ cls: 'sil-cards-header' });
+    headerDiv.createEl('h4', { text: t().deck.title });
+    const headerActions = headerDiv.createDiv({ cls: 'sil-deck-header-actions' });
+
+    const newDeckBtn = headerActions.createEl('button', { text: t().deck.newDeck, cls: 'sil-btn-compact' });
+    newDeckBtn.onclick = () => {
+      new DeckModal(this.app, state.decks, async (result) => {
+        this.plugin.applyDeckChanges(
+          await this.plugin.deckService.createDeck({ ...result, name: result.name ?? '' }, state.decks)
+        );
+      }).open();
+    };
+
+    if (state.learningCards.length > 0) {
+      const fromFoldersBtn = headerActions.createEl('button', { text: t().deck.fromFolders, cls: 'sil-btn-compact' });
+      fromFoldersBtn.onclick = () => this.plugin.buildDecks('folder');
+      const fromTagsBtn = headerActions.createEl('button', { text: t().deck.fromTags, cls: 'sil-btn-compact' });
+      fromTagsBtn.onclick = () => this.plugin.buildDecks('tag');
+    }
+
+    if (state.decks.length === 0) {
+      section.createEl('p', { text: t().deck.empty, cls: 'sil-deck-hint' });
+      return;
+    }
+    section.createEl('p', { text: t().deck.dropHint, cls: 'sil-deck-hint' });
+
+    const tree = section.createDiv({ cls: 'sil-deck-tree' });
+    this.plugin.deckService.getRootDecks(state.decks).forEach(deck => this.renderDeckRow(tree, deck, 0));
+  }
+
+  private renderDeckRow(container: HTMLElement, deck: Deck, depth: number): void {
+    const { decks, learningCards } = useAppStore.getState();
+    const deckService = this.plugin.deckService;
+    const counts = deckService.getDeckCounts(deck.id, decks, learningCards);
+    const isExpanded = this.expandedDecks.has(deck.id);
+
+    const row = container.createDiv({ cls: 'sil-deck-row' });
+    row.style.marginLeft = `${depth * 16}px`;
+
+    const toggle = row.createSpan({ text: isExpanded ? '▾' : '▸', cls: 'sil-deck-toggle' });
+    toggle.onclick = () => {
+      if (isExpanded) this.expandedDecks.delete(deck.id);
+      else this.expandedDecks.add(deck.id);
+      this.refresh();
+    };
+
+    const info = row.createDiv({ cls: 'sil-deck-info' });
+    info.createDiv({ text: deck.name, cls: 'sil-deck-name' });
+    info.createDiv({ text: t().deck.counts(counts.due, counts.new, counts.total), cls: 'sil-deck-counts' });
+
+    const actions = row.createDiv({ cls: 'sil-deck-actions' });
+    const deckCards = deckService.getDeckCards(deck.id, decks, learningCards);
+    const studyBtn = actions.createEl('button', { text: t().deck.study, cls: 'sil-btn-compact sil-btn-primary-compact' });
+    studyBtn.disabled = this.plugin.buildStudySession(deckCards, deck).queue.length === 0;
+    studyBtn.onclick = () => this.startSession(deckCards, deck);
+
+    const editBtn = actions.createEl('button', { text: '✎', cls: 'sil-btn-compact' });
+    editBtn.title = t().common.edit;
+    editBtn.onclick = () => {
+      const subtree = deckService.getSubtree(deck.id, decks);
+      const parentOptions = decks.filter(d => !subtree.includes(d));
+      new DeckModal(this.app, parentOptions, async (result) => {
+        this.plugin.applyDeckChanges(await deckService.updateDeck(deck, result, decks));
+      }, deck).open();
+    };
+
+    const deleteBtn = actions.createEl('button', { text: '🗑', cls: 'sil-btn-compact' });
+    deleteBtn.title = t().common.delete;
+    deleteBtn.onclick = async () => {
+      if (!confirm(t().deck.deleteConfirm(deck.name))) return;
+      this.plugin.applyDeckChanges(await deckService.deleteDeck(deck, decks), [deck.id]);
+    };
+
+    // Drop target for cards dragged from another deck or the recent cards list
+    row.ondragover = (e) => {
+      if (!e.dataTransfer?.types.includes(CARD_DRAG_TYPE)) return;
+      e.preventDefault();
+      row.addClass('drag-over');
+    };
+    row.ondragleave = () => row.removeClass('drag-over');
+    row.ondrop = async (e) => {
+      e.preventDefault();
+      row.removeClass('drag-over');
+      const payload = e.dataTransfer?.getData(CARD_DRAG_TYPE);
+      if (!payload) return;
+      const { cardId, fromDeckId } = JSON.parse(payload) as { cardId: string; fromDeckId: string | null };
+      this.plugin.applyDeckChanges(await deckService.moveCards([cardId], fromDeckId, deck.id, useAppStore.getState().decks));
+    };
+
+    if (!isExpanded) return;
+
+    deckService.getChildDecks(deck, decks).forEach(child => this.renderDeckRow(container, child, depth + 1));
+
+    const cardList = container.createDiv({ cls: 'sil-deck-cards' });
+    cardList.style.marginLeft = `${(depth + 1) * 16}px`;
+    const ownCards = learningCards.filter(card => deck.cardIds.includes(card.id));
+    if (ownCards.length === 0) {
+      cardList.createDiv({ text: t().deck.noCards, cls: 'sil-deck-hint' });
+    }
+    ownCards.forEach(card => {
+      const item = cardList.createDiv({ cls: 'sil-deck-card' });
+      this.makeCardDraggable(item, card.id, deck.id);
+      item.onclick = () => this.openCardDetail(card);
+      item.createSpan({ text: this.getCardTypeIcon(card.type), cls: 'sil-card-type' });
+      item.createSpan({
+        text: card.front.slice(0, 50) + (card.front.length > 50 ? '...' : ''),
+        cls: 'sil-card-preview',
+      });
+    });
+  }
+
+  /**
+   * @param fromDeckId Deck the card is dragged out of (null: the card is only added to the target)
+   */
+  private makeCardDraggable(el: HTMLElement, cardId: string, fromDeckId: string | null): void {
+    el.draggable = true;
+    el.addClass('sil-draggable');
+    el.ondragstart = (e) => {
+      e.dataTransfer?.setData(CARD_DRAG_TYPE, JSON.stringify({ cardId, fromDeckId }));
+    };
+  }
+
+  /**
+   * Start a session through the plugin (daily limits, learning cards first)
+   */
+  private startSession(cards: LearningCard[], deck?: Deck): void {
+    this.shuffledOptionsCache.clear(); // Clear MCQ options cache for new session
+    this.shuffledBlanksCache.clear(); // Clear fill-blank cache for new session
+    this.plugin.startStudySession(cards, deck);
+  }
+
   private renderReviewMode(): void {
     const state = useAppStore.getState();
     const content = this.contentAreaEl.createDiv({ cls: 'sil-review' });
 
     content.createEl('h3', { text: t().review.title });
 
+    // Undo only reaches back within the current session
+    this.undoStack = this.undoStack.filter(entry => entry.sessionId === state.studySession?.id);
+
     if (!state.reviewState.isActive || state.reviewState.queue.length === 0) {
-      // Get all due cards first
+      // The session just finished: the last rating can still be taken back
+      this.renderUndoButton(content);
+
+      // Get all due cards first (folder counts), and today's session size after limits
       const allDueCards = state.learningCards.filter(c => c.fsrsState.nextReview <= Date.now());
+      const allSessionSize = this.plugin.buildStudySession(state.learningCards).queue.length;
 
       // Filter section
       const filterSection = content.createDiv({ cls: 'sil-review-filter-section' });
@@ -387,7 +569,7 @@ export class InfoLearnView extends ItemView {
 
       // Filter mode options
       const modes: { id: 'all' | 'current-note' | 'folder' | 'date-range'; label: string; desc: string }[] = [
-        { id: 'all', label: t().review.scopeAll, desc: t().review.scopeAllDesc(allDueCards.length) },
+        { id: 'all', label: t().review.scopeAll, desc: t().review.scopeAllDesc(allSessionSize) },
         { id: 'current-note', label: t().review.scopeCurrentNote, desc: t().review.scopeCurrentNoteDesc },
         { id: 'folder', label: t().review.scopeFolder, desc: t().review.scopeFolderDesc },
         { id: 'date-range', label: t().review.scopeDateRange, desc: t().review.scopeDateRangeDesc },
@@ -474,7 +656,8 @@ export class InfoLearnView extends ItemView {
       }
 
       // Apply filter to get filtered cards
-      const filteredDueCards = this.getFilteredDueCards(allDueCards);
+      const scopedCards = this.getFilteredCards(state.learningCards);
+      const sessionSize = this.plugin.buildStudySession(scopedCards).queue.length;
 
       // Show current note info if in current-note mode
       if (this.reviewFilter.mode === 'current-note') {
@@ -487,13 +670,13 @@ export class InfoLearnView extends ItemView {
 
       // Preview count
       const previewDiv = filterSection.createDiv({ cls: 'sil-filter-preview' });
-      if (filteredDueCards.length === 0) {
+      if (sessionSize === 0) {
         previewDiv.innerHTML = '<span class="sil-preview-empty">복습할 카드가 없습니다</span>';
       } else {
-        previewDiv.innerHTML = `<span class="sil-preview-number">${filteredDueCards.length}</span>개의 카드를 복습합니다`;
+        previewDiv.innerHTML = `<span class="sil-preview-number">${sessionSize}</span>개의 카드를 복습합니다`;
       }
 
-      if (allDueCards.length === 0) {
+      if (allSessionSize === 0) {
         const emptyState = content.createDiv({ cls: 'sil-empty-state' });
         emptyState.createEl('div', { text: '🎉', cls: 'sil-empty-icon' });
         emptyState.createEl('h4', { text: t().review.allComplete });
@@ -501,32 +684,31 @@ export class InfoLearnView extends ItemView {
 
         const backBtn = emptyState.createEl('button', { text: t().review.backToDashboard });
         backBtn.onclick = () => useAppStore.setState({ currentMode: 'study' });
+
+        const customBtn = emptyState.createEl('button', { text: t().review.customStudy, cls: 'sil-custom-study-btn' });
+        customBtn.onclick = () => this.plugin.openCustomStudy();
         return;
       }
 
       const startSection = content.createDiv({ cls: 'sil-start-section' });
 
       const startBtn = startSection.createEl('button', { cls: 'sil-primary-btn' });
-      startBtn.textContent = t().review.startReview(filteredDueCards.length);
-      startBtn.disabled = filteredDueCards.length === 0;
-      startBtn.onclick = () => {
-        this.shuffledOptionsCache.clear();
-        this.shuffledBlanksCache.clear();
-        useAppStore.setState({
-          reviewState: {
-            ...state.reviewState,
-            queue: this.shuffleArray(filteredDueCards.map(c => c.id)),
-            currentIndex: 0,
-            isActive: true,
-            showAnswer: false,
-          },
-        });
-        this.refresh();
-      };
+      startBtn.textContent = t().review.startReview(sessionSize);
+      startBtn.disabled = sessionSize === 0;
+      startBtn.onclick = () => this.startSession(scopedCards);
+
+      const customBtn = startSection.createEl('button', { text: t().review.customStudy, cls: 'sil-custom-study-btn' });
+      customBtn.onclick = () => this.plugin.openCustomStudy();
       return;
     }
 
     // Active review
+    const waiting = state.studySession?.waiting ?? [];
+    if (state.reviewState.currentIndex >= state.reviewState.queue.length && waiting.length > 0) {
+      this.renderWaiting(content, waiting);
+      return;
+    }
+
     const currentCardId = state.reviewState.queue[state.reviewState.currentIndex];
     const currentCard = state.learningCards.find(c => c.id === currentCardId);
 
@@ -544,11 +726,32 @@ export class InfoLearnView extends ItemView {
       text: t().review.progress(state.reviewState.currentIndex + 1, state.reviewState.queue.length),
       cls: 'sil-progress-text'
     });
+    if (state.studySession?.customStudy) {
+      content.createDiv({
+        text: t().review.customSession(t().customStudy.modes[state.studySession.customStudy]),
+        cls: 'sil-custom-session-badge',
+      });
+    }
 
     // Card type indicator
     const cardTypeDiv = content.createDiv({ cls: 'sil-card-type-indicator' });
     cardTypeDiv.createSpan({ text: `${this.getCardTypeIcon(currentCard.type)} ${this.getCardTypeName(currentCard.type)}` });
 
+    // Undo and card details
+    const cardActions = content.createDiv({ cls: 'sil-review-card-actions' });
+    this.renderUndoButton(cardActions);
+    const detailsBtn = cardActions.createEl('button', { text: t().review.details, cls: 'sil-link-btn' });
+    detailsBtn.onclick = () => this.openCardDetail(currentCard);
+
+    // Source passage link
+    if (this.app.vault.getAbstractFileByPath(currentCard.sourceFile)) {
+      const sourceRow = content.createDiv({ cls: 'sil-card-source' });
+      const sourceLabel = [currentCard.sourceFile.split('/').pop()?.replace(/\.md$/, ''), ...(currentCard.sourceHeadings ?? [])];
+      sourceRow.createSpan({ text: sourceLabel.join(' › '), cls: 'sil-card-source-path' });
+      const openBtn = sourceRow.createEl('button', { text: t().review.openSource, cls: 'sil-link-btn' });
+      openBtn.onclick = () => this.plugin.openCardSource(currentCard);
+    }
+
     // Render card based on type
     switch (currentCard.type) {
       case 'flashcard':
@@ -681,6 +884,10 @@ export class InfoLearnView extends ItemView {
     const inputsDiv = cardDisplay.createDiv({ cls: 'sil-blank-inputs' });
 
     const originalBlanks = card.blanks || [{ position: 0, answer: card.back }];
+    const matching = this.plugin.settings.answerMatching;
+    const matches = originalBlanks.map((blank, idx) =>
+      matchAnswer(reviewState.blankAnswers[idx] || '', [blank.answer, ...(blank.alternatives ?? [])], matching)
+    );
 
     // Get or create shuffled blanks for this card
     let shuffledBlanks = this.shuffledBlanksCache.get(card.id);
@@ -698,15 +905,25 @@ export class InfoLearnView extends ItemView {
 
       if (reviewState.showAnswer) {
         const userAnswer = reviewState.blankAnswers[originalIdx] || '';
-        const isCorrect = userAnswer.toLowerCase().trim() === blank.answer.toLowerCase().trim();
+        const result = matches[originalIdx];
 
         const answerSpan = inputWrapper.createSpan({
-          cls: `sil-blank-answer ${isCorrect ? 'correct' : 'incorrect'}`,
+          cls: `sil-blank-answer ${result.correct ? 'correct' : 'incorrect'}`,
         });
         answerSpan.textContent = userAnswer || t().review.notEntered;
 
-        if (!isCorrect) {
-          inputWrapper.createSpan({ text: ` → ${blank.answer}`, cls: 'sil-correct-answer' });
+        if (userAnswer && !result.exact) {
+          this.renderAnswerDiff(inputWrapper, userAnswer, result.matched);
+        }
+        if (result.correct && !result.exact) {
+          inputWrapper.createSpan({ text: t().review.nearlyCorrect, cls: 'sil-blank-tolerance' });
+        }
+        if (!result.correct) {
+          inputWrapper.createSpan({ text: ` → ${originalBlanks[originalIdx].answer}`, cls: 'sil-correct-answer' });
+          if (userAnswer.trim()) {
+            const acceptBtn = inputWrapper.createEl('button', { text: t().review.acceptAnswer, cls: 'sil-link-btn' });
+            acceptBtn.onclick = () => this.acceptBlankAnswer(card, originalIdx, userAnswer.trim());
+          }
         }
       } else {
         const input = inputWrapper.createEl('input', {
@@ -728,10 +945,7 @@ export class InfoLearnView extends ItemView {
     });
 
     if (reviewState.showAnswer) {
-      const allCorrect = originalBlanks.every((blank, idx) => {
-        const userAnswer = reviewState.blankAnswers[idx] || '';
-        return userAnswer.toLowerCase().trim() === blank.answer.toLowerCase().trim();
-      });
+      const allCorrect = matches.every(result => result.correct);
 
       const resultDiv = cardDisplay.createDiv({ cls: `sil-result ${allCorrect ? 'correct' : 'incorrect'}` });
       resultDiv.createSpan({ text: allCorrect ? t().review.allCorrect : t().review.someIncorrect });
@@ -757,6 +971,31 @@ export class InfoLearnView extends ItemView {
     }
   }
 
+  /**
+   * Character diff of a typed answer: extra characters struck through, missing ones highlighted
+   */
+  private renderAnswerDiff(container: HTMLElement, answer: string, expected: string): void {
+    const diffEl = container.createDiv({ cls: 'sil-answer-diff' });
+    for (const segment of diffAnswer(answer, expected, this.plugin.settings.answerMatching.ignoreCase)) {
+      diffEl.createSpan({ text: segment.text, cls: `sil-diff-${segment.type}` });
+    }
+  }
+
+  /**
+   * Accept a typed answer that was marked wrong as an alternative for that blank from now on
+   */
+  private async acceptBlankAnswer(card: LearningCard, blankIndex: number, answer: string): Promise<void> {
+    const blanks = (card.blanks ?? [{ position: Math.max(0, card.front.indexOf('___')), answer: card.back }])
+      .map((blank, idx) => idx === blankIndex
+        ? { ...blank, alternatives: [...(blank.alternatives ?? []), answer] }
+        : blank);
+    const updatedCard = { ...card, blanks, updatedAt: Date.now() };
+    useAppStore.getState().updateCard(updatedCard);
+    await this.plugin.dataService.saveLearningCard(updatedCard);
+    await this.plugin.updateInlineCards([updatedCard]);
+    new Notice(t().notice.answerAccepted(answer));
+  }
+
   private renderShortAnswer(container: HTMLElement, card: LearningCard, reviewState: typeof useAppStore.getState.prototype.reviewState): void {
     const cardDisplay = container.createDiv({ cls: 'sil-card-display short-answer' });
 
@@ -781,7 +1020,13 @@ export class InfoLearnView extends ItemView {
         explainDiv.createSpan({ text: card.explanation });
       }
 
-      this.renderRatingButtons(container, card);
+      this.renderEvaluation(cardDisplay, reviewState);
+
+      // Rating suggested by the grade (an empty answer counts as Again); any button still works
+      const suggested = reviewState.evaluationResult
+        ? this.plugin.fsrsService.suggestRating(reviewState.evaluationResult.score)
+        : !reviewState.userAnswer.trim() ? RATING.AGAIN : undefined;
+      this.renderRatingButtons(container, card, suggested);
     } else {
       const answerArea = cardDisplay.createEl('textarea', {
         cls: 'sil-answer-textarea',
@@ -799,19 +1044,68 @@ export class InfoLearnView extends ItemView {
 
       const submitBtn = container.createEl('button', { cls: 'sil-submit-btn' });
       submitBtn.textContent = t().review.showAnswer;
-      submitBtn.onclick = () => {
-        useAppStore.setState({
-          reviewState: {
-            ...reviewState,
-            showAnswer: true,
-            isAnswerSubmitted: true,
-          },
-        });
-      };
+      submitBtn.onclick = () => this.submitShortAnswer(card);
     }
   }
 
-  private renderRatingButtons(container: HTMLElement, card: LearningCard): void {
+  /**
+   * Reveal the answer and let the AI grade a typed short answer
+   * The result is dropped if the user has already moved on to another card.
+   */
+  private async submitShortAnswer(card: LearningCard): Promise<void> {
+    const { reviewState } = useAppStore.getState();
+    const answer = reviewState.userAnswer.trim();
+    useAppStore.setState({
+      reviewState: {
+        ...reviewState,
+        showAnswer: true,
+        isAnswerSubmitted: true,
+        isEvaluating: answer.length > 0,
+        evaluationResult: null,
+      },
+    });
+    if (!answer) return;
+
+    const index = reviewState.currentIndex;
+    const result = await this.plugin.evaluateShortAnswer(card, answer);
+    const current = useAppStore.getState().reviewState;
+    if (current.currentIndex !== index || current.queue[index] !== card.id || !current.showAnswer) return;
+    useAppStore.getState().setEvaluationResult(result);
+  }
+
+  private renderEvaluation(container: HTMLElement, reviewState: ReviewState): void {
+    if (reviewState.isEvaluating) {
+      container.createDiv({ text: t().review.evaluating, cls: 'sil-evaluation loading' });
+      return;
+    }
+    const result = reviewState.evaluationResult;
+    if (!result) return;
+
+    const section = container.createDiv({ cls: `sil-evaluation ${result.isCorrect ? 'correct' : 'incorrect'}` });
+    section.createDiv({ text: t().review.evaluationScore(Math.round(result.score * 100)), cls: 'sil-evaluation-score' });
+    if (result.feedback) {
+      section.createDiv({ text: result.feedback, cls: 'sil-evaluation-feedback' });
+    }
+
+    const renderPoints = (title: string, points: string[] | undefined, cls: string) => {
+      if (!points || points.length === 0) return;
+      const pointsDiv = section.createDiv({ cls: `sil-evaluation-points ${cls}` });
+      pointsDiv.createDiv({ text: title, cls: 'sil-evaluation-points-title' });
+      const list = pointsDiv.createEl('ul');
+      points.forEach(point => list.createEl('li', { text: point }));
+    };
+    renderPoints(t().review.correctPoints, result.correctPoints, 'correct');
+    renderPoints(t().review.missedPoints, result.missedPoints, 'missed');
+
+    if (result.suggestion) {
+      section.createDiv({ text: result.suggestion, cls: 'sil-evaluation-suggestion' });
+    }
+  }
+
+  /**
+   * @param suggested Rating to pre-select (highlighted and focused, so Enter confirms it)
+   */
+  private renderRatingButtons(container: HTMLElement, card: LearningCard, suggested?: Rating): void {
     const ratingSection = container.createDiv({ cls: 'sil-rating-section' });
     ratingSection.createEl('p', { text: t().review.rateMemory });
 
@@ -829,6 +1123,11 @@ export class InfoLearnView extends ItemView {
       btn.createEl('div', { text: r.label, cls: 'sil-rating-label' });
       btn.createEl('div', { text: r.desc, cls: 'sil-rating-desc' });
       btn.onclick = () => this.handleRating(card.id, r.rating as 1 | 2 | 3 | 4);
+      if (r.rating === suggested) {
+        btn.addClass('suggested');
+        btn.createEl('div', { text: t().review.suggestedRating, cls: 'sil-rating-suggested' });
+        window.setTimeout(() => btn.focus(), 0);
+      }
     });
   }
 
@@ -838,17 +1137,24 @@ export class InfoLearnView extends ItemView {
 
     if (!card) return;
 
-    const newState = this.plugin.fsrsService.processReview(card.fsrsState, rating);
-    const updatedCard = { ...card, fsrsState: newState };
-    useAppStore.getState().updateCard(updatedCard);
-
-    await this.plugin.dataService.saveLearningCard(updatedCard);
+    // Custom study only logs the rating; the card keeps its schedule
+    // Other reviews are load balanced against the cards already due on each day
+    const customStudy = state.studySession?.customStudy;
+    const fsrs = this.plugin.fsrsService;
+    const newState = customStudy
+      ? card.fsrsState
+      : fsrs.processReview(card.fsrsState, rating, Date.now(), fsrs.getDueCountsByDate(state.learningCards));
+    if (!customStudy) {
+      const updatedCard = { ...card, fsrsState: newState };
+      useAppStore.getState().updateCard(updatedCard);
+      await this.plugin.dataService.saveLearningCard(updatedCard);
+    }
 
     const reviewDuration = state.reviewState.cardShowTime
       ? Date.now() - state.reviewState.cardShowTime
       : 0;
 
-    await this.plugin.dataService.saveReviewLog({
+    const log: ReviewLog = {
       cardId,
       rating,
       timestamp: Date.now(),
@@ -857,35 +1163,196 @@ export class InfoLearnView extends ItemView {
       scheduledDays: newState.scheduledDays,
       elapsedDays: newState.elapsedDays,
       reviewDuration,
+      ...(customStudy && { customStudy }),
+    };
+    await this.plugin.recordReview(log);
+    this.statsData = null;
+
+    if (state.studySession) {
+      this.undoStack.push({
+        sessionId: state.studySession.id,
+        card,
+        log,
+        queue: state.reviewState.queue,
+        currentIndex: state.reviewState.currentIndex,
+        sessionQueue: state.studySession.queue,
+        waiting: state.studySession.waiting,
+      });
+    }
+
+    if (customStudy) {
+      // Failed cards come back at the end of a custom session
+      if (rating === 1) {
+        const { reviewState } = useAppStore.getState();
+        useAppStore.setState({ reviewState: { ...reviewState, queue: [...reviewState.queue, cardId] } });
+      }
+      this.advanceReview(state.reviewState.currentIndex + 1, []);
+      return;
+    }
+
+    // Learning cards whose next step falls today come back later in this session
+    const now = Date.now();
+    const waiting = (useAppStore.getState().studySession?.waiting ?? []).filter(item => item.cardId !== cardId);
+    if (this.plugin.fsrsService.isIntradayStep(newState, now)) {
+      waiting.push({ cardId, dueDate: newState.nextReview, state: newState.state, priority: 0 });
+    }
+    this.advanceReview(state.reviewState.currentIndex + 1, waiting, now);
+  }
+
+  /**
+   * Undo the last rating of the session: restore the card's previous state, remove its log
+   * and go back to that card (reopening the session if it had just finished)
+   */
+  private async undoLastRating(): Promise<void> {
+    const entry = this.undoStack.pop();
+    if (!entry) return;
+
+    useAppStore.getState().updateCard(entry.card);
+    await this.plugin.dataService.saveLearningCard(entry.card);
+    await this.plugin.undoReview(entry.log);
+    this.statsData = null;
+
+    useAppStore.getState().updateStudySession({
+      currentIndex: entry.currentIndex,
+      queue: entry.sessionQueue,
+      waiting: entry.waiting,
+      isActive: true,
     });
+    const { reviewState } = useAppStore.getState();
+    useAppStore.setState({
+      reviewState: {
+        ...reviewState,
+        isActive: true,
+        queue: entry.queue,
+        currentIndex: entry.currentIndex,
+        cardShowTime: Date.now(),
+        showAnswer: false,
+        selectedOptionId: null,
+        blankAnswers: [],
+        userAnswer: '',
+        evaluationResult: null,
+        isEvaluating: false,
+      },
+    });
+    new Notice(t().notice.ratingUndone);
+  }
 
-    // Move to next card
-    const nextIndex = state.reviewState.currentIndex + 1;
-    if (nextIndex >= state.reviewState.queue.length) {
-      useAppStore.setState({
-        reviewState: {
-          ...state.reviewState,
-          isActive: false,
-          currentIndex: 0,
-          queue: [],
-          showAnswer: false,
-          selectedOptionId: null,
-          blankAnswers: [],
-          userAnswer: '',
-        },
-      });
-      new Notice(t().notice.reviewComplete);
-    } else {
-      useAppStore.setState({
-        reviewState: {
-          ...state.reviewState,
-          currentIndex: nextIndex,
-          showAnswer: false,
-          selectedOptionId: null,
-          blankAnswers: [],
-          userAnswer: '',
-        },
-      });
+  private renderUndoButton(container: HTMLElement): void {
+    if (this.undoStack.length === 0) return;
+    const undoBtn = container.createEl('button', { text: t().review.undo, cls: 'sil-undo-btn' });
+    undoBtn.title = t().review.undoHint(this.undoStack.length);
+    undoBtn.onclick = () => this.undoLastRating();
+  }
+
+  private async openCardDetail(card: LearningCard): Promise<void> {
+    const logs = await this.plugin.dataService.loadCardReviewLogs(card.id);
+    new CardDetailModal(this.app, card, logs, this.plugin.fsrsService).open();
+  }
+
+  /**
+   * Move to the next card, first putting waiting learning cards that are due back into the queue
+   * When only cards that are not due yet are left, the countdown is shown (currentIndex = queue length).
+   */
+  private advanceReview(nextIndex: number, waiting: ReviewQueueItem[], now: number = Date.now()): void {
+    const { reviewState, studySession } = useAppStore.getState();
+    const due = waiting.filter(item => item.dueDate <= now).sort((a, b) => a.dueDate - b.dueDate);
+    const stillWaiting = waiting.filter(item => item.dueDate > now);
+
+    // Due learning cards are shown before the rest of the queue
+    const queue = [
+      ...reviewState.queue.slice(0, nextIndex),
+      ...due.map(item => item.cardId),
+      ...reviewState.queue.slice(nextIndex),
+    ];
+
+    if (nextIndex >= queue.length && stillWaiting.length === 0) {
+      this.finishSession();
+      return;
+    }
+
+    useAppStore.getState().updateStudySession({
+      currentIndex: nextIndex,
+      waiting: stillWaiting,
+      queue: [...(studySession?.queue ?? []), ...due],
+    });
+    useAppStore.setState({
+      reviewState: {
+        ...reviewState,
+        queue,
+        currentIndex: nextIndex,
+        cardShowTime: Date.now(),
+        showAnswer: false,
+        selectedOptionId: null,
+        blankAnswers: [],
+        userAnswer: '',
+        evaluationResult: null,
+        isEvaluating: false,
+      },
+    });
+  }
+
+  private finishSession(): void {
+    const { reviewState } = useAppStore.getState();
+    useAppStore.getState().updateStudySession({ isActive: false, waiting: [] });
+    useAppStore.setState({
+      reviewState: {
+        ...reviewState,
+        isActive: false,
+        currentIndex: 0,
+        queue: [],
+        showAnswer: false,
+        selectedOptionId: null,
+        blankAnswers: [],
+        userAnswer: '',
+        evaluationResult: null,
+        isEvaluating: false,
+      },
+    });
+    const session = useAppStore.getState().studySession;
+    new Notice(session
+      ? `${t().notice.reviewComplete} ${t().notice.sessionSummary(session.reviewedCount, session.newLearnedCount, session.failedCount)}`
+      : t().notice.reviewComplete);
+  }
+
+  /**
+   * Only learning cards that are not due yet are left: count down to the next one
+   */
+  private renderWaiting(content: HTMLElement, waiting: ReviewQueueItem[]): void {
+    const next = waiting.reduce((a, b) => (b.dueDate < a.dueDate ? b : a));
+    const { currentIndex } = useAppStore.getState().reviewState;
+
+    const waitingDiv = content.createDiv({ cls: 'sil-waiting-state' });
+    waitingDiv.createEl('div', { text: '⏳', cls: 'sil-empty-icon' });
+    waitingDiv.createEl('h4', { text: t().review.waitingTitle });
+    const countdownEl = waitingDiv.createEl('div', { cls: 'sil-waiting-countdown' });
+    waitingDiv.createEl('p', { text: t().review.waitingCards(waiting.length) });
+
+    const buttons = waitingDiv.createDiv({ cls: 'sil-waiting-buttons' });
+    const studyNowBtn = buttons.createEl('button', { text: t().review.studyNow, cls: 'sil-primary-btn' });
+    studyNowBtn.onclick = () => this.advanceReview(currentIndex, waiting, next.dueDate);
+    const endBtn = buttons.createEl('button', { text: t().review.endSession });
+    endBtn.onclick = () => this.finishSession();
+
+    const tick = () => {
+      const remaining = next.dueDate - Date.now();
+      if (remaining <= 0) {
+        this.clearCountdown();
+        this.advanceReview(currentIndex, waiting);
+        return;
+      }
+      const totalSeconds = Math.ceil(remaining / 1000);
+      const minutes = Math.floor(totalSeconds / 60);
+      const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+      countdownEl.setText(t().review.waitingCountdown(`${minutes}:${seconds}`));
+    };
+    tick();
+    this.countdownTimer = window.setInterval(tick, 1000);
+  }
+
+  private clearCountdown(): void {
+    if (this.countdownTimer !== null) {
+      window.clearInterval(this.countdownTimer);
+      this.countdownTimer = null;
     }
   }
 
@@ -937,6 +1404,22 @@ export class InfoLearnView extends ItemView {
       loading.createSpan({ text: t().cardEditor.generating });
     }
 
+    // Live preview of streamed cards
+    if (state.streamingPreview) {
+      this.renderStreamingPreview(content, state.streamingPreview);
+    }
+
+    // Drafts waiting for review
+    if (state.cardDrafts.length > 0) {
+      this.renderDraftQueue(content, state.cardDrafts);
+    }
+
+    // Cards whose source note was edited or deleted
+    const flaggedCards = state.learningCards.filter(card => card.sourceStatus);
+    if (flaggedCards.length > 0) {
+      this.renderSourceChanges(content, flaggedCards);
+    }
+
     // Existing cards list (collapsible)
     if (state.learningCards.length > 0) {
       this.renderExistingCardsList(content, state.learningCards);
@@ -1037,6 +1520,16 @@ export class InfoLearnView extends ItemView {
       if (!activeFile) return;
       await this.handleCurrentNoteGeneration(activeFile, config, settings);
     };
+
+    // Rule-based extraction (no AI)
+    const extractSection = container.createDiv({ cls: 'sil-extract-section' });
+    const extractBtn = extractSection.createEl('button', { cls: 'sil-link-btn', text: t().cardEditor.extractButton });
+    extractBtn.disabled = !activeFile;
+    extractBtn.onclick = async () => {
+      if (!activeFile) return;
+      await this.handleCurrentNoteExtraction(activeFile);
+    };
+    extractSection.createDiv({ text: t().cardEditor.extractDesc, cls: 'sil-extract-desc' });
   }
 
   private renderBatchMode(
@@ -1168,6 +1661,15 @@ export class InfoLearnView extends ItemView {
       await this.handleBatchGeneration(config, settings);
     };
 
+    // Rule-based extraction (no AI)
+    const extractSection = container.createDiv({ cls: 'sil-extract-section' });
+    const extractBtn = extractSection.createEl('button', { cls: 'sil-link-btn', text: t().cardEditor.extractBatchButton });
+    extractBtn.disabled = batchProgress.isRunning;
+    extractBtn.onclick = async () => {
+      await this.handleBatchExtraction(config);
+    };
+    extractSection.createDiv({ text: t().cardEditor.extractDesc, cls: 'sil-extract-desc' });
+
     // Progress display
     if (batchProgress.isRunning || batchProgress.processed > 0) {
       const progressSection = container.createDiv({ cls: 'sil-batch-progress' });
@@ -1195,6 +1697,11 @@ export class InfoLearnView extends ItemView {
         });
       }
 
+      if (batchProgress.isRunning) {
+        const cancelBtn = progressSection.createEl('button', { text: t().cardEditor.cancelGeneration, cls: 'sil-btn' });
+        cancelBtn.onclick = () => this.generationAbort?.abort();
+      }
+
       if (!batchProgress.isRunning && batchProgress.processed > 0) {
         const resetBtn = progressSection.createEl('button', { text: t().cardEditor.clearProgress, cls: 'sil-btn' });
         resetBtn.onclick = () => {
@@ -1205,6 +1712,238 @@ export class InfoLearnView extends ItemView {
     }
   }
 
+  private renderStreamingPreview(container: HTMLElement, preview: StreamingPreview): void {
+    const section = container.createDiv({ cls: 'sil-streaming-preview' });
+
+    const headerDiv = section.createDiv({ cls: 'sil-cards-header' });
+    headerDiv.createEl('h4', { text: t().cardEditor.streamingPreview(preview.cards.length) });
+
+    // Batch cancel lives in the progress section
+    if (!useAppStore.getState().batchProgress.isRunning) {
+      const cancelBtn = headerDiv.createEl('button', { text: t().cardEditor.cancelGeneration, cls: 'sil-btn' });
+      cancelBtn.onclick = () => this.generationAbort?.abort();
+    }
+
+    section.createEl('p', { text: preview.sourceFile, cls: 'sil-streaming-source' });
+
+    if (preview.cards.length === 0) {
+      section.createEl('p', { text: t().cardEditor.waitingFirstCard, cls: 'sil-more-cards' });
+      return;
+    }
+
+    const cardList = section.createDiv({ cls: 'sil-card-list' });
+    preview.cards.forEach(card => {
+      const cardItem = cardList.createDiv({ cls: 'sil-card-item sil-streaming-card' });
+      cardItem.createSpan({ text: this.getCardTypeIcon(card.type), cls: 'sil-card-type' });
+      const textDiv = cardItem.createDiv({ cls: 'sil-streaming-card-text' });
+      textDiv.createDiv({ text: card.front, cls: 'sil-card-preview' });
+      textDiv.createDiv({ text: card.back, cls: 'sil-streaming-card-back' });
+    });
+  }
+
+  private renderDraftQueue(container: HTMLElement, drafts: CardDraft[]): void {
+    const section = container.createDiv({ cls: 'sil-draft-queue' });
+
+    const headerDiv = section.createDiv({ cls: 'sil-cards-header' });
+    headerDiv.createEl('h4', { text: t().cardEditor.reviewQueue(drafts.length) });
+
+    const headerActions = headerDiv.createDiv({ cls: 'sil-draft-actions' });
+    const acceptAllBtn = headerActions.createEl('button', { text: t().cardEditor.acceptAll, cls: 'sil-btn-compact sil-btn-primary-compact' });
+    acceptAllBtn.onclick = async () => {
+      this.draftEdit = null;
+      await this.plugin.acceptCardDrafts(drafts.map(d => d.card.id));
+    };
+    const rejectAllBtn = headerActions.createEl('button', { text: t().cardEditor.rejectAll, cls: 'sil-btn-compact' });
+    rejectAllBtn.onclick = async () => {
+      this.draftEdit = null;
+      await this.plugin.rejectCardDrafts(drafts.map(d => d.card.id));
+    };
+
+    const list = section.createDiv({ cls: 'sil-draft-list' });
+    drafts.forEach(draft => {
+      const { card } = draft;
+      const item = list.createDiv({ cls: `sil-draft-item ${draft.issues.length > 0 ? 'has-issues' : ''}` });
+
+      const meta = item.createDiv({ cls: 'sil-draft-meta' });
+      meta.createSpan({ text: `${this.getCardTypeIcon(card.type)} ${this.getCardTypeName(card.type)}`, cls: 'sil-card-type' });
+      const sourceLink = meta.createEl('a', { text: card.sourceFile, cls: 'sil-draft-source' });
+      sourceLink.onclick = () => this.plugin.openCardSource(card);
+
+      // Validation warnings
+      if (draft.issues.length > 0) {
+        const warnings = item.createEl('ul', { cls: 'sil-draft-warnings' });
+        draft.issues.forEach(issue => warnings.createEl('li', { text: `⚠ ${issue}` }));
+      }
+
+      if (this.draftEdit?.cardId === card.id) {
+        this.renderDraftEditor(item, this.draftEdit);
+        return;
+      }
+
+      item.createDiv({ text: card.front, cls: 'sil-draft-front' });
+      item.createDiv({ text: card.back, cls: 'sil-draft-back' });
+
+      const actions = item.createDiv({ cls: 'sil-draft-actions' });
+      const regenerating = this.regeneratingDrafts.has(card.id);
+
+      const acceptBtn = actions.createEl('button', { text: t().cardEditor.accept, cls: 'sil-btn-compact sil-btn-primary-compact' });
+      acceptBtn.disabled = regenerating;
+      acceptBtn.onclick = () => this.plugin.acceptCardDrafts([card.id]);
+
+      const editBtn = actions.createEl('button', { text: t().common.edit, cls: 'sil-btn-compact' });
+      editBtn.disabled = regenerating;
+      editBtn.onclick = () => {
+        this.draftEdit = { cardId: card.id, front: card.front, back: card.back };
+        this.refresh();
+      };
+
+      const regenerateBtn = actions.createEl('button', {
+        text: regenerating ? t().cardEditor.regenerating : t().cardEditor.regenerate,
+        cls: 'sil-btn-compact',
+      });
+      regenerateBtn.disabled = regenerating;
+      regenerateBtn.onclick = async () => {
+        this.regeneratingDrafts.add(card.id);
+        this.refresh();
+        try {
+          await this.plugin.regenerateCardDraft(card.id);
+        } finally {
+          this.regeneratingDrafts.delete(card.id);
+          this.refresh();
+        }
+      };
+
+      const rejectBtn = actions.createEl('button', { text: t().cardEditor.reject, cls: 'sil-btn-compact sil-draft-reject' });
+      rejectBtn.disabled = regenerating;
+      rejectBtn.onclick = () => this.plugin.rejectCardDrafts([card.id]);
+    });
+  }
+
+  private renderSourceChanges(container: HTMLElement, cards: LearningCard[]): void {
+    const section = container.createDiv({ cls: 'sil-source-changes' });
+
+    const headerDiv = section.createDiv({ cls: 'sil-cards-header' });
+    headerDiv.createEl('h4', { text: t().cardEditor.sourceChanges(cards.length) });
+    const keepAllBtn = headerDiv.createEl('button', { text: t().cardEditor.keepAll, cls: 'sil-btn-compact' });
+    keepAllBtn.onclick = async () => {
+      cards.forEach(card => this.recheckResults.delete(card.id));
+      await this.plugin.keepCardSource(cards.map(card => card.id));
+    };
+
+    const list = section.createDiv({ cls: 'sil-draft-list' });
+    cards.forEach(card => {
+      const orphaned = card.sourceStatus === 'orphaned';
+      const item = list.createDiv({ cls: `sil-draft-item sil-source-${card.sourceStatus}` });
+
+      const meta = item.createDiv({ cls: 'sil-draft-meta' });
+      meta.createSpan({
+        text: orphaned ? t().cardEditor.sourceDeleted : t().cardEditor.sourceEdited,
+        cls: 'sil-source-status',
+      });
+      if (orphaned) {
+        meta.createSpan({ text: card.sourceFile, cls: 'sil-draft-source' });
+      } else {
+        const sourceLink = meta.createEl('a', { text: card.sourceFile, cls: 'sil-draft-source' });
+        sourceLink.onclick = () => this.plugin.openCardSource(card);
+      }
+
+      item.createDiv({ text: card.front, cls: 'sil-draft-front' });
+      item.createDiv({ text: card.back, cls: 'sil-draft-back' });
+
+      const recheck = this.recheckResults.get(card.id);
+      if (recheck) {
+        item.createDiv({
+          text: `${recheck.isValid ? '✓' : '⚠'} ${recheck.reason}`,
+          cls: `sil-recheck-result ${recheck.isValid ? 'is-valid' : 'is-invalid'}`,
+        });
+      }
+
+      const actions = item.createDiv({ cls: 'sil-draft-actions' });
+      const busy = this.sourceChecks.has(card.id);
+      const runCheck = async (action: () => Promise<void>) => {
+        this.sourceChecks.add(card.id);
+        this.refresh();
+        try {
+          await action();
+        } finally {
+          this.sourceChecks.delete(card.id);
+          this.refresh();
+        }
+      };
+
+      if (!orphaned) {
+        const recheckBtn = actions.createEl('button', {
+          text: busy ? t().cardEditor.rechecking : t().cardEditor.recheck,
+          cls: 'sil-btn-compact sil-btn-primary-compact',
+        });
+        recheckBtn.disabled = busy;
+        recheckBtn.onclick = () => runCheck(async () => {
+          const result = await this.plugin.recheckCardSource(card);
+          if (result) this.recheckResults.set(card.id, result);
+        });
+
+        const regenerateBtn = actions.createEl('button', { text: t().cardEditor.regenerate, cls: 'sil-btn-compact' });
+        regenerateBtn.disabled = busy;
+        regenerateBtn.onclick = () => runCheck(async () => {
+          await this.plugin.regenerateCardFromSource(card);
+          this.recheckResults.delete(card.id);
+        });
+      }
+
+      const keepBtn = actions.createEl('button', { text: t().cardEditor.keep, cls: 'sil-btn-compact' });
+      keepBtn.disabled = busy;
+      keepBtn.onclick = async () => {
+        this.recheckResults.delete(card.id);
+        await this.plugin.keepCardSource([card.id]);
+      };
+
+      const deleteBtn = actions.createEl('button', { text: t().common.delete, cls: 'sil-btn-compact sil-draft-reject' });
+      deleteBtn.disabled = busy;
+      deleteBtn.onclick = async () => {
+        if (confirm(t().cardEditor.deleteConfirm)) {
+          this.recheckResults.delete(card.id);
+          await this.plugin.dataService.deleteLearningCard(card.id);
+          useAppStore.getState().removeLearningCard(card.id);
+        }
+      };
+    });
+  }
+
+  /** Fronts of saved cards and pending drafts from a note */
+  private getExistingFronts(sourceFile: string): string[] {
+    const state = useAppStore.getState();
+    return [...state.learningCards, ...state.cardDrafts.map(draft => draft.card)]
+      .filter(card => card.sourceFile === sourceFile)
+      .map(card => card.front);
+  }
+
+  private renderDraftEditor(container: HTMLElement, edit: { cardId: string; front: string; back: string }): void {
+    const form = container.createDiv({ cls: 'sil-draft-editor' });
+
+    form.createEl('label', { text: t().cardEditor.front });
+    const frontInput = form.createEl('textarea', { cls: 'sil-input' });
+    frontInput.value = edit.front;
+    frontInput.oninput = () => { edit.front = frontInput.value; };
+
+    form.createEl('label', { text: t().cardEditor.back });
+    const backInput = form.createEl('textarea', { cls: 'sil-input' });
+    backInput.value = edit.back;
+    backInput.oninput = () => { edit.back = backInput.value; };
+
+    const actions = form.createDiv({ cls: 'sil-draft-actions' });
+    const saveBtn = actions.createEl('button', { text: t().common.save, cls: 'sil-btn-compact sil-btn-primary-compact' });
+    saveBtn.onclick = async () => {
+      this.draftEdit = null;
+      await this.plugin.editCardDraft(edit.cardId, { front: edit.front.trim(), back: edit.back.trim() });
+    };
+
+    const cancelBtn = actions.createEl('button', { text: t().common.cancel, cls: 'sil-btn-compact' });
+    cancelBtn.onclick = () => {
+      this.draftEdit = null;
+      this.refresh();
+    };
+  }
+
   private renderExistingCardsList(container: HTMLElement, cards: LearningCard[]): void {
     const existingSection = container.createDiv({ cls: 'sil-existing-cards' });
 
@@ -1225,9 +1964,7 @@ export class InfoLearnView extends ItemView {
             if (cardsToDelete.length === 0) return;
 
             // Delete cards
-            for (const card of cardsToDelete) {
-              await this.plugin.dataService.deleteLearningCard(card.id);
-            }
+            await this.plugin.dataService.deleteLearningCards(cardsToDelete.map(card => card.id));
 
             // Update state
             const remainingCards = cards.filter(c => !cardsToDelete.some(d => d.id === c.id));
@@ -1256,7 +1993,7 @@ export class InfoLearnView extends ItemView {
 
       const deleteBtn = actions.createEl('button', { text: '×', cls: 'sil-delete-btn' });
       deleteBtn.onclick = async () => {
-        if (confirm('이 카드를 삭제하시겠습니까?')) {
+        if (confirm(t().cardEditor.deleteConfirm)) {
           await this.plugin.dataService.deleteLearningCard(card.id);
           useAppStore.getState().removeLearningCard(card.id);
           this.refresh();
@@ -1302,29 +2039,50 @@ export class InfoLearnView extends ItemView {
 
     try {
       // Use selected text if available, otherwise read full file
-      const text = state.selectedText || await this.app.vault.cachedRead(file);
-
-      const result = await this.plugin.questionGeneratorService.generateFromText(
-        text,
-        file.path,
-        {
-          types: config.selectedTypes,
-          countPerType: config.countPerType,
-        }
+      const content = await this.app.vault.cachedRead(file);
+      const text = state.selectedText || content;
+
+      // Keep card line ranges relative to the note when generating from a selection
+      const selectionStart = state.selectedText ? content.indexOf(state.selectedText) : 0;
+      const lineOffset = selectionStart > 0 ? content.slice(0, selectionStart).split('\n').length - 1 : 0;
+
+      const abort = new AbortController();
+      this.generationAbort = abort;
+
+      const result = await this.runGeneration(file.path, abort.signal, (stream) =>
+        this.plugin.questionGeneratorService.generateFromText(
+          text,
+          file.path,
+          {
+            types: config.selectedTypes,
+            countPerType: config.countPerType,
+            maxChunkTokens: this.plugin.settings.generation.chunkTokenBudget,
+            lineOffset,
+            existingFronts: this.getExistingFronts(file.path),
+          },
+          stream
+        )
       );
 
       if (result.cards.length > 0) {
-        for (const card of result.cards) {
-          await this.plugin.dataService.saveLearningCard(card);
-          useAppStore.getState().addCard(card);
+        const staged = await this.plugin.stageGeneratedCards(result.cards);
+
+        // Mark file as generated if tracking enabled (not for partial results);
+        // a selection only marks the sections it overlaps
+        if (settings.trackInFrontmatter && !result.cancelled) {
+          const selectionEnd = lineOffset + text.split('\n').length;
+          await markAsGenerated(file, this.app, state.selectedText
+            ? (section) => section.startLine <= selectionEnd && section.endLine > lineOffset
+            : undefined);
         }
 
-        // Mark file as generated if tracking enabled
-        if (settings.trackInFrontmatter) {
-          await markAsGenerated(file, this.app);
-        }
-
-        new Notice(t().notice.cardsGenerated(result.cards.length));
+        new Notice(result.cancelled
+          ? t().notice.generationCancelled(result.cards.length)
+          : staged
+            ? t().notice.cardsStaged(result.cards.length)
+            : t().notice.cardsGenerated(result.cards.length));
+      } else if (result.cancelled) {
+        new Notice(t().notice.generationCancelled(0));
       } else {
         new Notice(t().notice.noCardsGenerated);
       }
@@ -1332,6 +2090,7 @@ export class InfoLearnView extends ItemView {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       new Notice(`Error: ${errorMessage}`);
     } finally {
+      this.generationAbort = null;
       useAppStore.setState({ isLoading: false, selectedText: '' });
       this.refresh();
     }
@@ -1353,9 +2112,23 @@ export class InfoLearnView extends ItemView {
     // Filter by date range
     files = filterFilesByDateRange(files, config.dateRange.from, config.dateRange.to);
 
-    // Filter out already generated notes if enabled
+    // Already generated notes only send their new or changed sections (fully processed notes are skipped)
+    const processedSections = new Map<string, string[]>();
     if (settings.skipGeneratedNotes) {
-      files = filterUngenerated(files, this.app);
+      const pending: TFile[] = [];
+      for (const file of files) {
+        if (!hasGeneratedCards(file, this.app)) {
+          pending.push(file);
+          continue;
+        }
+        const content = await this.app.vault.cachedRead(file);
+        const processed = getProcessedSections(file, this.app, content, useAppStore.getState().learningCards);
+        if (listSections(content).some(section => !processed.includes(section.hash))) {
+          processedSections.set(file.path, processed);
+          pending.push(file);
+        }
+      }
+      files = pending;
     }
 
     if (files.length === 0) {
@@ -1374,8 +2147,13 @@ export class InfoLearnView extends ItemView {
 
     this.refresh();
 
+    const abort = new AbortController();
+    this.generationAbort = abort;
+
     // Process files one by one
     for (const file of files) {
+      if (abort.signal.aborted) break;
+
       try {
         const text = await this.app.vault.cachedRead(file);
 
@@ -1387,23 +2165,26 @@ export class InfoLearnView extends ItemView {
           continue;
         }
 
-        const result = await this.plugin.questionGeneratorService.generateFromText(
-          text,
-          file.path,
-          {
-            types: config.selectedTypes,
-            countPerType: config.countPerType,
-          }
+        const result = await this.runGeneration(file.path, abort.signal, (stream) =>
+          this.plugin.questionGeneratorService.generateFromText(
+            text,
+            file.path,
+            {
+              types: config.selectedTypes,
+              countPerType: config.countPerType,
+              maxChunkTokens: this.plugin.settings.generation.chunkTokenBudget,
+              skipSections: processedSections.get(file.path),
+              existingFronts: this.getExistingFronts(file.path),
+            },
+            stream
+          )
         );
 
         if (result.cards.length > 0) {
-          for (const card of result.cards) {
-            await this.plugin.dataService.saveLearningCard(card);
-            useAppStore.getState().addCard(card);
-          }
+          await this.plugin.stageGeneratedCards(result.cards);
 
           // Mark file as generated
-          if (settings.trackInFrontmatter) {
+          if (settings.trackInFrontmatter && !result.cancelled) {
             await markAsGenerated(file, this.app);
           }
 
@@ -1430,7 +2211,68 @@ export class InfoLearnView extends ItemView {
       await new Promise(resolve => setTimeout(resolve, 500));
     }
 
+    this.generationAbort = null;
+
     // Mark as complete
+    useAppStore.getState().setBatchProgress({ isRunning: false });
+    new Notice(abort.signal.aborted
+      ? t().notice.batchCancelled(useAppStore.getState().batchProgress.succeeded)
+      : t().notice.batchComplete(useAppStore.getState().batchProgress.succeeded));
+    this.refresh();
+  }
+
+  private async handleCurrentNoteExtraction(file: TFile): Promise<void> {
+    try {
+      const { count, staged } = await this.plugin.extractCardsFromNote(file, useAppStore.getState().selectedText || undefined);
+      new Notice(count === 0
+        ? t().notice.noCardsExtracted
+        : staged ? t().notice.cardsStaged(count) : t().notice.cardsGenerated(count));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      new Notice(`Error: ${errorMessage}`);
+    } finally {
+      useAppStore.setState({ selectedText: '' });
+      this.refresh();
+    }
+  }
+
+  /**
+   * Rule-based extraction over a folder. Runs locally, so generated notes are not skipped
+   * (cards that already exist are left out) and there is no delay between files.
+   */
+  private async handleBatchExtraction(config: GenerationConfig): Promise<void> {
+    let files = getMarkdownFilesInFolder(this.app, config.folderPath, config.includeSubfolders);
+    files = filterFilesByDateRange(files, config.dateRange.from, config.dateRange.to);
+
+    if (files.length === 0) {
+      new Notice(t().notice.noMatchingNotes);
+      return;
+    }
+
+    useAppStore.getState().setBatchProgress({
+      total: files.length,
+      processed: 0,
+      succeeded: 0,
+      failed: [],
+      isRunning: true,
+    });
+    this.refresh();
+
+    for (const file of files) {
+      try {
+        const { count } = await this.plugin.extractCardsFromNote(file);
+        useAppStore.getState().setBatchProgress({
+          processed: useAppStore.getState().batchProgress.processed + 1,
+          succeeded: useAppStore.getState().batchProgress.succeeded + (count > 0 ? 1 : 0),
+        });
+      } catch (error) {
+        useAppStore.getState().setBatchProgress({
+          processed: useAppStore.getState().batchProgress.processed + 1,
+          failed: [...useAppStore.getState().batchProgress.failed, file.path],
+        });
+      }
+    }
+
     useAppStore.getState().setBatchProgress({ isRunning: false });
     new Notice(t().notice.batchComplete(useAppStore.getState().batchProgress.succeeded));
     this.refresh();
@@ -1446,18 +2288,25 @@ export class InfoLearnView extends ItemView {
     useAppStore.setState({ isLoading: true });
 
     try {
-      const result = await this.plugin.questionGeneratorService.generateMixedQuestions(
-        text,
-        this.app.workspace.getActiveFile()?.path || 'selection',
-        5
+      const sourceFile = this.app.workspace.getActiveFile()?.path || 'selection';
+      const abort = new AbortController();
+      this.generationAbort = abort;
+
+      const result = await this.runGeneration(sourceFile, abort.signal, (stream) =>
+        this.plugin.questionGeneratorService.generateMixedQuestions(text, sourceFile, 5, {
+          maxChunkTokens: this.plugin.settings.generation.chunkTokenBudget,
+        }, stream)
       );
 
       if (result.cards.length > 0) {
-        for (const card of result.cards) {
-          await this.plugin.dataService.saveLearningCard(card);
-          useAppStore.getState().addCard(card);
-        }
-        new Notice(t().notice.cardsGenerated(result.cards.length));
+        const staged = await this.plugin.stageGeneratedCards(result.cards);
+        new Notice(result.cancelled
+          ? t().notice.generationCancelled(result.cards.length)
+          : staged
+            ? t().notice.cardsStaged(result.cards.length)
+            : t().notice.cardsGenerated(result.cards.length));
+      } else if (result.cancelled) {
+        new Notice(t().notice.generationCancelled(0));
       } else {
         new Notice(t().notice.noCardsGenerated);
       }
@@ -1465,10 +2314,208 @@ export class InfoLearnView extends ItemView {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       new Notice(`Error: ${errorMessage}`);
     } finally {
+      this.generationAbort = null;
       useAppStore.setState({ isLoading: false, selectedText: '' });
     }
   }
 
+  /**
+   * Run a generation call, streaming completed cards into the live preview when enabled
+   * On cancel, the cards completed so far are returned with cancelled = true
+   */
+  private async runGeneration(
+    sourceFile: string,
+    signal: AbortSignal,
+    generate: (stream?: GenerationStreamOptions) => Promise<QuestionGenerationResult>
+  ): Promise<{ cards: LearningCard[]; cancelled: boolean }> {
+    const store = useAppStore.getState();
+    const streaming = this.plugin.settings.generation.streamResponses;
+
+    if (!streaming) {
+      const result = await generate();
+      return { cards: result.cards, cancelled: false };
+    }
+
+    store.startStreamingPreview(sourceFile);
+    try {
+      const result = await generate({
+        signal,
+        onCard: (card) => useAppStore.getState().addStreamingCard(card),
+      });
+      return { cards: result.cards, cancelled: false };
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        return { cards: useAppStore.getState().streamingPreview?.cards ?? [], cancelled: true };
+      }
+      throw error;
+    } finally {
+      useAppStore.getState().clearStreamingPreview();
+    }
+  }
+
+  private renderStatsMode(): void {
+    const content = this.contentAreaEl.createDiv({ cls: 'sil-stats' });
+
+    const header = content.createDiv({ cls: 'sil-study-header' });
+    header.createEl('h3', { text: t().stats.title });
+    const refreshBtn = header.createEl('button', { cls: 'sil-refresh-btn' });
+    refreshBtn.innerHTML = '&#x21bb;';
+    refreshBtn.title = t().common.refresh;
+    refreshBtn.onclick = () => {
+      refreshBtn.addClass('spinning');
+      this.statsData = null;
+      this.loadStatsData();
+    };
+
+    if (!this.statsData) {
+      content.createEl('p', { text: t().stats.loading, cls: 'sil-stats-note' });
+      this.loadStatsData();
+      return;
+    }
+
+    const stats = this.plugin.statsService.buildDashboard(
+      useAppStore.getState().learningCards,
+      this.statsData.logs,
+      this.statsData.dailyStats
+    );
+    const { overview } = stats;
+
+    // Overview
+    const statsGrid = content.createDiv({ cls: 'sil-stats-grid' });
+    [
+      { label: t().stats.totalReviews, value: overview.totalReviews.toString(), icon: '🔁' },
+      { label: t().stats.retention30d, value: `${Math.round(overview.retentionRate * 100)}%`, icon: '🎯' },
+      { label: t().stats.predictedRetention, value: `${Math.round(overview.predictedRetention * 100)}%`, icon: '🧠' },
+      { label: t().stats.streak, value: t().stats.days(overview.streak), icon: '🔥' },
+      { label: t().stats.bestStreak, value: t().stats.days(overview.bestStreak), icon: '🏆' },
+      { label: t().stats.averageDaily, value: overview.averageDailyReviews.toFixed(1), icon: '📈' },
+    ].forEach(stat => {
+      const card = statsGrid.createDiv({ cls: 'sil-stat-card' });
+      card.createSpan({ text: stat.icon, cls: 'sil-stat-icon' });
+      card.createEl('div', { text: stat.value, cls: 'sil-stat-value' });
+      card.createEl('div', { text: stat.label, cls: 'sil-stat-label' });
+    });
+
+    this.renderHeatmap(content, stats.heatmap);
+
+    this.renderRetention(
+      content,
+      t().stats.retentionByAge,
+      stats.retentionByAge.map(group => ({ ...group, label: t().stats.ageBuckets[group.key] }))
+    );
+    this.renderRetention(
+      content,
+      t().stats.retentionByType,
+      stats.retentionByType.map(group => ({ ...group, label: t().cardType[group.key] }))
+    );
+
+    const stabilitySection = this.createStatsSection(content, t().stats.stability);
+    const maxCount = Math.max(...stats.stabilityDistribution.map(b => b.count), 1);
+    stats.stabilityDistribution.forEach(bucket => {
+      this.renderBarRow(stabilitySection, t().stats.stabilityBuckets[bucket.key], bucket.count / maxCount, t().stats.cards(bucket.count));
+    });
+
+    this.renderColumnChart(
+      this.createStatsSection(content, t().stats.timePerDay),
+      stats.timePerDay.map(day => ({ date: day.date, value: day.minutes, text: t().stats.minutes(day.minutes) }))
+    );
+    this.renderColumnChart(
+      this.createStatsSection(content, t().stats.forecast),
+      stats.forecast.map(day => ({ date: day.date, value: day.count, text: t().stats.cards(day.count) }))
+    );
+  }
+
+  private async loadStatsData(): Promise<void> {
+    if (this.statsLoading) return;
+    this.statsLoading = true;
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      const [logs, dailyStats] = await Promise.all([
+        this.plugin.dataService.loadAllReviewLogs(),
+        this.plugin.dataService.loadDailyStats('1970-01-01', today),
+      ]);
+      this.statsData = { logs, dailyStats };
+    } finally {
+      this.statsLoading = false;
+    }
+    this.refresh();
+  }
+
+  private createStatsSection(container: HTMLElement, title: string): HTMLElement {
+    const section = container.createDiv({ cls: 'sil-stats-section' });
+    section.createEl('h4', { text: title });
+    return section;
+  }
+
+  /**
+   * One cell per day, one column per week (starting on Sunday)
+   */
+  private renderHeatmap(container: HTMLElement, days: { date: string; count: number }[]): void {
+    const section = this.createStatsSection(container, t().stats.heatmap);
+    const grid = section.createDiv({ cls: 'sil-heatmap' });
+
+    const offset = new Date(days[0].date).getUTCDay();
+    for (let i = 0; i < offset; i++) {
+      grid.createDiv({ cls: 'sil-heatmap-cell empty' });
+    }
+    const max = Math.max(...days.map(day => day.count), 1);
+    days.forEach(day => {
+      const level = day.count === 0 ? 0 : Math.ceil((day.count / max) * 4);
+      const cell = grid.createDiv({ cls: `sil-heatmap-cell level-${level}` });
+      cell.title = t().stats.heatmapDay(day.date, day.count);
+    });
+
+    const total = days.reduce((sum, day) => sum + day.count, 0);
+    const studiedDays = days.filter(day => day.count > 0).length;
+    section.createDiv({ text: t().stats.heatmapTotal(total, studiedDays), cls: 'sil-stats-note' });
+  }
+
+  private renderRetention(container: HTMLElement, title: string, groups: (RetentionGroup<string> & { label: string })[]): void {
+    const section = this.createStatsSection(container, title);
+    if (groups.every(group => group.reviews === 0)) {
+      section.createDiv({ text: t().stats.noData, cls: 'sil-stats-note' });
+      return;
+    }
+    groups.forEach(group => {
+      const text = group.reviews > 0
+        ? t().stats.retentionRow(Math.round(group.retention * 100), group.passed, group.reviews)
+        : '-';
+      this.renderBarRow(section, group.label, group.retention, text);
+    });
+    section.createDiv({ text: t().stats.retentionNote, cls: 'sil-stats-note' });
+  }
+
+  /**
+   * Labelled horizontal bar (ratio 0-1)
+   */
+  private renderBarRow(container: HTMLElement, label: string, ratio: number, text: string): void {
+    const row = container.createDiv({ cls: 'sil-bar-row' });
+    row.createSpan({ text: label, cls: 'sil-bar-label' });
+    const track = row.createDiv({ cls: 'sil-bar-track' });
+    track.createDiv({ cls: 'sil-bar-fill' }).style.width = `${Math.round(ratio * 100)}%`;
+    row.createSpan({ text, cls: 'sil-bar-value' });
+  }
+
+  /**
+   * One column per day, with the first and last date below
+   */
+  private renderColumnChart(container: HTMLElement, days: { date: string; value: number; text: string }[]): void {
+    const max = Math.max(...days.map(day => day.value), 0);
+    if (max === 0) {
+      container.createDiv({ text: t().stats.noData, cls: 'sil-stats-note' });
+      return;
+    }
+    const chart = container.createDiv({ cls: 'sil-column-chart' });
+    days.forEach(day => {
+      const column = chart.createDiv({ cls: 'sil-column' });
+      column.createDiv({ cls: 'sil-column-fill' }).style.height = `${(day.value / max) * 100}%`;
+      column.title = `${day.date}: ${day.text}`;
+    });
+    const axis = container.createDiv({ cls: 'sil-column-axis' });
+    axis.createSpan({ text: days[0].date.slice(5) });
+    axis.createSpan({ text: days[days.length - 1].date.slice(5) });
+  }
+
   private renderSettingsMode(): void {
     const content = this.contentAreaEl.createDiv({ cls: 'sil-settings' });
     content.createEl('h3', { text: t().settingsView.title });
@@ -1552,33 +2599,33 @@ export class InfoLearnView extends ItemView {
     return names[type] || type;
   }
 
-  private getFilteredDueCards(dueCards: LearningCard[]): LearningCard[] {
+  private getFilteredCards(cards: LearningCard[]): LearningCard[] {
     switch (this.reviewFilter.mode) {
       case 'current-note': {
         const activeFile = this.app.workspace.getActiveFile();
         if (!activeFile) return [];
-        return dueCards.filter(c => c.sourceFile === activeFile.path);
+        return cards.filter(c => c.sourceFile === activeFile.path);
       }
 
       case 'folder': {
         const folderPath = this.reviewFilter.folderPath;
-        if (!folderPath) return dueCards;
+        if (!folderPath) return cards;
         if (folderPath === '/') {
           // Root folder - cards without subfolder
-          return dueCards.filter(c => !c.sourceFile.includes('/'));
+          return cards.filter(c => !c.sourceFile.includes('/'));
         }
-        return dueCards.filter(c => c.sourceFile.startsWith(folderPath + '/') || c.sourceFile.startsWith(folderPath));
+        return cards.filter(c => c.sourceFile.startsWith(folderPath + '/') || c.sourceFile.startsWith(folderPath));
       }
 
       case 'date-range': {
         const fromDate = this.reviewFilter.dateFrom ? new Date(this.reviewFilter.dateFrom).getTime() : 0;
         const toDate = this.reviewFilter.dateTo ? new Date(this.reviewFilter.dateTo).getTime() + 24 * 60 * 60 * 1000 : Date.now();
-        return dueCards.filter(c => c.createdAt >= fromDate && c.createdAt < toDate);
+        return cards.filter(c => c.createdAt >= fromDate && c.createdAt < toDate);
       }
 
       case 'all':
       default:
-        return dueCards;
+        return cards;
     }
   }
 }
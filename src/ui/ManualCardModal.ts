@@ -3,7 +3,7 @@
  */
 
 import { Modal, App, Notice } from 'obsidian';
-import { LearningCard, LearningCardType, createLearningCard } from '../types/learning';
+import { BlankPosition, LearningCard, LearningCardType, createLearningCard } from '../types/learning';
 import { t } from '../i18n';
 
 export interface ManualCardModalResult {
@@ -143,12 +143,24 @@ export class ManualCardModal extends Modal {
       }
     }
 
+    // 빈칸 정답: "정답 | 다른 정답 | ..."
+    let blanks: BlankPosition[] | undefined;
+    if (cardType === 'fill_blank') {
+      const [answer, ...alternatives] = back.split('|').map(a => a.trim()).filter(Boolean);
+      if (!answer) {
+        new Notice(t().notice.enterQuestion);
+        return;
+      }
+      blanks = [{ position: Math.max(0, front.indexOf('___')), answer, alternatives }];
+    }
+
     const newCard = createLearningCard({
       type: cardType,
       sourceFile: this.sourceFile,
       front,
-      back,
+      back: blanks ? blanks[0].answer : back,
       options,
+      blanks,
       tags: ['수동생성'],
       difficulty: 3,
     });
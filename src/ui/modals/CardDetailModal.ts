@@ -0,0 +1,166 @@
+/**
+ * 카드 상세 모달
+ * 현재 FSRS 상태, 안정성/난이도 변화 그래프, 전체 복습 기록
+ */
+
+import { App, Modal } from 'obsidian';
+import { LearningCard } from '../../types/learning';
+import { FSRSCardState, ReviewLog } from '../../types/fsrs';
+import { FSRSService } from '../../services/FSRSService';
+import { t } from '../../i18n';
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 100;
+const CHART_PADDING = 6;
+
+export class CardDetailModal extends Modal {
+  private card: LearningCard;
+  private fsrsService: FSRSService;
+  /** 전체 복습 기록 (오래된 순, 사용자 지정 학습 포함) */
+  private logs: ReviewLog[];
+  /** 복습마다 다시 계산한 상태 (오래된 순, 사용자 지정 학습 제외) */
+  private history: { log: ReviewLog; state: FSRSCardState }[];
+
+  constructor(app: App, card: LearningCard, logs: ReviewLog[], fsrsService: FSRSService) {
+    super(app);
+    this.card = card;
+    this.fsrsService = fsrsService;
+    this.logs = [...logs].sort((a, b) => a.timestamp - b.timestamp);
+    this.history = fsrsService.replayReviews(logs);
+  }
+
+  onOpen(): void {
+    const { contentEl, modalEl } = this;
+    modalEl.addClass('sil-compact-modal');
+    contentEl.addClass('sil-card-detail-modal');
+
+    contentEl.createEl('h2', { text: t().cardDetail.title });
+    contentEl.createDiv({ text: this.card.front, cls: 'sil-card-detail-front' });
+    if (this.card.sourceFile) {
+      contentEl.createDiv({ text: `📄 ${this.card.sourceFile}`, cls: 'setting-item-description' });
+    }
+
+    this.renderSummary(contentEl);
+
+    if (this.logs.length === 0) {
+      contentEl.createEl('p', { text: t().cardDetail.noReviews, cls: 'sil-card-detail-empty' });
+    } else {
+      if (this.history.length > 0) {
+        this.renderCurves(contentEl);
+      }
+      this.renderTimeline(contentEl);
+    }
+
+    const buttonRow = contentEl.createDiv({ cls: 'sil-modal-buttons-compact' });
+    const closeBtn = buttonRow.createEl('button', { text: t().common.close, cls: 'sil-btn-compact' });
+    closeBtn.onclick = () => this.close();
+  }
+
+  private renderSummary(container: HTMLElement): void {
+    const state = this.card.fsrsState;
+    const grid = container.createDiv({ cls: 'sil-card-detail-summary' });
+    const addItem = (label: string, value: string) => {
+      const item = grid.createDiv({ cls: 'sil-card-detail-item' });
+      item.createDiv({ text: label, cls: 'sil-card-detail-label' });
+      item.createDiv({ text: value, cls: 'sil-card-detail-value' });
+    };
+
+    addItem(t().cardDetail.state, state.state);
+    if (state.state !== 'new') {
+      addItem(t().cardDetail.stability, t().cardDetail.days(state.stability));
+      addItem(t().cardDetail.difficulty, state.difficulty.toFixed(2));
+      addItem(t().cardDetail.retrievability, `${Math.round(this.fsrsService.getRetrievability(state) * 100)}%`);
+      addItem(t().cardDetail.nextReview, new Date(state.nextReview).toLocaleString());
+    }
+    addItem(t().cardDetail.reps, state.reps.toString());
+    addItem(t().cardDetail.lapses, state.lapses.toString());
+  }
+
+  /**
+   * 안정성(일)과 난이도(1~10) 그래프: 가로축은 복습 순서
+   */
+  private renderCurves(container: HTMLElement): void {
+    const section = container.createDiv({ cls: 'sil-card-detail-section' });
+    section.createEl('h4', { text: t().cardDetail.curves });
+
+    const stability = this.history.map(h => h.state.stability);
+    const difficulty = this.history.map(h => h.state.difficulty);
+    this.renderCurve(section, t().cardDetail.stability, stability, 0, Math.max(...stability, 1), 'stability');
+    this.renderCurve(section, t().cardDetail.difficulty, difficulty, 1, 10, 'difficulty');
+
+    section.createDiv({ text: t().cardDetail.curvesNote, cls: 'setting-item-description' });
+  }
+
+  private renderCurve(
+    container: HTMLElement,
+    label: string,
+    values: number[],
+    min: number,
+    max: number,
+    cls: string,
+  ): void {
+    const chart = container.createDiv({ cls: 'sil-card-detail-chart' });
+    const header = chart.createDiv({ cls: 'sil-card-detail-chart-header' });
+    header.createSpan({ text: label });
+    header.createSpan({ text: `${min} – ${max.toFixed(1)}`, cls: 'sil-card-detail-chart-range' });
+
+    const svg = chart.createSvg('svg', {
+      attr: { viewBox: `0 0 ${CHART_WIDTH} ${CHART_HEIGHT}` },
+      cls: `sil-card-detail-curve ${cls}`,
+    });
+
+    const range = max - min || 1;
+    const step = values.length > 1 ? (CHART_WIDTH - CHART_PADDING * 2) / (values.length - 1) : 0;
+    const points = values.map((value, i) => ({
+      x: CHART_PADDING + (values.length > 1 ? i * step : (CHART_WIDTH - CHART_PADDING * 2) / 2),
+      y: CHART_HEIGHT - CHART_PADDING - ((value - min) / range) * (CHART_HEIGHT - CHART_PADDING * 2),
+      value,
+    }));
+
+    svg.createSvg('polyline', {
+      attr: { points: points.map(p => `${p.x},${p.y}`).join(' ') },
+      cls: 'sil-curve-line',
+    });
+    points.forEach((p, i) => {
+      const dot = svg.createSvg('circle', { attr: { cx: p.x, cy: p.y, r: 3 }, cls: 'sil-curve-dot' });
+      dot.createSvg('title').textContent =
+        `${new Date(this.history[i].log.timestamp).toLocaleDateString()} · ${p.value.toFixed(2)}`;
+    });
+  }
+
+  private renderTimeline(container: HTMLElement): void {
+    const section = container.createDiv({ cls: 'sil-card-detail-section' });
+    section.createEl('h4', { text: t().cardDetail.timeline });
+
+    const ratingLabels: Record<number, { label: string; cls: string }> = {
+      1: { label: t().review.ratingAgain, cls: 'again' },
+      2: { label: t().review.ratingHard, cls: 'hard' },
+      3: { label: t().review.ratingGood, cls: 'good' },
+      4: { label: t().review.ratingEasy, cls: 'easy' },
+    };
+
+    const table = section.createEl('table', { cls: 'sil-card-detail-timeline' });
+    const headerRow = table.createEl('tr');
+    [t().cardDetail.date, t().cardDetail.rating, t().cardDetail.transition, t().cardDetail.interval, t().cardDetail.duration]
+      .forEach(text => headerRow.createEl('th', { text }));
+
+    // 최신 기록이 위로
+    [...this.logs].reverse().forEach(log => {
+      const row = table.createEl('tr');
+      row.createEl('td', { text: new Date(log.timestamp).toLocaleString() });
+      const rating = ratingLabels[log.rating];
+      row.createEl('td', { text: rating.label, cls: `sil-timeline-rating ${rating.cls}` });
+      // 사용자 지정 학습은 상태가 바뀌지 않으므로 방식을 표시
+      row.createEl('td', {
+        text: log.customStudy ? t().customStudy.modes[log.customStudy] : `${log.stateBefore} → ${log.stateAfter}`,
+      });
+      row.createEl('td', { text: this.fsrsService.formatInterval(log.scheduledDays) });
+      row.createEl('td', { text: log.reviewDuration > 0 ? `${Math.round(log.reviewDuration / 1000)}s` : '-' });
+    });
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
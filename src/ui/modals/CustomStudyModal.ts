@@ -0,0 +1,126 @@
+/**
+ * 사용자 지정 학습 모달
+ * 몰아보기, 잊기 쉬운 카드, 미리 보기, 오늘 틀린 카드 (일정은 바꾸지 않음)
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import { CustomStudyMode, CustomStudyOptions } from '../../types/fsrs';
+import { t } from '../../i18n';
+
+/** 범위로 고를 수 있는 값 */
+export interface CustomStudyChoices {
+  folders: string[];
+  tags: string[];
+  notes: string[];
+}
+
+const MODES: CustomStudyMode[] = ['cram', 'lowest-retrievability', 'preview', 'failed-today'];
+
+export class CustomStudyModal extends Modal {
+  private choices: CustomStudyChoices;
+  private onSubmit: (options: CustomStudyOptions) => void;
+  private options: CustomStudyOptions = { mode: 'cram', scope: { kind: 'all' }, limit: 50 };
+
+  constructor(app: App, choices: CustomStudyChoices, onSubmit: (options: CustomStudyOptions) => void) {
+    super(app);
+    this.choices = choices;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl, modalEl } = this;
+    modalEl.addClass('sil-compact-modal');
+    contentEl.addClass('sil-custom-study-modal');
+    this.render();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: t().customStudy.title });
+    contentEl.createEl('p', { text: t().customStudy.description, cls: 'setting-item-description' });
+
+    new Setting(contentEl)
+      .setName(t().customStudy.mode)
+      .setDesc(t().customStudy.modeDesc[this.options.mode])
+      .addDropdown(dropdown => {
+        MODES.forEach(mode => dropdown.addOption(mode, t().customStudy.modes[mode]));
+        dropdown.setValue(this.options.mode);
+        dropdown.onChange(value => {
+          this.options.mode = value as CustomStudyMode;
+          this.render();
+        });
+      });
+
+    new Setting(contentEl)
+      .setName(t().customStudy.scope)
+      .addDropdown(dropdown => {
+        (['all', 'folder', 'tag', 'note'] as const).forEach(kind => dropdown.addOption(kind, t().customStudy.scopes[kind]));
+        dropdown.setValue(this.options.scope.kind);
+        dropdown.onChange(value => {
+          const kind = value as CustomStudyOptions['scope']['kind'];
+          this.options.scope = { kind, value: this.getScopeValues(kind)[0] };
+          this.render();
+        });
+      });
+
+    // 폴더/태그/노트 선택
+    const { kind } = this.options.scope;
+    if (kind !== 'all') {
+      const values = this.getScopeValues(kind);
+      new Setting(contentEl)
+        .setName(t().customStudy.scopes[kind])
+        .addDropdown(dropdown => {
+          values.forEach(value => dropdown.addOption(value, kind === 'tag' ? `#${value}` : value));
+          dropdown.setValue(this.options.scope.value ?? '');
+          dropdown.onChange(value => {
+            this.options.scope.value = value;
+          });
+        });
+    }
+
+    new Setting(contentEl)
+      .setName(t().customStudy.limit)
+      .addText(text => {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '1';
+        text
+          .setValue(this.options.limit.toString())
+          .onChange(value => {
+            const parsed = parseInt(value, 10);
+            this.options.limit = isNaN(parsed) ? 50 : Math.max(1, parsed);
+          });
+      });
+
+    const buttonRow = contentEl.createDiv({ cls: 'sil-modal-buttons-compact' });
+
+    const cancelBtn = buttonRow.createEl('button', { text: t().common.cancel, cls: 'sil-btn-compact' });
+    cancelBtn.onclick = () => this.close();
+
+    const startBtn = buttonRow.createEl('button', { text: t().customStudy.start, cls: 'sil-btn-compact sil-btn-primary-compact' });
+    startBtn.disabled = kind !== 'all' && !this.options.scope.value;
+    startBtn.onclick = () => {
+      this.onSubmit({ ...this.options, scope: { ...this.options.scope } });
+      this.close();
+    };
+  }
+
+  private getScopeValues(kind: CustomStudyOptions['scope']['kind']): string[] {
+    switch (kind) {
+      case 'folder':
+        return this.choices.folders;
+      case 'tag':
+        return this.choices.tags;
+      case 'note':
+        return this.choices.notes;
+      default:
+        return [];
+    }
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * 덱 만들기/편집 모달
+ */
+
+import { App, Modal, Setting, Notice } from 'obsidian';
+import { Deck } from '../../types/learning';
+import { DeckChanges } from '../../services/DeckService';
+import { t } from '../../i18n';
+
+export class DeckModal extends Modal {
+  private result: DeckChanges;
+  private onSubmit: (result: DeckChanges) => void;
+  private isEdit: boolean;
+  /** 상위 덱으로 고를 수 있는 덱 (편집 중인 덱과 그 하위 덱 제외) */
+  private parentOptions: Deck[];
+
+  constructor(
+    app: App,
+    parentOptions: Deck[],
+    onSubmit: (result: DeckChanges) => void,
+    editDeck?: Deck,
+  ) {
+    super(app);
+    this.onSubmit = onSubmit;
+    this.isEdit = !!editDeck;
+    this.parentOptions = parentOptions;
+    this.result = {
+      name: editDeck?.name ?? '',
+      parentId: editDeck?.parentId ?? null,
+      newCardsPerDay: editDeck?.settings?.newCardsPerDay,
+      reviewsPerDay: editDeck?.settings?.reviewsPerDay,
+    };
+  }
+
+  onOpen(): void {
+    const { contentEl, modalEl } = this;
+    modalEl.addClass('sil-compact-modal');
+    contentEl.addClass('sil-deck-modal');
+
+    contentEl.createEl('h2', { text: this.isEdit ? t().deck.editTitle : t().deck.createTitle });
+
+    new Setting(contentEl)
+      .setName(t().deck.name)
+      .addText(text => {
+        text
+          .setValue(this.result.name ?? '')
+          .onChange(value => {
+            this.result.name = value;
+          });
+      });
+
+    new Setting(contentEl)
+      .setName(t().deck.parent)
+      .addDropdown(dropdown => {
+        dropdown.addOption('', t().deck.noParent);
+        [...this.parentOptions]
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .forEach(deck => dropdown.addOption(deck.id, deck.name));
+        dropdown.setValue(this.result.parentId ?? '');
+        dropdown.onChange(value => {
+          this.result.parentId = value || null;
+        });
+      });
+
+    // 하루 제한 (비우면 제한 없음)
+    const addLimit = (name: string, key: 'newCardsPerDay' | 'reviewsPerDay') => {
+      new Setting(contentEl)
+        .setName(name)
+        .addText(text => {
+          text.inputEl.type = 'number';
+          text.inputEl.min = '0';
+          text
+            .setPlaceholder(t().deck.noLimit)
+            .setValue(this.result[key]?.toString() ?? '')
+            .onChange(value => {
+              const parsed = parseInt(value, 10);
+              this.result[key] = isNaN(parsed) ? undefined : Math.max(0, parsed);
+            });
+        });
+    };
+    addLimit(t().deck.newCardsPerDay, 'newCardsPerDay');
+    addLimit(t().deck.reviewsPerDay, 'reviewsPerDay');
+
+    const buttonRow = contentEl.createDiv({ cls: 'sil-modal-buttons-compact' });
+
+    const cancelBtn = buttonRow.createEl('button', { text: t().common.cancel, cls: 'sil-btn-compact' });
+    cancelBtn.onclick = () => this.close();
+
+    const saveBtn = buttonRow.createEl('button', { text: t().common.save, cls: 'sil-btn-compact sil-btn-primary-compact' });
+    saveBtn.onclick = () => {
+      const name = this.result.name?.trim();
+      if (!name) {
+        new Notice(t().notice.enterDeckName);
+        return;
+      }
+      this.onSubmit({ ...this.result, name });
+      this.close();
+    };
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
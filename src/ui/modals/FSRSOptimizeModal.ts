@@ -0,0 +1,81 @@
+/**
+ * FSRS 최적화 결과 모달
+ */
+
+import { App, Modal } from 'obsidian';
+import { FSRSOptimizerResult } from '../../services/FSRSOptimizerService';
+import { t } from '../../i18n';
+
+export class FSRSOptimizeModal extends Modal {
+  private result: FSRSOptimizerResult;
+  private currentWeights: number[];
+  private onApply: (weights: number[]) => void;
+
+  constructor(
+    app: App,
+    result: FSRSOptimizerResult,
+    currentWeights: number[],
+    onApply: (weights: number[]) => void,
+  ) {
+    super(app);
+    this.result = result;
+    this.currentWeights = currentWeights;
+    this.onApply = onApply;
+  }
+
+  onOpen(): void {
+    const { contentEl, modalEl } = this;
+    modalEl.addClass('sil-compact-modal');
+    contentEl.addClass('sil-fsrs-optimize-modal');
+
+    contentEl.createEl('h2', { text: t().fsrsOptimize.title });
+    contentEl.createEl('p', {
+      text: t().fsrsOptimize.summary(this.result.cardCount, this.result.reviewCount),
+      cls: 'setting-item-description',
+    });
+
+    // 손실 비교
+    const { lossBefore, lossAfter } = this.result;
+    const improved = lossAfter < lossBefore;
+    const lossDiv = contentEl.createDiv({ cls: 'sil-fsrs-loss' });
+    lossDiv.createDiv({ text: `${t().fsrsOptimize.lossBefore}: ${lossBefore.toFixed(4)}` });
+    lossDiv.createDiv({ text: `${t().fsrsOptimize.lossAfter}: ${lossAfter.toFixed(4)}` });
+    lossDiv.createDiv({
+      text: improved
+        ? t().fsrsOptimize.improvement(((lossBefore - lossAfter) / lossBefore) * 100)
+        : t().fsrsOptimize.noImprovement,
+      cls: `sil-result ${improved ? 'correct' : 'incorrect'}`,
+    });
+
+    // 가중치 비교
+    const table = contentEl.createEl('table', { cls: 'sil-fsrs-weights' });
+    const headerRow = table.createEl('tr');
+    headerRow.createEl('th', { text: t().fsrsOptimize.weight });
+    headerRow.createEl('th', { text: t().fsrsOptimize.current });
+    headerRow.createEl('th', { text: t().fsrsOptimize.optimized });
+
+    this.result.weights.forEach((w, i) => {
+      const row = table.createEl('tr');
+      row.createEl('td', { text: `w${i}` });
+      row.createEl('td', { text: (this.currentWeights[i] ?? 0).toFixed(4) });
+      row.createEl('td', { text: w.toFixed(4) });
+    });
+
+    const buttonRow = contentEl.createDiv({ cls: 'sil-modal-buttons-compact' });
+
+    const cancelBtn = buttonRow.createEl('button', { text: t().common.cancel, cls: 'sil-btn-compact' });
+    cancelBtn.onclick = () => this.close();
+
+    const applyBtn = buttonRow.createEl('button', { text: t().fsrsOptimize.apply, cls: 'sil-btn-compact sil-btn-primary-compact' });
+    applyBtn.disabled = !improved;
+    applyBtn.onclick = () => {
+      this.onApply(this.result.weights);
+      this.close();
+    };
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * 백업 복원 모달
+ */
+
+import { App, Modal } from 'obsidian';
+import { BackupInfo } from '../../services/BackupService';
+import { t } from '../../i18n';
+
+export class RestoreBackupModal extends Modal {
+  private backups: BackupInfo[];
+  private onRestore: (backup: BackupInfo) => void;
+  private selected: BackupInfo | null = null;
+
+  constructor(app: App, backups: BackupInfo[], onRestore: (backup: BackupInfo) => void) {
+    super(app);
+    this.backups = backups;
+    this.onRestore = onRestore;
+  }
+
+  onOpen(): void {
+    const { contentEl, modalEl } = this;
+    modalEl.addClass('sil-compact-modal');
+    contentEl.addClass('sil-restore-modal');
+    this.render();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: t().backup.title });
+    contentEl.createEl('p', { text: t().backup.description, cls: 'setting-item-description' });
+
+    if (this.backups.length === 0) {
+      contentEl.createEl('p', { text: t().backup.empty, cls: 'sil-backup-empty' });
+    }
+
+    // 스냅샷 목록 (최신순)
+    const list = contentEl.createDiv({ cls: 'sil-backup-list' });
+    this.backups.forEach(backup => {
+      const item = list.createDiv({
+        cls: `sil-backup-item ${this.selected?.fileName === backup.fileName ? 'selected' : ''}`,
+      });
+      item.createDiv({ text: new Date(backup.createdAt).toLocaleString(), cls: 'sil-backup-date' });
+      item.createDiv({
+        text: `${t().backup.reasons[backup.reason]} · ${t().backup.counts(backup.cardCount, backup.reviewLogCount)}`,
+        cls: 'sil-backup-meta',
+      });
+      item.onclick = () => {
+        this.selected = backup;
+        this.render();
+      };
+    });
+
+    if (this.selected) {
+      contentEl.createEl('p', { text: t().backup.confirm, cls: 'sil-backup-warning' });
+    }
+
+    const buttonRow = contentEl.createDiv({ cls: 'sil-modal-buttons-compact' });
+
+    const cancelBtn = buttonRow.createEl('button', { text: t().common.cancel, cls: 'sil-btn-compact' });
+    cancelBtn.onclick = () => this.close();
+
+    const restoreBtn = buttonRow.createEl('button', { text: t().backup.restore, cls: 'sil-btn-compact sil-btn-primary-compact' });
+    restoreBtn.disabled = !this.selected;
+    restoreBtn.onclick = () => {
+      if (!this.selected) return;
+      this.onRestore(this.selected);
+      this.close();
+    };
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Spaced Repetition 플러그인 가져오기 모달
+ * 플래시카드 태그와 복습 일정 변환 여부 선택
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import { DEFAULT_SR_IMPORT_OPTIONS, SRImportOptions } from '../../services/SRImportService';
+import { t } from '../../i18n';
+
+export class SRImportModal extends Modal {
+  private onSubmit: (options: SRImportOptions) => void;
+  private options: SRImportOptions = {
+    ...DEFAULT_SR_IMPORT_OPTIONS,
+    flashcardTags: [...DEFAULT_SR_IMPORT_OPTIONS.flashcardTags],
+  };
+
+  constructor(app: App, onSubmit: (options: SRImportOptions) => void) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl, modalEl } = this;
+    modalEl.addClass('sil-compact-modal');
+    contentEl.addClass('sil-sr-import-modal');
+
+    contentEl.createEl('h3', { text: t().srImport.title });
+    contentEl.createEl('p', { text: t().srImport.description, cls: 'setting-item-description' });
+
+    new Setting(contentEl)
+      .setName(t().srImport.flashcardTags)
+      .setDesc(t().srImport.flashcardTagsDesc)
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SR_IMPORT_OPTIONS.flashcardTags.join(', '))
+        .setValue(this.options.flashcardTags.join(', '))
+        .onChange(value => {
+          const tags = value.split(',').map(tag => tag.trim()).filter(Boolean);
+          this.options.flashcardTags = tags.length > 0 ? tags : [...DEFAULT_SR_IMPORT_OPTIONS.flashcardTags];
+        }));
+
+    new Setting(contentEl)
+      .setName(t().srImport.includeScheduling)
+      .setDesc(t().srImport.includeSchedulingDesc)
+      .addToggle(toggle => toggle
+        .setValue(this.options.includeScheduling)
+        .onChange(value => { this.options.includeScheduling = value; }));
+
+    const buttonRow = contentEl.createDiv({ cls: 'sil-modal-buttons-compact' });
+
+    const cancelBtn = buttonRow.createEl('button', { text: t().common.cancel, cls: 'sil-btn-compact' });
+    cancelBtn.onclick = () => this.close();
+
+    const importBtn = buttonRow.createEl('button', { text: t().srImport.importButton, cls: 'sil-btn-compact sil-btn-primary-compact' });
+    importBtn.onclick = () => {
+      this.onSubmit({ ...this.options, flashcardTags: [...this.options.flashcardTags] });
+      this.close();
+    };
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
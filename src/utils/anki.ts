@@ -0,0 +1,446 @@
+/**
+ * Anki Utilities for Star InfoLearn
+ * Shared helpers for reading and writing Anki collections (.apkg / .colpkg)
+ */
+
+import { AnkiModel, AnkiDeck, AnkiField, AnkiTemplate, ANKI_MODEL_KIND } from '../types/anki';
+import { LearningCardType, BlankPosition } from '../types/learning';
+
+/** Milliseconds per day */
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Default deck ID in every Anki collection */
+export const ANKI_DEFAULT_DECK_ID = 1;
+
+/** Default deck options group ID */
+export const ANKI_DEFAULT_DCONF_ID = 1;
+
+/** Default ease factor (permille) used when no better value is known */
+export const ANKI_DEFAULT_FACTOR = 2500;
+
+/**
+ * Schema 11 collection layout
+ */
+export const ANKI_SCHEMA_SQL = `
+CREATE TABLE col (
+  id integer PRIMARY KEY, crt integer NOT NULL, mod integer NOT NULL, scm integer NOT NULL,
+  ver integer NOT NULL, dty integer NOT NULL, usn integer NOT NULL, ls integer NOT NULL,
+  conf text NOT NULL, models text NOT NULL, decks text NOT NULL, dconf text NOT NULL, tags text NOT NULL
+);
+CREATE TABLE notes (
+  id integer PRIMARY KEY, guid text NOT NULL, mid integer NOT NULL, mod integer NOT NULL,
+  usn integer NOT NULL, tags text NOT NULL, flds text NOT NULL, sfld integer NOT NULL,
+  csum integer NOT NULL, flags integer NOT NULL, data text NOT NULL
+);
+CREATE TABLE cards (
+  id integer PRIMARY KEY, nid integer NOT NULL, did integer NOT NULL, ord integer NOT NULL,
+  mod integer NOT NULL, usn integer NOT NULL, type integer NOT NULL, queue integer NOT NULL,
+  due integer NOT NULL, ivl integer NOT NULL, factor integer NOT NULL, reps integer NOT NULL,
+  lapses integer NOT NULL, left integer NOT NULL, odue integer NOT NULL, odid integer NOT NULL,
+  flags integer NOT NULL, data text NOT NULL
+);
+CREATE TABLE revlog (
+  id integer PRIMARY KEY, cid integer NOT NULL, usn integer NOT NULL, ease integer NOT NULL,
+  ivl integer NOT NULL, lastIvl integer NOT NULL, factor integer NOT NULL, time integer NOT NULL,
+  type integer NOT NULL
+);
+CREATE TABLE graves (usn integer NOT NULL, oid integer NOT NULL, type integer NOT NULL);
+CREATE INDEX ix_notes_usn ON notes (usn);
+CREATE INDEX ix_cards_usn ON cards (usn);
+CREATE INDEX ix_revlog_usn ON revlog (usn);
+CREATE INDEX ix_cards_nid ON cards (nid);
+CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+CREATE INDEX ix_revlog_cid ON revlog (cid);
+CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+/**
+ * Fixed note type IDs so that repeated exports update the same note types in Anki
+ */
+export const SIL_MODEL_IDS: Record<LearningCardType, number> = {
+  flashcard: 1700000000001,
+  fill_blank: 1700000000002,
+  multiple_choice: 1700000000003,
+  short_answer: 1700000000004,
+};
+
+/**
+ * Field names of each Star InfoLearn note type
+ */
+export const SIL_MODEL_FIELDS: Record<LearningCardType, string[]> = {
+  flashcard: ['Front', 'Back', 'Hint', 'Explanation', 'Source'],
+  fill_blank: ['Text', 'Extra', 'Source'],
+  multiple_choice: ['Question', 'Options', 'Answer', 'Explanation', 'Source'],
+  short_answer: ['Question', 'Answer', 'Hint', 'Explanation', 'Source'],
+};
+
+const SIL_MODEL_NAMES: Record<LearningCardType, string> = {
+  flashcard: 'Star InfoLearn Basic',
+  fill_blank: 'Star InfoLearn Cloze',
+  multiple_choice: 'Star InfoLearn Multiple Choice',
+  short_answer: 'Star InfoLearn Short Answer',
+};
+
+const SIL_MODEL_CSS = `.card {
+  font-family: arial;
+  font-size: 20px;
+  text-align: center;
+  color: black;
+  background-color: white;
+}
+.hint, .explanation, .source { font-size: 0.8em; color: #666; margin-top: 1em; }
+.options { text-align: left; display: inline-block; }
+.cloze { font-weight: bold; color: blue; }`;
+
+const SIL_MODEL_TEMPLATES: Record<LearningCardType, { qfmt: string; afmt: string }> = {
+  flashcard: {
+    qfmt: '{{Front}}{{#Hint}}<div class="hint">{{Hint}}</div>{{/Hint}}',
+    afmt: '{{Front}}<hr id=answer>{{Back}}'
+      + '{{#Explanation}}<div class="explanation">{{Explanation}}</div>{{/Explanation}}'
+      + '{{#Source}}<div class="source">{{Source}}</div>{{/Source}}',
+  },
+  fill_blank: {
+    qfmt: '{{cloze:Text}}',
+    afmt: '{{cloze:Text}}{{#Extra}}<div class="explanation">{{Extra}}</div>{{/Extra}}'
+      + '{{#Source}}<div class="source">{{Source}}</div>{{/Source}}',
+  },
+  multiple_choice: {
+    qfmt: '{{Question}}<div class="options">{{Options}}</div>',
+    afmt: '{{FrontSide}}<hr id=answer>{{Answer}}'
+      + '{{#Explanation}}<div class="explanation">{{Explanation}}</div>{{/Explanation}}'
+      + '{{#Source}}<div class="source">{{Source}}</div>{{/Source}}',
+  },
+  short_answer: {
+    qfmt: '{{Question}}{{#Hint}}<div class="hint">{{Hint}}</div>{{/Hint}}',
+    afmt: '{{FrontSide}}<hr id=answer>{{Answer}}'
+      + '{{#Explanation}}<div class="explanation">{{Explanation}}</div>{{/Explanation}}'
+      + '{{#Source}}<div class="source">{{Source}}</div>{{/Source}}',
+  },
+};
+
+/**
+ * Build the Anki note type used to export a given card type
+ */
+export function buildSilModel(type: LearningCardType, deckId: number, now: number): AnkiModel {
+  const fields: AnkiField[] = SIL_MODEL_FIELDS[type].map((name, ord) => ({
+    name,
+    ord,
+    sticky: false,
+    rtl: false,
+    font: 'Arial',
+    size: 20,
+    media: [],
+  }));
+
+  const template: AnkiTemplate = {
+    name: type === 'fill_blank' ? 'Cloze' : 'Card 1',
+    ord: 0,
+    qfmt: SIL_MODEL_TEMPLATES[type].qfmt,
+    afmt: SIL_MODEL_TEMPLATES[type].afmt,
+    bqfmt: '',
+    bafmt: '',
+    did: null,
+  };
+
+  return {
+    id: SIL_MODEL_IDS[type],
+    name: SIL_MODEL_NAMES[type],
+    type: type === 'fill_blank' ? ANKI_MODEL_KIND.CLOZE : ANKI_MODEL_KIND.STANDARD,
+    mod: Math.floor(now / 1000),
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [template],
+    flds: fields,
+    css: SIL_MODEL_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: [],
+  };
+}
+
+/**
+ * Build a deck entry for col.decks
+ */
+export function buildAnkiDeck(id: number, name: string, now: number, desc: string = ''): AnkiDeck {
+  return {
+    id,
+    name,
+    desc,
+    mod: Math.floor(now / 1000),
+    usn: -1,
+    dyn: 0,
+    conf: ANKI_DEFAULT_DCONF_ID,
+    collapsed: false,
+    browserCollapsed: false,
+    extendNew: 0,
+    extendRev: 0,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+/**
+ * Default deck options group (col.dconf)
+ */
+export function buildDefaultDeckConfig(now: number, learningSteps: number[], relearningSteps: number[]): Record<string, unknown> {
+  return {
+    id: ANKI_DEFAULT_DCONF_ID,
+    name: 'Default',
+    mod: Math.floor(now / 1000),
+    usn: -1,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: {
+      bury: false,
+      delays: learningSteps,
+      initialFactor: ANKI_DEFAULT_FACTOR,
+      ints: [1, 4, 0],
+      order: 1,
+      perDay: 20,
+    },
+    lapse: {
+      delays: relearningSteps,
+      leechAction: 1,
+      leechFails: 8,
+      minInt: 1,
+      mult: 0,
+    },
+    rev: {
+      bury: false,
+      ease4: 1.3,
+      ivlFct: 1,
+      maxIvl: 36500,
+      perDay: 200,
+      hardFactor: 1.2,
+    },
+  };
+}
+
+/**
+ * Anki's field checksum: first 8 hex digits of SHA-1 over the stripped sort field
+ */
+export async function ankiChecksum(fieldHtml: string): Promise<number> {
+  const data = new TextEncoder().encode(stripHtml(fieldHtml));
+  const digest = await crypto.subtle.digest('SHA-1', data);
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  return parseInt(hex, 16);
+}
+
+/**
+ * Escape plain text and keep line breaks for an Anki HTML field
+ */
+export function textToAnkiHtml(text: string | undefined): string {
+  if (!text) return '';
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Strip HTML tags (used for sort field and checksum)
+ */
+export function stripHtml(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]+>/g, '')).trim();
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Format tags as Anki stores them (" tag1 tag2 ")
+ */
+export function formatAnkiTags(tags: string[]): string {
+  const cleaned = tags.map(tag => tag.trim().replace(/\s+/g, '_')).filter(tag => tag.length > 0);
+  return cleaned.length > 0 ? ` ${cleaned.join(' ')} ` : '';
+}
+
+/**
+ * Start of the local day for a timestamp (ms)
+ */
+export function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Approximate SM-2 ease factor (permille) from an FSRS difficulty (1-10)
+ * Anki ignores the factor when FSRS is enabled, but SM-2 users still need a sensible value
+ */
+export function difficultyToFactor(difficulty: number): number {
+  if (!difficulty) return ANKI_DEFAULT_FACTOR;
+  const clamped = Math.max(1, Math.min(10, difficulty));
+  // D=1 → 310%, D=10 → 130%
+  return Math.round(3100 - ((clamped - 1) / 9) * 1800);
+}
+
+/**
+ * Inverse of difficultyToFactor, used when a card has no FSRS memory state or history
+ */
+export function factorToDifficulty(factor: number): number {
+  if (!factor) return 5;
+  const clamped = Math.max(1300, Math.min(3100, factor));
+  return 1 + ((3100 - clamped) / 1800) * 9;
+}
+
+/**
+ * Card type of a note type exported by Star InfoLearn, or null for foreign note types
+ */
+export function getSilModelType(modelId: number): LearningCardType | null {
+  const entry = (Object.entries(SIL_MODEL_IDS) as [LearningCardType, number][])
+    .find(([, id]) => id === modelId);
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Convert an Anki HTML field into plain text / markdown
+ * Images and sounds become wiki embeds so imported media stay linked
+ */
+export function ankiHtmlToText(html: string): string {
+  if (!html) return '';
+  return decodeHtmlEntities(
+    html
+      .replace(/\[sound:([^\]]+)\]/g, '![[$1]]')
+      .replace(/<img[^>]*\ssrc=["']?([^"'>\s]+)["']?[^>]*>/gi, (_, src) => `![[${safeDecodeURI(src)}]]`)
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(div|p|li|tr|h[1-6])>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function safeDecodeURI(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Parse Anki's space separated tag string. Hierarchical "a::b" tags become nested "a/b" tags.
+ */
+export function parseAnkiTags(tags: string): string[] {
+  return tags
+    .split(/\s+/)
+    .map(tag => tag.trim().replace(/::/g, '/'))
+    .filter(tag => tag.length > 0 && tag.toLowerCase() !== 'leech' && tag.toLowerCase() !== 'marked');
+}
+
+/**
+ * Field names referenced by a card template ({{Field}}, {{type:Field}}, {{cloze:Field}} …)
+ * Conditionals and special fields such as FrontSide are skipped.
+ */
+export function getTemplateFieldNames(template: string): string[] {
+  const names: string[] = [];
+  for (const match of template.matchAll(/\{\{([^#/^}][^}]*)\}\}/g)) {
+    const name = match[1].split(':').pop()!.trim();
+    if (name && name !== 'FrontSide' && !names.includes(name)) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Read the fields of a protobuf message (schema 18 stores note type and template config this way)
+ * Varints are returned as numbers, length-delimited values as raw bytes.
+ */
+export function readProtoFields(bytes: Uint8Array): Map<number, (number | Uint8Array)[]> {
+  const fields = new Map<number, (number | Uint8Array)[]>();
+  let pos = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let shift = 0;
+    while (pos < bytes.length) {
+      const byte = bytes[pos++];
+      result += (byte & 0x7f) * Math.pow(2, shift);
+      if ((byte & 0x80) === 0) break;
+      shift += 7;
+    }
+    return result;
+  };
+
+  while (pos < bytes.length) {
+    const key = readVarint();
+    const fieldNo = Math.floor(key / 8);
+    const wireType = key & 7;
+    let value: number | Uint8Array;
+
+    if (wireType === 0) {
+      value = readVarint();
+    } else if (wireType === 2) {
+      const length = readVarint();
+      value = bytes.subarray(pos, pos + length);
+      pos += length;
+    } else if (wireType === 1) {
+      pos += 8;
+      continue;
+    } else if (wireType === 5) {
+      pos += 4;
+      continue;
+    } else {
+      break; // Unsupported (group) wire type
+    }
+
+    const list = fields.get(fieldNo) ?? [];
+    list.push(value);
+    fields.set(fieldNo, list);
+  }
+
+  return fields;
+}
+
+/**
+ * Turn cloze markup into fill_blank parts for one cloze ordinal.
+ * Deletions of the requested ordinal become "___"; all others are revealed.
+ */
+export function parseClozeText(
+  text: string,
+  ordinal: number
+): { front: string; answers: BlankPosition[]; hints: string[] } {
+  const answers: BlankPosition[] = [];
+  const hints: string[] = [];
+  let front = '';
+  let cursor = 0;
+
+  for (const match of text.matchAll(/\{\{c(\d+)::([\s\S]*?)(?:::([^}]*?))?\}\}/g)) {
+    front += text.slice(cursor, match.index);
+    cursor = (match.index ?? 0) + match[0].length;
+
+    if (parseInt(match[1], 10) === ordinal) {
+      answers.push({ position: front.length, answer: match[2].trim() });
+      if (match[3]) hints.push(match[3].trim());
+      front += '___';
+    } else {
+      front += match[2];
+    }
+  }
+
+  return { front: front + text.slice(cursor), answers, hints };
+}
@@ -0,0 +1,198 @@
+/**
+ * Answer Matching
+ * Tolerant comparison of typed answers (fill_blank) with the expected answer and its alternatives
+ *
+ * Both sides are folded the same way first: Unicode NFKC, case, punctuation, whitespace and
+ * optionally accents. A trailing Korean particle on either side can be ignored, and what is
+ * left may still differ by a few edits (counted on Hangul jamo when jamoAware is on).
+ */
+
+export interface AnswerMatchingOptions {
+  /** Ignore letter case */
+  ignoreCase: boolean;
+  /** Treat punctuation and symbols as spaces ("FSRS-4.5" = "FSRS 4.5") */
+  ignorePunctuation: boolean;
+  /** Ignore all whitespace (spacing mistakes); otherwise runs of whitespace count as one space */
+  ignoreSpaces: boolean;
+  /** Ignore accents (é = e) */
+  ignoreDiacritics: boolean;
+  /** Accept an answer that only adds or drops a trailing Korean particle (은/는/이/가/을/를 …) */
+  ignoreParticles: boolean;
+  /** Edits allowed per character of the expected answer (0 = must match after folding) */
+  typoTolerance: number;
+  /** Count edits on Hangul jamo, so 갑 → 값 is one edit out of three instead of a whole syllable */
+  jamoAware: boolean;
+}
+
+export const DEFAULT_ANSWER_MATCHING: AnswerMatchingOptions = {
+  ignoreCase: true,
+  ignorePunctuation: true,
+  ignoreSpaces: true,
+  ignoreDiacritics: false,
+  ignoreParticles: true,
+  typoTolerance: 0.15,
+  jamoAware: true,
+};
+
+/**
+ * Result of matching one typed answer
+ */
+export interface AnswerMatch {
+  /** Accepted: equal after folding or within the typo tolerance */
+  correct: boolean;
+  /** Equal after folding (no typos, no particle difference) */
+  exact: boolean;
+  /** The expected answer or alternative that came closest */
+  matched: string;
+  /** Edits between the folded answers */
+  distance: number;
+}
+
+/**
+ * Part of a character diff between a typed answer and the expected one
+ * - extra: only in the typed answer
+ * - missing: only in the expected answer
+ */
+export interface DiffSegment {
+  type: 'equal' | 'extra' | 'missing';
+  text: string;
+}
+
+/** Particles checked longest first, so 에서 is removed before 서 could be */
+const KOREAN_PARTICLES = [
+  '입니다', '이에요', '에서', '에게', '으로', '이다', '부터', '까지', '처럼',
+  '은', '는', '이', '가', '을', '를', '의', '에', '로', '와', '과', '도', '만',
+];
+
+/** Syllables that must remain after removing a particle (나이 keeps its 이) */
+const MIN_STEM_LENGTH = 2;
+
+/**
+ * Match a typed answer against the expected answer and its accepted alternatives
+ */
+export function matchAnswer(
+  answer: string,
+  expected: string[],
+  options: AnswerMatchingOptions = DEFAULT_ANSWER_MATCHING
+): AnswerMatch {
+  const folded = foldAnswer(answer, options);
+  const candidates = expected.filter(e => e.trim().length > 0);
+  let best: AnswerMatch = { correct: false, exact: false, matched: candidates[0] ?? '', distance: Infinity };
+  if (!folded) return best;
+
+  for (const candidate of candidates) {
+    const target = foldAnswer(candidate, options);
+    if (!target) continue;
+    if (folded === target) {
+      return { correct: true, exact: true, matched: candidate, distance: 0 };
+    }
+
+    const givenForms = withoutParticle(folded, options);
+    const targetForms = withoutParticle(target, options);
+    const distance = Math.min(
+      ...givenForms.flatMap(given => targetForms.map(form => editDistance(units(given, options), units(form, options))))
+    );
+    const allowed = Math.floor(units(target, options).length * options.typoTolerance);
+    if (distance < best.distance) {
+      best = { correct: distance <= allowed, exact: false, matched: candidate, distance };
+    }
+  }
+  return best;
+}
+
+/**
+ * Fold an answer for comparison (see AnswerMatchingOptions)
+ */
+export function foldAnswer(text: string, options: AnswerMatchingOptions = DEFAULT_ANSWER_MATCHING): string {
+  let result = text.normalize('NFKC');
+  if (options.ignoreDiacritics) {
+    result = result.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+  }
+  if (options.ignoreCase) {
+    result = result.toLowerCase();
+  }
+  if (options.ignorePunctuation) {
+    result = result.replace(/[\p{P}\p{S}]/gu, ' ');
+  }
+  return options.ignoreSpaces
+    ? result.replace(/\s+/g, '')
+    : result.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Character diff of a typed answer against the expected one (longest common subsequence)
+ */
+export function diffAnswer(answer: string, expected: string, ignoreCase = true): DiffSegment[] {
+  const a = Array.from(answer.trim());
+  const b = Array.from(expected.trim());
+  const same = (x: string, y: string) => (ignoreCase ? x.toLowerCase() === y.toLowerCase() : x === y);
+
+  // lcs[i][j] = common length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(a[i], b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(a[i], b[j])) {
+      push('equal', b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('extra', a[i++]);
+    } else {
+      push('missing', b[j++]);
+    }
+  }
+  while (i < a.length) push('extra', a[i++]);
+  while (j < b.length) push('missing', b[j++]);
+  return segments;
+}
+
+/**
+ * The folded answer, plus the same answer without a trailing particle when ignoreParticles is on
+ */
+function withoutParticle(folded: string, options: AnswerMatchingOptions): string[] {
+  if (!options.ignoreParticles) return [folded];
+  const particle = KOREAN_PARTICLES.find(p => folded.endsWith(p));
+  if (!particle) return [folded];
+  const stem = folded.slice(0, -particle.length).trimEnd();
+  return Array.from(stem).length >= MIN_STEM_LENGTH && /[가-힣]$/.test(stem) ? [folded, stem] : [folded];
+}
+
+/**
+ * Units that edits are counted on: code points, with Hangul syllables split into jamo
+ */
+function units(text: string, options: AnswerMatchingOptions): string[] {
+  return Array.from(options.jamoAware ? text.normalize('NFD') : text);
+}
+
+/**
+ * Levenshtein distance
+ */
+function editDistance(a: string[], b: string[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,86 @@
+/**
+ * Crash-Safe File Utilities for Star InfoLearn
+ *
+ * New content is written to `<path>.tmp` and then moved into place with renames,
+ * so a crash leaves either the previous or the new version of a file, never a
+ * half-written one.
+ */
+
+import { DataAdapter } from 'obsidian';
+
+/**
+ * Replace a file via a temporary file
+ *
+ * Steps: write .tmp → move the current file to .bak → move .tmp into place → drop .bak
+ */
+export async function writeFileAtomic(adapter: DataAdapter, path: string, data: string): Promise<void> {
+  const tmpPath = `${path}.tmp`;
+  const backupPath = `${path}.bak`;
+
+  await adapter.write(tmpPath, data);
+
+  if (await adapter.exists(path)) {
+    if (await adapter.exists(backupPath)) {
+      await adapter.remove(backupPath);
+    }
+    await adapter.rename(path, backupPath);
+  }
+  await adapter.rename(tmpPath, path);
+
+  if (await adapter.exists(backupPath)) {
+    await adapter.remove(backupPath);
+  }
+}
+
+/**
+ * Read a file written by writeFileAtomic, recovering from an interrupted replace
+ *
+ * If the crash happened between the two renames the file itself is missing and
+ * .bak holds the previous version; .tmp is then complete too (it is fully written
+ * before any rename), so it is preferred. A .tmp without .bak may be a torn first
+ * write and is ignored.
+ * @throws When the file does not exist
+ */
+export async function readFileSafe(adapter: DataAdapter, path: string): Promise<string> {
+  const recovered = await recoverablePath(adapter, path);
+  return adapter.read(recovered ?? path);
+}
+
+/**
+ * Read and parse a JSON file written by writeFileAtomic
+ * When the file is there but does not parse, a leftover .bak copy is tried before giving up.
+ * @throws The parse error of the file itself when no copy parses either
+ */
+export async function readJsonSafe(adapter: DataAdapter, path: string): Promise<unknown> {
+  const recovered = await recoverablePath(adapter, path);
+  try {
+    return JSON.parse(await adapter.read(recovered ?? path));
+  } catch (error) {
+    const backupPath = `${path}.bak`;
+    if (recovered === backupPath || !(await adapter.exists(backupPath))) throw error;
+    try {
+      const data: unknown = JSON.parse(await adapter.read(backupPath));
+      console.warn(`Star InfoLearn: ${path} is unreadable, loaded ${backupPath} instead`);
+      return data;
+    } catch {
+      throw error;
+    }
+  }
+}
+
+/**
+ * True when the file or a recoverable copy of it exists
+ */
+export async function fileExistsSafe(adapter: DataAdapter, path: string): Promise<boolean> {
+  return (await recoverablePath(adapter, path)) !== null;
+}
+
+async function recoverablePath(adapter: DataAdapter, path: string): Promise<string | null> {
+  if (await adapter.exists(path)) return path;
+
+  const backupPath = `${path}.bak`;
+  if (!(await adapter.exists(backupPath))) return null;
+
+  const tmpPath = `${path}.tmp`;
+  return (await adapter.exists(tmpPath)) ? tmpPath : backupPath;
+}
@@ -0,0 +1,272 @@
+/**
+ * Card Generation Schema for Star InfoLearn
+ * JSON schema for AI card generation (derived from LearningCard) and a matching validator
+ */
+
+import { LearningCardType, MCQOption } from '../types/learning';
+
+/** Tool name used for Anthropic tool-use structured output */
+export const CARD_GENERATION_TOOL = 'save_cards';
+
+/**
+ * Card fields as returned by the model
+ */
+export interface GeneratedCardData {
+  type: LearningCardType;
+  front: string;
+  back: string;
+  hint?: string;
+  explanation?: string;
+  difficulty: 1 | 2 | 3 | 4 | 5;
+  options?: MCQOption[];
+  /** Other accepted answers for fill_blank */
+  alternatives?: string[];
+}
+
+/**
+ * Validated generation response
+ */
+export interface CardGenerationData {
+  cards: GeneratedCardData[];
+  concepts: string[];
+  confidence: number;
+}
+
+/**
+ * Result of parsing and validating a model response
+ */
+export interface CardGenerationParseResult {
+  /** Response content that passed validation (null when the JSON could not be read) */
+  data: CardGenerationData | null;
+  /** Validation errors with JSON paths, empty when everything is valid */
+  errors: string[];
+}
+
+const ALL_CARD_TYPES: LearningCardType[] = ['flashcard', 'fill_blank', 'multiple_choice', 'short_answer'];
+
+/**
+ * Build the JSON schema for a generation request
+ *
+ * Every property is required, nullable fields use a null type and numeric ranges are
+ * only described, so the same schema works with OpenAI strict mode and as an
+ * Anthropic tool input schema. Ranges are checked by validateCardData.
+ */
+export function buildCardGenerationSchema(types: LearningCardType[] = ALL_CARD_TYPES): Record<string, unknown> {
+  const nullableString = { type: ['string', 'null'] };
+
+  return {
+    type: 'object',
+    properties: {
+      cards: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: types.length > 0 ? types : ALL_CARD_TYPES },
+            front: { type: 'string', description: 'Question; blanks in fill_blank are written as ___' },
+            back: { type: 'string', description: 'Answer' },
+            hint: nullableString,
+            explanation: nullableString,
+            difficulty: { type: 'integer', description: '1 (easy) to 5 (hard)' },
+            options: {
+              type: 'array',
+              description: 'Answer choices, only for multiple_choice (empty otherwise)',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  text: { type: 'string' },
+                  isCorrect: { type: 'boolean' },
+                },
+                required: ['id', 'text', 'isCorrect'],
+                additionalProperties: false,
+              },
+            },
+            alternatives: {
+              type: 'array',
+              description: 'Other accepted answers (synonyms, spellings), only for fill_blank (empty otherwise)',
+              items: { type: 'string' },
+            },
+          },
+          required: ['type', 'front', 'back', 'hint', 'explanation', 'difficulty', 'options', 'alternatives'],
+          additionalProperties: false,
+        },
+      },
+      concepts: { type: 'array', items: { type: 'string' } },
+      confidence: { type: 'number', description: '0.0 to 1.0' },
+    },
+    required: ['cards', 'concepts', 'confidence'],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Pull the JSON object out of a model response (code fences, chatty preambles)
+ */
+export function extractJsonText(response: string): string {
+  let jsonStr = response.trim();
+
+  if (jsonStr.startsWith('```')) {
+    jsonStr = jsonStr.replace(/```json?\n?/g, '').replace(/```/g, '');
+  }
+
+  const jsonMatch = jsonStr.match(/\{[\s\S]*\}/);
+  return jsonMatch ? jsonMatch[0] : jsonStr;
+}
+
+/**
+ * Parse a model response and validate it against the generation schema
+ *
+ * Invalid cards are dropped from `data.cards` and reported in `errors`,
+ * so a partially valid response can still be used.
+ */
+export function parseCardGenerationResponse(
+  response: string,
+  types: LearningCardType[] = ALL_CARD_TYPES
+): CardGenerationParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(extractJsonText(response));
+  } catch (error) {
+    return { data: null, errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  // A bare array of cards is accepted as well
+  const root = Array.isArray(raw) ? { cards: raw } : raw;
+  if (!isObject(root) || !Array.isArray(root.cards)) {
+    return { data: null, errors: ['Response must be an object with a "cards" array'] };
+  }
+
+  const errors: string[] = [];
+  const cards: GeneratedCardData[] = [];
+
+  root.cards.forEach((cardData: unknown, index: number) => {
+    const cardErrors = validateCardData(cardData, types);
+    if (cardErrors.length === 0) {
+      cards.push(normalizeCardData(cardData as Record<string, unknown>));
+    } else {
+      errors.push(...cardErrors.map(e => `cards[${index}]${e}`));
+    }
+  });
+
+  if (root.cards.length === 0) {
+    errors.push('"cards" is empty');
+  }
+
+  const concepts = Array.isArray(root.concepts)
+    ? root.concepts.filter((c): c is string => typeof c === 'string')
+    : [];
+  const confidence = typeof root.confidence === 'number' && root.confidence >= 0 && root.confidence <= 1
+    ? root.confidence
+    : 0.8;
+
+  return { data: { cards, concepts, confidence }, errors };
+}
+
+/**
+ * Validate a single card object
+ * @returns Errors as `.field: message` (empty when valid)
+ */
+export function validateCardData(cardData: unknown, types: LearningCardType[] = ALL_CARD_TYPES): string[] {
+  if (!isObject(cardData)) {
+    return [': must be an object'];
+  }
+
+  const errors: string[] = [];
+  const type = cardData.type as LearningCardType;
+
+  if (!ALL_CARD_TYPES.includes(type)) {
+    errors.push(`.type: must be one of ${ALL_CARD_TYPES.join(', ')}`);
+  } else if (!types.includes(type)) {
+    errors.push(`.type: "${type}" was not requested`);
+  }
+
+  for (const field of ['front', 'back'] as const) {
+    const value = textContent(cardData[field]);
+    if (value === null || value.trim().length === 0) {
+      errors.push(`.${field}: must be a non-empty string`);
+    }
+  }
+
+  for (const field of ['hint', 'explanation'] as const) {
+    const value = cardData[field];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      errors.push(`.${field}: must be a string or null`);
+    }
+  }
+
+  const difficulty = cardData.difficulty;
+  if (difficulty !== undefined && difficulty !== null
+    && !(typeof difficulty === 'number' && Number.isInteger(difficulty) && difficulty >= 1 && difficulty <= 5)) {
+    errors.push('.difficulty: must be an integer from 1 to 5');
+  }
+
+  if (type === 'fill_blank' && !(textContent(cardData.front) ?? '').includes('___')) {
+    errors.push('.front: fill_blank must mark the blank with ___');
+  }
+
+  const alternatives = cardData.alternatives;
+  if (alternatives !== undefined && alternatives !== null
+    && !(Array.isArray(alternatives) && alternatives.every(a => typeof a === 'string'))) {
+    errors.push('.alternatives: must be an array of strings');
+  }
+
+  if (type === 'multiple_choice') {
+    const options = cardData.options;
+    if (!Array.isArray(options) || options.length < 2) {
+      errors.push('.options: multiple_choice needs at least 2 options');
+    } else {
+      options.forEach((option: unknown, i: number) => {
+        if (!isObject(option) || typeof option.text !== 'string' || typeof option.isCorrect !== 'boolean') {
+          errors.push(`.options[${i}]: must have text (string) and isCorrect (boolean)`);
+        }
+      });
+      if (!options.some((o: unknown) => isObject(o) && o.isCorrect === true)) {
+        errors.push('.options: no option is marked correct');
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Convert a validated card object to GeneratedCardData
+ */
+export function normalizeCardData(cardData: Record<string, unknown>): GeneratedCardData {
+  const type = cardData.type as LearningCardType;
+  const options = type === 'multiple_choice'
+    ? (cardData.options as Record<string, unknown>[]).map((o, i) => ({
+      id: typeof o.id === 'string' && o.id ? o.id : String.fromCharCode(97 + i),
+      text: o.text as string,
+      isCorrect: o.isCorrect as boolean,
+    }))
+    : undefined;
+  const alternatives = type === 'fill_blank' && Array.isArray(cardData.alternatives)
+    ? (cardData.alternatives as string[]).map(a => a.trim()).filter(Boolean)
+    : [];
+
+  return {
+    type,
+    front: textContent(cardData.front) as string,
+    back: textContent(cardData.back) as string,
+    hint: (cardData.hint as string | null) ?? undefined,
+    explanation: (cardData.explanation as string | null) ?? undefined,
+    difficulty: (cardData.difficulty as GeneratedCardData['difficulty'] | null) ?? 3,
+    options,
+    alternatives: alternatives.length > 0 ? alternatives : undefined,
+  };
+}
+
+/**
+ * Text of a field; some models wrap it as { content: "..." }
+ */
+function textContent(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (isObject(value) && typeof value.content === 'string') return value.content;
+  return null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
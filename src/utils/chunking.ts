@@ -0,0 +1,243 @@
+/**
+ * Note Chunking Utilities for Star InfoLearn
+ * Splits long Markdown notes into heading-aware chunks that fit a token budget
+ */
+
+/**
+ * A piece of a note sent to the AI in one request
+ */
+export interface NoteChunk {
+  /** Chunk text */
+  text: string;
+  /** Headings above the chunk, outermost first (e.g. ['Week 3', 'Enzymes']) */
+  headingPath: string[];
+  /** First line of the chunk (1-based, inclusive) */
+  startLine: number;
+  /** Last line of the chunk (1-based, inclusive) */
+  endLine: number;
+  /** Estimated token count */
+  tokens: number;
+}
+
+/**
+ * Heading section of a note with a content fingerprint
+ */
+export interface NoteSection {
+  /** Headings above and including the section heading, outermost first */
+  headingPath: string[];
+  /** First line (1-based, inclusive) */
+  startLine: number;
+  /** Last line (1-based, inclusive) */
+  endLine: number;
+  /** Hash of the section text (see hashText) */
+  hash: string;
+}
+
+export interface ChunkOptions {
+  /** Maximum estimated tokens per chunk */
+  maxTokens: number;
+  /** Sections smaller than this are merged into a neighbouring chunk */
+  minTokens: number;
+  /** Hashes of sections to leave out (e.g. sections that already produced cards) */
+  skipSections?: string[];
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxTokens: 3000,
+  minTokens: 400,
+};
+
+/**
+ * Section of a note: a heading line and the body up to the next heading
+ */
+interface Section {
+  headingPath: string[];
+  /** 0-based line indexes, end exclusive */
+  start: number;
+  end: number;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Estimate tokens without a tokenizer
+ * CJK and Hangul characters are roughly one token each, other text about four characters per token.
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u1100-\u11FF\u3040-\u30FF\u3130-\u318F\u3400-\u9FFF\uAC00-\uD7AF]/g)?.length ?? 0;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+}
+
+/**
+ * Split a Markdown note into chunks by headings and token budget
+ *
+ * - Frontmatter is skipped, but line numbers still refer to the original note
+ * - Consecutive small sections are merged while they fit the budget; the merged
+ *   chunk keeps the heading path the sections have in common
+ * - Sections over the budget are split at blank lines (or single lines as a last resort)
+ * - Sections in skipSections are dropped; chunks never span a dropped section
+ */
+export function splitIntoChunks(text: string, options: Partial<ChunkOptions> = {}): NoteChunk[] {
+  const opts = { ...DEFAULT_CHUNK_OPTIONS, ...options };
+  const lines = text.split('\n');
+  const skip = new Set(opts.skipSections ?? []);
+  const sections = findSections(lines).filter(section => !skip.has(hashSection(lines, section)));
+
+  const chunks: NoteChunk[] = [];
+  for (const section of sections) {
+    const pieces = splitSection(lines, section, opts.maxTokens);
+    for (const piece of pieces) {
+      const previous = chunks[chunks.length - 1];
+      const sectionText = lines.slice(piece.start, piece.end).join('\n');
+      const tokens = estimateTokens(sectionText);
+      if (tokens === 0) continue;
+
+      // Merge with the previous chunk when adjacent, either is small and both fit the budget
+      if (previous && previous.endLine === piece.start
+        && (previous.tokens < opts.minTokens || tokens < opts.minTokens)
+        && previous.tokens + tokens <= opts.maxTokens) {
+        previous.text = lines.slice(previous.startLine - 1, piece.end).join('\n');
+        previous.endLine = piece.end;
+        previous.tokens = estimateTokens(previous.text);
+        previous.headingPath = commonPrefix(previous.headingPath, piece.headingPath);
+        continue;
+      }
+
+      chunks.push({
+        text: sectionText,
+        headingPath: piece.headingPath,
+        startLine: piece.start + 1,
+        endLine: piece.end,
+        tokens,
+      });
+    }
+  }
+
+  return chunks.filter(chunk => chunk.text.trim().length > 0);
+}
+
+/**
+ * List the heading sections of a note with their content hashes
+ */
+export function listSections(text: string): NoteSection[] {
+  const lines = text.split('\n');
+  return findSections(lines).map(section => ({
+    headingPath: section.headingPath,
+    startLine: section.start + 1,
+    endLine: section.end,
+    hash: hashSection(lines, section),
+  }));
+}
+
+/**
+ * Content hash that ignores inserted ^sil- block ids, sil-card blocks and trailing whitespace
+ * (32-bit FNV-1a, hex). Editing a card mirrored in the note does not count as a source change.
+ */
+export function hashText(text: string): string {
+  const normalized = text
+    .replace(/(\n\n)?^(```|~~~)[ \t]*sil-card[ \t]*\n[\s\S]*?^\2[ \t]*$/gm, '')
+    .replace(/(\n\n)?^>\s*\[!sil-card\].*(\n>.*)*/gm, '')
+    .replace(/ \^sil-[a-z0-9]+$/gm, '')
+    .replace(/[ \t]+$/gm, '')
+    .trim();
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function hashSection(lines: string[], section: Section): string {
+  return hashText(lines.slice(section.start, section.end).join('\n'));
+}
+
+/**
+ * Find heading sections, ignoring headings inside code fences and frontmatter
+ */
+function findSections(lines: string[]): Section[] {
+  const sections: Section[] = [];
+  const stack: { level: number; title: string }[] = [];
+  let inFence = false;
+  let start = 0;
+
+  // Skip frontmatter
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    if (end > 0) start = end + 1;
+  }
+
+  let current: Section = { headingPath: [], start, end: lines.length };
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const match = line.match(HEADING_PATTERN);
+    if (!match) continue;
+
+    current.end = i;
+    if (current.end > current.start) sections.push(current);
+
+    const level = match[1].length;
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+    stack.push({ level, title: match[2] });
+
+    current = { headingPath: stack.map(h => h.title), start: i, end: lines.length };
+  }
+
+  if (current.end > current.start) sections.push(current);
+  return sections;
+}
+
+/**
+ * Split a section that exceeds the budget at paragraph boundaries
+ */
+function splitSection(lines: string[], section: Section, maxTokens: number): Section[] {
+  const text = lines.slice(section.start, section.end).join('\n');
+  if (estimateTokens(text) <= maxTokens) return [section];
+
+  const pieces: Section[] = [];
+  let pieceStart = section.start;
+  let pieceTokens = 0;
+  let lastBreak = -1;
+  let inFence = false;
+
+  for (let i = section.start; i < section.end; i++) {
+    const lineTokens = estimateTokens(lines[i]) + 1;
+    if (FENCE_PATTERN.test(lines[i])) inFence = !inFence;
+
+    // Never leave a heading line on its own
+    const minEnd = pieceStart === section.start ? pieceStart + 1 : pieceStart;
+    if (pieceTokens + lineTokens > maxTokens && i > minEnd) {
+      // Prefer the last blank line outside a code block, else cut here
+      const cut = lastBreak > pieceStart ? lastBreak : i;
+      pieces.push({ headingPath: section.headingPath, start: pieceStart, end: cut });
+      pieceStart = cut;
+      pieceTokens = estimateTokens(lines.slice(cut, i).join('\n'));
+      lastBreak = -1;
+    }
+
+    pieceTokens += lineTokens;
+    if (!inFence && lines[i].trim() === '') lastBreak = i + 1;
+  }
+
+  if (section.end > pieceStart) {
+    pieces.push({ headingPath: section.headingPath, start: pieceStart, end: section.end });
+  }
+  return pieces;
+}
+
+function commonPrefix(a: string[], b: string[]): string[] {
+  const prefix: string[] = [];
+  for (let i = 0; i < Math.min(a.length, b.length) && a[i] === b[i]; i++) {
+    prefix.push(a[i]);
+  }
+  return prefix;
+}
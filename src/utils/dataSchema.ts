@@ -0,0 +1,199 @@
+/**
+ * Data Schema Versioning for Star InfoLearn
+ * Versioned envelopes for stored data and the migrations that upgrade it on load
+ *
+ * Data files are written as { schemaVersion, kind, data }. Files written before
+ * versioning have no envelope and count as version 0. MIGRATIONS[kind][n] upgrades
+ * a single record from version n to n + 1, so the current version of a kind is the
+ * number of its migrations: to change a stored type, append a migration.
+ */
+
+import { DEFAULT_CARD_STATE } from '../types/fsrs';
+import { DataMigrationError } from '../types/errors';
+
+/** Record types stored on disk */
+export type DataKind = 'card' | 'reviewLog' | 'deck' | 'dailyStats';
+
+/**
+ * Versioned file content
+ */
+export interface DataEnvelope<T> {
+  schemaVersion: number;
+  kind: DataKind;
+  data: T;
+}
+
+type StoredRecord = Record<string, unknown>;
+type Migration = (record: StoredRecord) => StoredRecord;
+
+const MIGRATIONS: Record<DataKind, Migration[]> = {
+  card: [
+    // v0 → v1: unversioned cards; require the identity fields, fill defaults for the rest
+    (card) => {
+      requireField(card, 'id', 'string');
+      requireField(card, 'front', 'string');
+      requireField(card, 'back', 'string');
+      const fsrsState = isRecord(card.fsrsState) ? card.fsrsState : {};
+      return {
+        ...card,
+        type: typeof card.type === 'string' ? card.type : 'flashcard',
+        sourceFile: typeof card.sourceFile === 'string' ? card.sourceFile : '',
+        tags: Array.isArray(card.tags) ? card.tags : [],
+        difficulty: typeof card.difficulty === 'number' ? card.difficulty : 3,
+        fsrsState: { ...DEFAULT_CARD_STATE, ...fsrsState },
+        createdAt: typeof card.createdAt === 'number' ? card.createdAt : Date.now(),
+        updatedAt: typeof card.updatedAt === 'number' ? card.updatedAt : Date.now(),
+      };
+    },
+  ],
+  reviewLog: [
+    // v0 → v1: unversioned day files
+    (log) => {
+      requireField(log, 'cardId', 'string');
+      requireField(log, 'timestamp', 'number');
+      requireField(log, 'rating', 'number');
+      return {
+        ...log,
+        scheduledDays: typeof log.scheduledDays === 'number' ? log.scheduledDays : 0,
+        elapsedDays: typeof log.elapsedDays === 'number' ? log.elapsedDays : 0,
+        reviewDuration: typeof log.reviewDuration === 'number' ? log.reviewDuration : 0,
+      };
+    },
+  ],
+  deck: [
+    // v0 → v1: unversioned deck files
+    (deck) => {
+      requireField(deck, 'id', 'string');
+      requireField(deck, 'name', 'string');
+      return {
+        ...deck,
+        cardIds: Array.isArray(deck.cardIds) ? deck.cardIds : [],
+        childIds: Array.isArray(deck.childIds) ? deck.childIds : [],
+        createdAt: typeof deck.createdAt === 'number' ? deck.createdAt : Date.now(),
+        lastStudied: typeof deck.lastStudied === 'number' ? deck.lastStudied : null,
+      };
+    },
+  ],
+  dailyStats: [
+    // v0 → v1: unversioned stats files
+    (stats) => {
+      requireField(stats, 'date', 'string');
+      const numbers = ['reviewed', 'newLearned', 'failed', 'totalTime', 'averageAccuracy', 'cardsSkipped'];
+      const defaults = Object.fromEntries(numbers.map(key => [key, typeof stats[key] === 'number' ? stats[key] : 0]));
+      return { ...stats, ...defaults };
+    },
+  ],
+};
+
+/**
+ * Schema version written for a kind
+ */
+export function currentSchemaVersion(kind: DataKind): number {
+  return MIGRATIONS[kind].length;
+}
+
+/**
+ * Current schema version of every kind (stored in backups)
+ */
+export function currentSchemaVersions(): Record<DataKind, number> {
+  return {
+    card: currentSchemaVersion('card'),
+    reviewLog: currentSchemaVersion('reviewLog'),
+    deck: currentSchemaVersion('deck'),
+    dailyStats: currentSchemaVersion('dailyStats'),
+  };
+}
+
+/**
+ * Wrap data for writing at the current schema version
+ */
+export function createEnvelope<T>(kind: DataKind, data: T): DataEnvelope<T> {
+  return { schemaVersion: currentSchemaVersion(kind), kind, data };
+}
+
+/**
+ * Split stored content into its schema version and payload
+ * @param legacy Payload of an unversioned file (default: the content itself)
+ */
+export function openEnvelope(
+  kind: DataKind,
+  raw: unknown,
+  legacy: (raw: unknown) => unknown = (value) => value
+): { version: number; data: unknown } {
+  if (isRecord(raw) && typeof raw.schemaVersion === 'number' && raw.kind === kind) {
+    return { version: raw.schemaVersion, data: raw.data };
+  }
+  return { version: 0, data: legacy(raw) };
+}
+
+/**
+ * Upgrade a single record to the current schema
+ * @throws DataMigrationError when a migration fails or the record comes from a newer version
+ */
+export function migrateRecord<T>(kind: DataKind, record: unknown, fromVersion: number): T {
+  assertSupportedVersion(kind, fromVersion);
+  if (!isRecord(record)) {
+    throw new DataMigrationError(`${kind} record is not an object`, kind, fromVersion);
+  }
+
+  let current: StoredRecord = record;
+  for (let version = fromVersion; version < MIGRATIONS[kind].length; version++) {
+    try {
+      current = MIGRATIONS[kind][version](current);
+    } catch (error) {
+      throw new DataMigrationError(
+        `Cannot migrate ${kind} from v${version}: ${error instanceof Error ? error.message : String(error)}`,
+        kind,
+        version,
+        error
+      );
+    }
+  }
+  return current as T;
+}
+
+/**
+ * Upgrade a list of records; records that fail are returned separately (for quarantine)
+ * @throws DataMigrationError when the list comes from a newer version
+ */
+export function migrateRecords<T>(
+  kind: DataKind,
+  records: unknown[],
+  fromVersion: number
+): { records: T[]; failed: { record: unknown; error: DataMigrationError }[] } {
+  assertSupportedVersion(kind, fromVersion);
+
+  const migrated: T[] = [];
+  const failed: { record: unknown; error: DataMigrationError }[] = [];
+  for (const record of records) {
+    try {
+      migrated.push(migrateRecord<T>(kind, record, fromVersion));
+    } catch (error) {
+      failed.push({ record, error: error as DataMigrationError });
+    }
+  }
+  return { records: migrated, failed };
+}
+
+/**
+ * Data written by a newer plugin version is left untouched rather than guessed at
+ */
+function assertSupportedVersion(kind: DataKind, version: number): void {
+  if (version > currentSchemaVersion(kind)) {
+    throw new DataMigrationError(
+      `${kind} data is from a newer schema (v${version}, supported v${currentSchemaVersion(kind)})`,
+      kind,
+      version
+    );
+  }
+}
+
+function requireField(record: StoredRecord, field: string, type: 'string' | 'number'): void {
+  if (typeof record[field] !== type) {
+    throw new Error(`"${field}" must be a ${type}`);
+  }
+}
+
+function isRecord(value: unknown): value is StoredRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -4,10 +4,21 @@
  */
 
 import { App, TFile } from 'obsidian';
+import { LearningCard } from '../types/learning';
+import { hashText, listSections, NoteSection } from './chunking';
 
 /** Frontmatter property name for tracking card generation */
 export const FRONTMATTER_KEY = 'sil-cards-generated';
 
+/** Frontmatter property name for the hash of the note content the cards were made from */
+export const SOURCE_HASH_KEY = 'sil-source-hash';
+
+/** Frontmatter property name for the hashes of heading sections that produced cards */
+export const SECTIONS_KEY = 'sil-generated-sections';
+
+/** Frontmatter property name for the ids of cards mirrored as sil-card blocks in the note */
+export const EMBEDDED_KEY = 'sil-embedded-cards';
+
 /**
  * Check if a file has already had cards generated
  */
@@ -40,13 +51,28 @@ export function getGenerationDate(file: TFile, app: App): Date | null {
 
 /**
  * Mark a file as having cards generated
- * Adds sil-cards-generated: "YYYY-MM-DD" to frontmatter
+ * Adds sil-cards-generated: "YYYY-MM-DD", sil-source-hash and sil-generated-sections to frontmatter
+ * @param isProcessed Sections covered by this generation (default: the whole note);
+ *   sections recorded earlier stay recorded while their content is unchanged
  */
-export async function markAsGenerated(file: TFile, app: App): Promise<void> {
+export async function markAsGenerated(
+  file: TFile,
+  app: App,
+  isProcessed?: (section: NoteSection) => boolean
+): Promise<void> {
   const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+  const content = await app.vault.read(file);
+  const hash = hashNoteContent(content);
+
+  const previous = new Set(getGeneratedSections(file, app) ?? []);
+  const sections = listSections(content)
+    .filter(section => previous.has(section.hash) || !isProcessed || isProcessed(section))
+    .map(section => section.hash);
 
   await app.fileManager.processFrontMatter(file, (frontmatter) => {
     frontmatter[FRONTMATTER_KEY] = today;
+    frontmatter[SOURCE_HASH_KEY] = hash;
+    frontmatter[SECTIONS_KEY] = sections;
   });
 }
 
@@ -56,9 +82,99 @@ export async function markAsGenerated(file: TFile, app: App): Promise<void> {
 export async function clearGenerationMark(file: TFile, app: App): Promise<void> {
   await app.fileManager.processFrontMatter(file, (frontmatter) => {
     delete frontmatter[FRONTMATTER_KEY];
+    delete frontmatter[SOURCE_HASH_KEY];
+    delete frontmatter[SECTIONS_KEY];
+  });
+}
+
+/**
+ * Get the hashes of sections that already produced cards (null when not tracked)
+ */
+export function getGeneratedSections(file: TFile, app: App): string[] | null {
+  const sections = app.metadataCache.getFileCache(file)?.frontmatter?.[SECTIONS_KEY];
+  return Array.isArray(sections) ? sections.filter((s): s is string => typeof s === 'string') : null;
+}
+
+/**
+ * Hashes of the sections in `content` that already produced cards
+ *
+ * Notes marked before sections were tracked fall back to the heading paths of
+ * their cards; when the cards carry no headings either, the whole note counts
+ * as processed.
+ */
+export function getProcessedSections(
+  file: TFile,
+  app: App,
+  content: string,
+  cards: LearningCard[]
+): string[] {
+  const sections = listSections(content);
+  const stored = getGeneratedSections(file, app);
+  if (stored) {
+    const storedSet = new Set(stored);
+    return sections.filter(section => storedSet.has(section.hash)).map(section => section.hash);
+  }
+
+  const sourceCards = cards.filter(card => card.sourceFile === file.path);
+  if (!sourceCards.some(card => card.sourceHeadings)) {
+    return sections.map(section => section.hash);
+  }
+
+  return sections
+    .filter(section => sourceCards.some(card => {
+      const headings = card.sourceHeadings ?? [];
+      return headings.length === 0
+        ? section.headingPath.length === 0
+        : headings.every((heading, i) => section.headingPath[i] === heading);
+    }))
+    .map(section => section.hash);
+}
+
+/**
+ * Get the stored source content hash of a file
+ */
+export function getSourceHash(file: TFile, app: App): string | null {
+  const hash = app.metadataCache.getFileCache(file)?.frontmatter?.[SOURCE_HASH_KEY];
+  return typeof hash === 'string' ? hash : null;
+}
+
+/**
+ * Store the source content hash of a file
+ */
+export async function setSourceHash(file: TFile, app: App, hash: string): Promise<void> {
+  await app.fileManager.processFrontMatter(file, (frontmatter) => {
+    frontmatter[SOURCE_HASH_KEY] = hash;
+  });
+}
+
+/**
+ * Get the ids of cards embedded in a note as sil-card blocks
+ */
+export function getEmbeddedCardIds(file: TFile, app: App): string[] {
+  const ids = app.metadataCache.getFileCache(file)?.frontmatter?.[EMBEDDED_KEY];
+  return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+}
+
+/**
+ * Store the ids of cards embedded in a note (the property is removed when there are none)
+ */
+export async function setEmbeddedCardIds(file: TFile, app: App, ids: string[]): Promise<void> {
+  await app.fileManager.processFrontMatter(file, (frontmatter) => {
+    if (ids.length > 0) {
+      frontmatter[EMBEDDED_KEY] = ids;
+    } else {
+      delete frontmatter[EMBEDDED_KEY];
+    }
   });
 }
 
+/**
+ * Hash of a note's content, ignoring frontmatter, inserted ^sil- block ids, sil-card blocks and trailing whitespace
+ */
+export function hashNoteContent(content: string): string {
+  return hashText(content.replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, ''));
+}
+
 /**
  * Get all markdown files in a folder (optionally including subfolders)
  */
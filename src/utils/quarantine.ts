@@ -0,0 +1,70 @@
+/**
+ * Quarantine for Star InfoLearn Data
+ *
+ * Files that cannot be parsed and records that cannot be migrated are moved to
+ * `<dataDir>/quarantine` instead of being dropped, so they can be inspected or
+ * repaired by hand. Every entry is also listed in quarantine/log.jsonl with the reason.
+ */
+
+import { DataAdapter } from 'obsidian';
+
+const QUARANTINE_DIR = 'quarantine';
+
+/**
+ * Move a damaged file out of the data folder
+ */
+export async function quarantineFile(
+  adapter: DataAdapter,
+  dataDir: string,
+  path: string,
+  reason: string
+): Promise<void> {
+  const dir = await ensureQuarantineDir(adapter, dataDir);
+  const target = `${dir}/${timestamp()}-${path.split('/').pop()}`;
+  await adapter.rename(path, target);
+  await appendLog(adapter, dir, { source: path, target, reason });
+  console.warn(`Star InfoLearn: quarantined ${path} (${reason})`);
+}
+
+/**
+ * Save records that failed migration next to their source file's name
+ */
+export async function quarantineRecords(
+  adapter: DataAdapter,
+  dataDir: string,
+  sourcePath: string,
+  records: { record: unknown; error: Error }[]
+): Promise<void> {
+  if (records.length === 0) return;
+
+  const dir = await ensureQuarantineDir(adapter, dataDir);
+  const target = `${dir}/${timestamp()}-records-${sourcePath.split('/').pop()}`;
+  const content = records.map(({ record, error }) => ({ reason: error.message, record }));
+  await adapter.write(target, JSON.stringify(content, null, 2));
+  await appendLog(adapter, dir, {
+    source: sourcePath,
+    target,
+    reason: `${records.length} record(s) could not be migrated`,
+  });
+  console.warn(`Star InfoLearn: quarantined ${records.length} record(s) from ${sourcePath}`);
+}
+
+async function ensureQuarantineDir(adapter: DataAdapter, dataDir: string): Promise<string> {
+  const dir = `${dataDir}/${QUARANTINE_DIR}`;
+  if (!(await adapter.exists(dir))) {
+    await adapter.mkdir(dir);
+  }
+  return dir;
+}
+
+async function appendLog(
+  adapter: DataAdapter,
+  dir: string,
+  entry: { source: string; target: string; reason: string }
+): Promise<void> {
+  await adapter.append(`${dir}/log.jsonl`, `${JSON.stringify({ time: Date.now(), ...entry })}\n`);
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
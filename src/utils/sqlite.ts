@@ -0,0 +1,54 @@
+/**
+ * SQLite Utilities for Star InfoLearn
+ * Lazily loads the bundled sql.js WASM build (used for Anki collections)
+ */
+
+import initSqlJs, { SqlJsStatic, Database, SqlValue } from 'sql.js';
+import sqlWasm from 'sql.js/dist/sql-wasm.wasm';
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Load sql.js once and reuse the instance
+ */
+export function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    const wasmBinary = sqlWasm.buffer.slice(
+      sqlWasm.byteOffset,
+      sqlWasm.byteOffset + sqlWasm.byteLength
+    ) as ArrayBuffer;
+    sqlJsPromise = initSqlJs({ wasmBinary }).catch((error) => {
+      sqlJsPromise = null;
+      throw error;
+    });
+  }
+  return sqlJsPromise;
+}
+
+/**
+ * Run a query and return every row as an object keyed by column name
+ */
+export function queryAll<T>(db: Database, sql: string, params: SqlValue[] = []): T[] {
+  const stmt = db.prepare(sql);
+  const rows: T[] = [];
+  try {
+    stmt.bind(params);
+    while (stmt.step()) {
+      rows.push(stmt.getAsObject() as unknown as T);
+    }
+  } finally {
+    stmt.free();
+  }
+  return rows;
+}
+
+/**
+ * Check whether a table exists in the database
+ */
+export function hasTable(db: Database, name: string): boolean {
+  return queryAll<{ name: string }>(
+    db,
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+    [name]
+  ).length > 0;
+}
@@ -0,0 +1,177 @@
+/**
+ * Streaming Utilities for Star InfoLearn
+ * Server-sent event reader and incremental JSON parsing for streamed AI responses
+ */
+
+/**
+ * A single server-sent event
+ */
+export interface ServerSentEvent {
+  /** Event name (Anthropic sends one, OpenAI does not) */
+  event?: string;
+  data: string;
+}
+
+/**
+ * Read server-sent events from a fetch response body
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary >= 0) {
+        const raw = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        const event = parseEvent(raw);
+        if (event) yield event;
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+
+      if (done) {
+        const event = parseEvent(buffer);
+        if (event) yield event;
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEvent(raw: string): ServerSentEvent | null {
+  let event: string | undefined;
+  const data: string[] = [];
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (line.startsWith(':')) continue; // comment / keep-alive
+    const colon = line.indexOf(':');
+    const field = colon >= 0 ? line.slice(0, colon) : line;
+    const value = colon >= 0 ? line.slice(colon + 1).replace(/^ /, '') : '';
+
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+/**
+ * Incremental parser that emits each card object as soon as its JSON is complete
+ *
+ * Accepts `{ "cards": [ {...}, {...} ], ... }` as well as a bare `[ {...} ]` array,
+ * and ignores anything before the first bracket (e.g. a ```json fence).
+ */
+export class StreamingCardParser {
+  private text = '';
+  private pos = 0;
+  /** Open containers; for objects the key currently being read or last read */
+  private stack: { type: 'object' | 'array'; key: string | null; expectKey: boolean }[] = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private objectStart = -1;
+  private started = false;
+
+  /**
+   * Feed the next chunk of model output
+   * @returns Card objects completed by this chunk
+   */
+  push(chunk: string): Record<string, unknown>[] {
+    this.text += chunk;
+    const completed: Record<string, unknown>[] = [];
+
+    for (; this.pos < this.text.length; this.pos++) {
+      const ch = this.text[this.pos];
+
+      if (!this.started) {
+        if (ch !== '{' && ch !== '[') continue;
+        this.started = true;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === '\\') {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.inString = false;
+          const top = this.stack[this.stack.length - 1];
+          if (top?.type === 'object' && top.expectKey) {
+            top.key = this.text.slice(this.stringStart + 1, this.pos);
+            top.expectKey = false;
+          }
+        }
+        continue;
+      }
+
+      switch (ch) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.pos;
+          break;
+
+        case '{':
+          if (this.isCardPosition()) this.objectStart = this.pos;
+          this.stack.push({ type: 'object', key: null, expectKey: true });
+          break;
+
+        case '[':
+          this.stack.push({ type: 'array', key: null, expectKey: false });
+          break;
+
+        case '}':
+        case ']':
+          this.stack.pop();
+          if (ch === '}' && this.objectStart >= 0 && this.isCardPosition()) {
+            const json = this.text.slice(this.objectStart, this.pos + 1);
+            this.objectStart = -1;
+            try {
+              completed.push(JSON.parse(json));
+            } catch {
+              // Malformed card object: skip it, the final parse reports the error
+            }
+          }
+          break;
+
+        case ',': {
+          const top = this.stack[this.stack.length - 1];
+          if (top?.type === 'object') top.expectKey = true;
+          break;
+        }
+      }
+    }
+
+    return completed;
+  }
+
+  /** Full text received so far */
+  getText(): string {
+    return this.text;
+  }
+
+  /**
+   * True when the next value sits directly inside the card array
+   */
+  private isCardPosition(): boolean {
+    const depth = this.stack.length;
+    if (depth === 1) {
+      return this.stack[0].type === 'array';
+    }
+    if (depth === 2) {
+      return this.stack[0].type === 'object'
+        && this.stack[0].key === 'cards'
+        && this.stack[1].type === 'array';
+    }
+    return false;
+  }
+}